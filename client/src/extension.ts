@@ -1,20 +1,154 @@
 import * as path from 'path';
-import { commands, workspace, ExtensionContext } from 'vscode';
+import { commands, window, workspace, ExtensionContext, OutputChannel, Uri } from 'vscode';
 
 import {
+    ExecuteCommandRequest,
     LanguageClient,
     LanguageClientOptions,
     ServerOptions,
     TransportKind
 } from 'vscode-languageclient/node';
+import { showCaptionPreview } from './preview';
 
 let client: LanguageClient;
+let outputChannel: OutputChannel;
 
-export function activate(context: ExtensionContext) {
-    // Registering command created in package.json
-    commands.registerCommand('markdown-captions.showPreviewToSide', () => {
-        commands.executeCommand('markdown.showPreviewToSide').then(function () {});
+interface EmbedResult {
+    virin: string;
+    file: string;
+    status: 'written' | 'dry-run' | 'skipped' | 'failed';
+    message: string;
+}
+
+async function writeMetadata(dryRun: boolean) {
+    const document = window.activeTextEditor?.document;
+    if (!document || document.languageId !== 'Markdown-Captions') {
+        window.showErrorMessage('Open a caption sheet to write its metadata.');
+        return;
+    }
+    // The server reads the open document, unsaved changes included, so a dry run leaves the file alone
+    if (!dryRun && document.isDirty) {
+        await document.save();
+    }
+
+    const results: EmbedResult[] = await client.sendRequest(ExecuteCommandRequest.type, {
+        command: 'markdown-captions.server.writeMetadata',
+        arguments: [document.uri.toString(), { dryRun }]
+    });
+
+    outputChannel.appendLine(`${dryRun ? 'Dry run for' : 'Writing metadata from'} ${document.uri.fsPath}`);
+    for (const result of results) {
+        outputChannel.appendLine(`  [${result.status}] ${result.file}: ${result.message}`);
+    }
+
+    const count = (status: EmbedResult['status']) =>
+        results.filter(result => result.status === status).length;
+    const summary = dryRun
+        ? `${count('dry-run')} image(s) would be updated, ${count('skipped')} skipped, ${count('failed')} failed.`
+        : `${count('written')} image(s) updated, ${count('skipped')} skipped, ${count('failed')} failed.`;
+    const show = count('failed') > 0 ? window.showWarningMessage : window.showInformationMessage;
+    show(summary, 'Show Details').then(choice => {
+        if (choice) { outputChannel.show(); }
     });
+}
+
+async function sortCaptions() {
+    const document = window.activeTextEditor?.document;
+    if (!document || document.languageId !== 'Markdown-Captions') {
+        window.showErrorMessage('Open a caption sheet to sort its captions.');
+        return;
+    }
+
+    const sorted: boolean = await client.sendRequest(ExecuteCommandRequest.type, {
+        command: 'markdown-captions.server.sortCaptions',
+        arguments: [document.uri.toString()]
+    });
+    if (!sorted) {
+        window.showInformationMessage('The captions are already sorted by VIRIN.');
+    }
+}
+
+interface SheetSkeleton {
+    text: string;
+    files: { file: string, renamed: string, virin: string, source: 'exif' | 'mp4' | 'modified' | 'filename' }[];
+}
+
+async function newSheet() {
+    const folders = await window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        openLabel: 'Caption Images'
+    });
+    if (!folders) { return; }
+    const folder = folders[0];
+
+    // The configured service and unit are offered, and the server falls back to them when left empty
+    const configuration = workspace.getConfiguration('markdownCaptionsLanguageServer.newSheet', folder);
+    const configured = [configuration.get<string>('service'), configuration.get<string>('unit')].filter(Boolean).join('-');
+    const serviceAndUnit = await window.showInputBox({
+        prompt: 'VIRIN service letter and unit ID',
+        placeHolder: 'F-AB123',
+        value: configured
+    });
+    if (serviceAndUnit === undefined) { return; }
+    const [service, ...unit] = serviceAndUnit.trim().split('-');
+
+    const start = await window.showInputBox({
+        prompt: 'First VIRIN sequence number',
+        value: '1',
+        validateInput: value => /^\d{1,4}$/.test(value) && Number(value) > 0 ? undefined : 'Expected a number from 1 to 9999.'
+    });
+    if (!start) { return; }
+
+    const target = await window.showSaveDialog({
+        defaultUri: Uri.file(`${folder.fsPath.replace(/[/\\]$/, '')}.md`),
+        filters: { 'Caption sheet': ['md'] }
+    });
+    if (!target) { return; }
+
+    let skeleton: SheetSkeleton;
+    try {
+        skeleton = await client.sendRequest(ExecuteCommandRequest.type, {
+            command: 'markdown-captions.server.newSheet',
+            arguments: [folder.toString(), target.toString(), { service, unit: unit.join('-'), start: Number(start) }]
+        });
+    } catch (error) {
+        window.showErrorMessage(`Could not create the caption sheet. ${(error as Error).message}`);
+        return;
+    }
+
+    await workspace.fs.writeFile(target, Buffer.from(skeleton.text, 'utf8'));
+    await window.showTextDocument(target);
+
+    const undated = skeleton.files.filter(file => file.source === 'modified');
+    if (undated.length > 0) {
+        outputChannel.appendLine(`Images without a capture time in ${folder.fsPath}, dated from when they were last changed:`);
+        for (const file of undated) {
+            outputChannel.appendLine(`  ${path.basename(file.file)}: ${file.renamed}`);
+        }
+        window.showWarningMessage(`${undated.length} image(s) had no capture time. Check their VIRIN dates.`, 'Show Details').then(choice => {
+            if (choice) { outputChannel.show(); }
+        });
+    }
+}
+
+export function activate(context: ExtensionContext) {
+    context.subscriptions.push(
+        commands.registerCommand('markdown-captions.showPreviewToSide', () => {
+            const document = window.activeTextEditor?.document;
+            if (!document || document.languageId !== 'Markdown-Captions') {
+                window.showErrorMessage('Open a caption sheet to preview its captions.');
+                return;
+            }
+            showCaptionPreview(client, document);
+        }),
+        commands.registerCommand('markdown-captions.writeMetadata', () => writeMetadata(false)),
+        commands.registerCommand('markdown-captions.writeMetadataDryRun', () => writeMetadata(true)),
+        commands.registerCommand('markdown-captions.sortCaptions', sortCaptions),
+        commands.registerCommand('markdown-captions.newSheet', newSheet)
+    );
+    outputChannel = window.createOutputChannel('Markdown Captions');
+    context.subscriptions.push(outputChannel);
 
     // The server is implemented in node
     const serverModule = context.asAbsolutePath(
@@ -36,8 +170,12 @@ export function activate(context: ExtensionContext) {
         // Register the server for plain text documents
         documentSelector: [{ scheme: 'file', language: 'Markdown-Captions' }],
         synchronize: {
-            // Notify the server about file changes to '.clientrc files contained in the workspace
-            fileEvents: workspace.createFileSystemWatcher('**/.clientrc')
+            // Notify the server about caption sheets changed outside the editor, for the VIRIN index,
+            // and about project config files, which change how sheets are checked
+            fileEvents: [
+                workspace.createFileSystemWatcher('**/*.{md,mdc,mdown,markdown,markdn}'),
+                workspace.createFileSystemWatcher('**/markdown-captions.json')
+            ]
         }
     };
 
@@ -0,0 +1,310 @@
+import * as path from 'path';
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    Disposable,
+    Position,
+    Range,
+    Selection,
+    TextDocument,
+    TextEditorRevealType,
+    Uri,
+    ViewColumn,
+    WebviewPanel,
+    languages,
+    window,
+    workspace
+} from 'vscode';
+import { ExecuteCommandRequest, LanguageClient } from 'vscode-languageclient/node';
+
+// What the server's preview command returns, see `buildPreview`
+interface PreviewCaption {
+    range: { start: { line: number }, end: { line: number } };
+    image?: string;
+    kind: 'photo' | 'video';
+    virin?: string;
+    keywords: string[];
+    description?: string;
+    attribution?: string;
+}
+
+interface PreviewSheet {
+    headline?: string;
+    byline?: string;
+    baseKeywords: string[];
+    captions: PreviewCaption[];
+}
+
+// How long typing has to pause before the preview catches up
+const updateDelay = 300;
+
+const severityClasses: { [severity: number]: string } = {
+    [DiagnosticSeverity.Error]: 'error',
+    [DiagnosticSeverity.Warning]: 'warning',
+    [DiagnosticSeverity.Information]: 'information',
+    [DiagnosticSeverity.Hint]: 'hint',
+};
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function nonce(): string {
+    const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    return Array.from({ length: 32 }, () => characters[Math.floor(Math.random() * characters.length)]).join('');
+}
+
+function diagnosticList(diagnostics: Diagnostic[]): string {
+    if (diagnostics.length === 0) { return ''; }
+    const items = diagnostics.map(diagnostic => {
+        const code = diagnostic.code !== undefined ? ` <span class="code">[${escapeHtml(String(diagnostic.code))}]</span>` : '';
+        return `<li class="${severityClasses[diagnostic.severity]}">${escapeHtml(diagnostic.message)}${code}</li>`;
+    });
+    return `<ul class="diagnostics">${items.join('')}</ul>`;
+}
+
+function chips(keywords: string[], className: string): string {
+    return keywords.map(keyword => `<span class="chip ${className}">${escapeHtml(keyword)}</span>`).join('');
+}
+
+const styles = `
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 1em 2em; }
+    header { border-bottom: 1px solid var(--vscode-panel-border); margin-bottom: 1em; }
+    .card { border: 1px solid var(--vscode-panel-border); border-radius: 4px; margin: 1em 0; padding: 0.75em; cursor: pointer; }
+    .card.active { border-color: var(--vscode-focusBorder); }
+    .media img, .media video { max-width: 100%; max-height: 40vh; display: block; }
+    .media .placeholder { display: none; padding: 2em; text-align: center; background: var(--vscode-editorWidget-background); }
+    .media.missing img, .media.missing video { display: none; }
+    .media.missing .placeholder { display: block; }
+    .virin { font-family: var(--vscode-editor-font-family); font-weight: bold; margin: 0.5em 0; }
+    .chip { display: inline-block; border-radius: 1em; padding: 0 0.6em; margin: 0 0.3em 0.3em 0;
+        background: var(--vscode-badge-background); color: var(--vscode-badge-foreground); }
+    .chip.base { background: transparent; color: var(--vscode-foreground); border: 1px dashed var(--vscode-badge-background); }
+    .attribution { font-style: italic; }
+    .diagnostics { list-style: none; padding: 0; margin: 0.5em 0 0; font-size: 0.9em; }
+    .diagnostics li { border-left: 3px solid; padding-left: 0.5em; margin-top: 0.25em; }
+    .diagnostics .error { border-color: var(--vscode-editorError-foreground); }
+    .diagnostics .warning { border-color: var(--vscode-editorWarning-foreground); }
+    .diagnostics .information, .diagnostics .hint { border-color: var(--vscode-editorInfo-foreground); }
+    .diagnostics .code { opacity: 0.7; }
+`;
+
+// Clicks select the caption in the editor, and the editor's cursor marks and scrolls to a card
+const script = `
+    const vscode = acquireVsCodeApi();
+    let activeLine = vscode.getState()?.activeLine;
+
+    function reveal(line, scroll) {
+        activeLine = line;
+        vscode.setState({ activeLine });
+        const cards = [...document.querySelectorAll('.card')];
+        const card = cards.find(card => line >= Number(card.dataset.start) && line <= Number(card.dataset.end));
+        cards.forEach(other => other.classList.toggle('active', other === card));
+        if (card && scroll) { card.scrollIntoView({ block: 'nearest', behavior: 'smooth' }); }
+    }
+
+    document.addEventListener('click', event => {
+        const card = event.target.closest('.card');
+        if (card) { vscode.postMessage({ type: 'select', line: Number(card.dataset.start) }); }
+    });
+    document.addEventListener('error', event => {
+        const media = event.target.closest && event.target.closest('.media');
+        if (media) { media.classList.add('missing'); }
+    }, true);
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message.type === 'render') {
+            document.getElementById('sheet').innerHTML = message.html;
+            if (activeLine !== undefined) { reveal(activeLine, false); }
+        } else if (message.type === 'reveal') {
+            reveal(message.line, true);
+        }
+    });
+    if (activeLine !== undefined) { reveal(activeLine, false); }
+`;
+
+/**
+ * A webview showing each caption of a sheet as a card with its image, VIRIN,
+ * keywords, description and current problems. It follows the cursor in the
+ * editor, and clicking a card moves the cursor to that caption.
+ */
+class CaptionPreview implements Disposable {
+    private readonly disposables: Disposable[] = [];
+    private preview?: PreviewSheet;
+    private roots: string[] = [];
+    private pendingUpdate?: NodeJS.Timeout;
+
+    constructor(
+        private readonly client: LanguageClient,
+        private readonly document: TextDocument,
+        readonly panel: WebviewPanel,
+        private readonly onDispose: () => void,
+    ) {
+        const uri = document.uri.toString();
+        this.disposables.push(
+            panel.onDidDispose(() => this.dispose()),
+            panel.webview.onDidReceiveMessage(message => {
+                if (message.type === 'select') { this.select(message.line); }
+            }),
+            workspace.onDidChangeTextDocument(event => {
+                if (event.document.uri.toString() === uri) { this.scheduleUpdate(); }
+            }),
+            languages.onDidChangeDiagnostics(event => {
+                if (this.preview && event.uris.some(changed => changed.toString() === uri)) { this.render(); }
+            }),
+            window.onDidChangeTextEditorSelection(event => {
+                if (event.textEditor.document.uri.toString() !== uri) { return; }
+                panel.webview.postMessage({ type: 'reveal', line: event.selections[0].active.line });
+            })
+        );
+        this.update();
+    }
+
+    reveal(column: ViewColumn) {
+        this.panel.reveal(column, true);
+    }
+
+    private scheduleUpdate() {
+        if (this.pendingUpdate) { clearTimeout(this.pendingUpdate); }
+        this.pendingUpdate = setTimeout(() => this.update(), updateDelay);
+    }
+
+    private async update() {
+        this.pendingUpdate = undefined;
+        try {
+            this.preview = await this.client.sendRequest(ExecuteCommandRequest.type, {
+                command: 'markdown-captions.server.preview',
+                arguments: [this.document.uri.toString()]
+            });
+        } catch (error) {
+            window.showErrorMessage(`Could not preview the captions. ${(error as Error).message}`);
+            return;
+        }
+        this.render();
+    }
+
+    // The webview may only load files under its roots, so they grow to take in every image folder
+    private localResourceRoots(preview: PreviewSheet): string[] {
+        const folders = [
+            ...(workspace.workspaceFolders || []).map(folder => folder.uri.fsPath),
+            path.dirname(this.document.uri.fsPath),
+        ];
+        for (const caption of preview.captions) {
+            if (!caption.image || !path.isAbsolute(caption.image)) { continue; }
+            const folder = path.dirname(caption.image);
+            if (!folders.some(root => !path.relative(root, folder).startsWith('..'))) {
+                folders.push(folder);
+            }
+        }
+        return folders;
+    }
+
+    private render() {
+        const preview = this.preview!;
+        const html = this.sheetHtml(preview);
+        const roots = this.localResourceRoots(preview);
+        if (roots.join('\n') === this.roots.join('\n')) {
+            this.panel.webview.postMessage({ type: 'render', html });
+            return;
+        }
+
+        // Changing the roots reloads the webview, so it gets a whole new page
+        this.roots = roots;
+        this.panel.webview.options = { enableScripts: true, localResourceRoots: roots.map(root => Uri.file(root)) };
+        const scriptNonce = nonce();
+        this.panel.webview.html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src ${this.panel.webview.cspSource}; media-src ${this.panel.webview.cspSource}; style-src 'nonce-${scriptNonce}'; script-src 'nonce-${scriptNonce}';">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <style nonce="${scriptNonce}">${styles}</style>
+</head>
+<body>
+    <div id="sheet">${html}</div>
+    <script nonce="${scriptNonce}">${script}</script>
+</body>
+</html>`;
+    }
+
+    private sheetHtml(preview: PreviewSheet): string {
+        const diagnostics = languages.getDiagnostics(this.document.uri);
+        const firstCaptionLine = preview.captions[0]?.range.start.line ?? Infinity;
+
+        const header = [
+            preview.headline ? `<h1>${escapeHtml(preview.headline)}</h1>` : '',
+            preview.byline ? `<p>By ${escapeHtml(preview.byline)}</p>` : '',
+            `<p>${chips(preview.baseKeywords, 'base')}</p>`,
+            diagnosticList(diagnostics.filter(diagnostic => diagnostic.range.start.line < firstCaptionLine)),
+        ].join('');
+
+        const cards = preview.captions.map(caption => {
+            const start = caption.range.start.line;
+            const end = caption.range.end.line;
+            const source = caption.image && path.isAbsolute(caption.image)
+                ? this.panel.webview.asWebviewUri(Uri.file(caption.image)).toString()
+                : undefined;
+            // Starting a video a moment in shows its first frame as the poster
+            const media = !source ? '' : caption.kind === 'video'
+                ? `<video src="${escapeHtml(source)}#t=0.1" preload="metadata" controls></video>`
+                : `<img src="${escapeHtml(source)}" alt="${escapeHtml(caption.virin || '')}">`;
+            const missing = `<div class="placeholder">${escapeHtml(caption.image ? `${path.basename(caption.image)} not found` : 'No image')}</div>`;
+            const cardDiagnostics = diagnostics.filter(diagnostic =>
+                diagnostic.range.start.line >= start && diagnostic.range.start.line <= end);
+
+            return `<section class="card" data-start="${start}" data-end="${end}">
+                <div class="media${source ? '' : ' missing'}">${media}${missing}</div>
+                <div class="virin">${escapeHtml(caption.virin || 'No VIRIN')}</div>
+                <div>${chips(preview.baseKeywords, 'base')}${chips(caption.keywords, 'image')}</div>
+                <p>${escapeHtml(caption.description || '')}
+                    ${caption.attribution ? `<span class="attribution">(${escapeHtml(caption.attribution)})</span>` : ''}</p>
+                ${diagnosticList(cardDiagnostics)}
+            </section>`;
+        });
+        return header + cards.join('');
+    }
+
+    private async select(line: number) {
+        const uri = this.document.uri.toString();
+        const editor = window.visibleTextEditors.find(visible => visible.document.uri.toString() === uri) ||
+            await window.showTextDocument(this.document, ViewColumn.One);
+        const position = new Position(line, 0);
+        editor.selection = new Selection(position, position);
+        editor.revealRange(new Range(position, position), TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    dispose() {
+        if (this.pendingUpdate) { clearTimeout(this.pendingUpdate); }
+        this.onDispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.panel.dispose();
+    }
+}
+
+// The open previews, by the URI of their sheet
+const previews: Map<string, CaptionPreview> = new Map();
+
+/**
+ * Shows the caption preview of a sheet beside the editor, reusing the one
+ * already open for it.
+ */
+export function showCaptionPreview(client: LanguageClient, document: TextDocument) {
+    const uri = document.uri.toString();
+    const existing = previews.get(uri);
+    if (existing) {
+        existing.reveal(ViewColumn.Beside);
+        return;
+    }
+
+    const panel = window.createWebviewPanel(
+        'markdownCaptions.preview',
+        `Preview ${path.basename(document.uri.fsPath)}`,
+        { viewColumn: ViewColumn.Beside, preserveFocus: true },
+        { enableScripts: true, retainContextWhenHidden: true }
+    );
+    previews.set(uri, new CaptionPreview(client, document, panel, () => previews.delete(uri)));
+}
@@ -0,0 +1,37 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should offer code actions', () => {
+    const docUri = getDocUri('diagnostics.md');
+
+    test('Offers the fix of a diagnostic as a preferred quick fix', async () => {
+        const actions = await codeActions(docUri, new vscode.Range(6, 19, 6, 19));
+
+        const fix = actions.find(action => action.title === 'Add a trailing backslash')!;
+        assert.ok(fix);
+        assert.equal(fix.kind?.value, vscode.CodeActionKind.QuickFix.value);
+        assert.ok(fix.isPreferred);
+        assert.deepEqual(fix.edit!.get(docUri).map(edit => edit.newText), ['\\']);
+    });
+
+    test('Fixes every safe problem of the sheet at once', async () => {
+        const actions = await codeActions(docUri, new vscode.Range(0, 0, 0, 0), 'source.fixAll.markdownCaptions');
+
+        assert.equal(actions.length, 1);
+        const lines = actions[0].edit!.get(docUri).map(edit => edit.range.start.line);
+        assert.ok(lines.includes(6));
+        assert.ok(lines.includes(12));
+    });
+});
+
+async function codeActions(docUri: vscode.Uri, range: vscode.Range, kind?: string): Promise<vscode.CodeAction[]> {
+    await activate(docUri);
+
+    return (await vscode.commands.executeCommand(
+        'vscode.executeCodeActionProvider',
+        docUri,
+        range,
+        kind
+    )) as vscode.CodeAction[];
+}
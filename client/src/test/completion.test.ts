@@ -3,13 +3,22 @@ import * as assert from 'assert';
 import { getDocUri, activate } from './helper';
 
 suite('Should do completion', () => {
-    const docUri = getDocUri('completion.txt');
+    const docUri = getDocUri('completion.md');
 
-    test('Completes JS/TS in txt file', async () => {
-        await testCompletion(docUri, new vscode.Position(0, 0), {
+    test('Completes keywords used elsewhere in the sheet', async () => {
+        await testCompletion(docUri, new vscode.Position(10, 10), {
             items: [
-                { label: 'JavaScript', kind: vscode.CompletionItemKind.Text },
-                { label: 'TypeScript', kind: vscode.CompletionItemKind.Text }
+                { label: 'Exercise', kind: vscode.CompletionItemKind.Text },
+                { label: 'Ramstein', kind: vscode.CompletionItemKind.Text }
+            ]
+        });
+    });
+
+    test('Completes the VIRIN on a title line', async () => {
+        await testCompletion(docUri, new vscode.Position(11, 0), {
+            items: [
+                { label: '240312-F-AB123-0005', kind: vscode.CompletionItemKind.Value },
+                { label: '240312-F-AB123-0002', kind: vscode.CompletionItemKind.Value }
             ]
         });
     });
@@ -29,7 +38,7 @@ async function testCompletion(
         position
     )) as vscode.CompletionList;
 
-    assert.ok(actualCompletionList.items.length >= 2);
+    assert.ok(actualCompletionList.items.length >= expectedCompletionList.items.length);
     expectedCompletionList.items.forEach((expectedItem, i) => {
         const actualItem = actualCompletionList.items[i];
         assert.equal(actualItem.label, expectedItem.label);
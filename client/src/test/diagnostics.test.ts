@@ -3,13 +3,20 @@ import * as assert from 'assert';
 import { getDocUri, activate } from './helper';
 
 suite('Should get diagnostics', () => {
-    const docUri = getDocUri('diagnostics.txt');
+    const docUri = getDocUri('diagnostics.md');
 
-    test('Diagnoses uppercase texts', async () => {
+    test('Places caption diagnostics on the field they are about', async () => {
         await testDiagnostics(docUri, [
-            { message: 'ANY is all uppercase.', range: toRange(0, 0, 0, 3), severity: vscode.DiagnosticSeverity.Warning, source: 'ex' },
-            { message: 'ANY is all uppercase.', range: toRange(0, 14, 0, 17), severity: vscode.DiagnosticSeverity.Warning, source: 'ex' },
-            { message: 'OS is all uppercase.', range: toRange(0, 18, 0, 20), severity: vscode.DiagnosticSeverity.Warning, source: 'ex' }
+            { message: 'The title should end in a backslash for pandoc and markdown preview to render propper spacing.', range: toRange(6, 19, 6, 19), severity: vscode.DiagnosticSeverity.Warning, code: 'title-backslash' },
+            { message: 'The description should end in a backslash for pandoc to render propper spacing.', range: toRange(12, 82, 13, 0), severity: vscode.DiagnosticSeverity.Warning, code: 'description-backslash' },
+            { message: 'The caption is missing attribution. Expected ending resembling (Photo by John Smith).', range: toRange(12, 67, 12, 82), severity: vscode.DiagnosticSeverity.Warning, code: 'attribution-missing' }
+        ]);
+    });
+
+    test('Reports images that are missing from disk', async () => {
+        await testDiagnostics(docUri, [
+            { message: 'Image file "photos/240312-F-AB123-0001.jpg" does not exist.', range: toRange(4, 5, 4, 35), severity: vscode.DiagnosticSeverity.Error, code: 'image-missing' },
+            { message: 'Image file "photos/240312-F-AB123-0002.jpg" does not exist.', range: toRange(9, 5, 9, 35), severity: vscode.DiagnosticSeverity.Error, code: 'image-missing' }
         ]);
     });
 });
@@ -20,10 +27,13 @@ function toRange(sLine: number, sChar: number, eLine: number, eChar: number) {
     return new vscode.Range(start, end);
 }
 
+// Only the expected rules are compared, as the fixture's images don't exist
 async function testDiagnostics(docUri: vscode.Uri, expectedDiagnostics: vscode.Diagnostic[]) {
     await activate(docUri);
 
-    const actualDiagnostics = vscode.languages.getDiagnostics(docUri);
+    const codes = expectedDiagnostics.map(diagnostic => diagnostic.code);
+    const actualDiagnostics = vscode.languages.getDiagnostics(docUri)
+        .filter(diagnostic => codes.includes(diagnostic.code));
 
     assert.equal(actualDiagnostics.length, expectedDiagnostics.length);
 
@@ -0,0 +1,24 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should format caption sheets', () => {
+    const docUri = getDocUri('formatting.md');
+
+    test('Normalizes the layout of a sheet', async () => {
+        await activate(docUri);
+
+        const edits = (await vscode.commands.executeCommand(
+            'vscode.executeFormatDocumentProvider',
+            docUri,
+            { tabSize: 4, insertSpaces: true }
+        )) as vscode.TextEdit[];
+
+        const replaced = (line: number) => edits.find(edit => edit.range.start.line === line && edit.newText !== '\n')?.newText;
+        assert.equal(replaced(0), 'Airmen train at Ramstein\\');
+        assert.equal(replaced(2), 'Keywords: Air Force; Training;');
+        assert.equal(replaced(3), '![](<photos/240312-F-AB123-0001.jpg>)');
+        assert.equal(replaced(5), '240312-F-AB123-0001\\');
+        assert.ok(edits.some(edit => edit.range.start.line === 3 && edit.newText === '\n'));
+    });
+});
@@ -7,11 +7,11 @@ export let documentEol: string;
 export let platformEol: string;
 
 /**
- * Activates the vscode.lsp-sample extension
+ * Activates the markdown-captions extension
  */
 export async function activate(docUri: vscode.Uri) {
-    // The extensionId is `publisher.name` from package.json
-    const ext = vscode.extensions.getExtension('vscode-samples.lsp-sample')!;
+    // The extension has no publisher, so it is found by its name from package.json
+    const ext = vscode.extensions.all.find(extension => extension.packageJSON.name === 'markdown-captions')!;
     await ext.activate();
     try {
         doc = await vscode.workspace.openTextDocument(docUri);
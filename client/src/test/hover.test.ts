@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should show hovers', () => {
+    const docUri = getDocUri('completion.md');
+
+    test('Decodes the VIRIN in a title', async () => {
+        const hovers = await hover(docUri, new vscode.Position(6, 3));
+
+        assert.equal(hovers.length, 1);
+        assert.deepEqual(hovers[0].range, new vscode.Range(6, 0, 6, 19));
+        const contents = hovers[0].contents.map(content => (content as vscode.MarkdownString).value).join('\n');
+        assert.ok(contents.includes('- Service: F (Air Force)'));
+    });
+
+    test('Counts the base keywords against the limit', async () => {
+        const hovers = await hover(docUri, new vscode.Position(2, 12));
+
+        assert.equal(hovers.length, 1);
+        const contents = hovers[0].contents.map(content => (content as vscode.MarkdownString).value).join('\n');
+        assert.ok(contents.startsWith('**Base keywords** 2 of 6'));
+    });
+});
+
+async function hover(docUri: vscode.Uri, position: vscode.Position): Promise<vscode.Hover[]> {
+    await activate(docUri);
+
+    return (await vscode.commands.executeCommand(
+        'vscode.executeHoverProvider',
+        docUri,
+        position
+    )) as vscode.Hover[];
+}
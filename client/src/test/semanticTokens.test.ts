@@ -0,0 +1,25 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should highlight caption structure', () => {
+    const docUri = getDocUri('completion.md');
+
+    test('Marks the headline and the parts of each VIRIN', async () => {
+        await activate(docUri);
+
+        const legend = (await vscode.commands.executeCommand(
+            'vscode.provideDocumentSemanticTokensLegend',
+            docUri
+        )) as vscode.SemanticTokensLegend;
+        const tokens = (await vscode.commands.executeCommand(
+            'vscode.provideDocumentSemanticTokens',
+            docUri
+        )) as vscode.SemanticTokens;
+
+        // The first token is the headline, on the first line
+        assert.deepEqual([...tokens.data.slice(0, 3)], [0, 0, 24]);
+        assert.equal(legend.tokenTypes[tokens.data[3]], 'headline');
+        assert.ok(legend.tokenTypes.includes('virinSequence'));
+    });
+});
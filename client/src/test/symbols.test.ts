@@ -0,0 +1,35 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { getDocUri, activate } from './helper';
+
+suite('Should outline caption sheets', () => {
+    const docUri = getDocUri('completion.md');
+
+    test('Nests the byline and captions under the headline', async () => {
+        await activate(docUri);
+
+        const symbols = (await vscode.commands.executeCommand(
+            'vscode.executeDocumentSymbolProvider',
+            docUri
+        )) as vscode.DocumentSymbol[];
+
+        assert.equal(symbols.length, 1);
+        assert.equal(symbols[0].name, 'Airmen train at Ramstein');
+        assert.deepEqual(symbols[0].children.map(symbol => symbol.name), [
+            'By Staff Sgt. Jane Doe',
+            '240312-F-AB123-0001',
+            '240312-F-AB123-0005'
+        ]);
+    });
+
+    test('Finds captions across the workspace by VIRIN', async () => {
+        await activate(docUri);
+
+        const symbols = (await vscode.commands.executeCommand(
+            'vscode.executeWorkspaceSymbolProvider',
+            'ab123-0001'
+        )) as vscode.SymbolInformation[];
+
+        assert.ok(symbols.some(symbol => symbol.name === '240312-F-AB123-0001'));
+    });
+});
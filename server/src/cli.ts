@@ -0,0 +1,470 @@
+#!/usr/bin/env node
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkCaptionSheet } from './validation';
+import { validateImageFiles } from './imageFiles';
+import { validateEmbeddedMetadata } from './drift';
+import { VirinIndex, validateDuplicateVirins } from './virinIndex';
+import { parseCaptionSheet } from './parser';
+import { defaultSequenceOptions, validateCaptionSequence } from './sequence';
+import { RuleSetting, RuleSettings, applyRuleSettings, ruleIds } from './rules';
+import { applySuppressions } from './suppressions';
+import { SchemaError, loadSchema, schemaFileName } from './schema';
+import { StyleEntry, bundledStyleEntries, mergeStyleEntries, readStyleDictionary } from './dictionaries';
+import { EmbedOptions, embedSheetMetadata } from './embed';
+import { SheetSkeleton, SkeletonError, SkeletonOptions, createSheetSkeleton, defaultSkeletonOptions, renameSkeletonFiles } from './skeleton';
+
+const usage = `Usage: markdown-captions <command> [options] <file|glob>...
+       markdown-captions new-sheet [options] <folder>
+
+Commands:
+  lint                Check caption sheets and print their problems
+  write-metadata      Write each caption's metadata into the image it references
+  new-sheet           Start a caption sheet for the images in a folder, naming
+                      them after their VIRINs
+
+Lint options:
+  --format <text|json|sarif>  Output format (default: text)
+  --max-problems <n>          Stop checking a file after n problems (default: 1000)
+  --rule <id>=<setting>       Turn a rule off or change its severity to error,
+                              warning, information or hint (repeatable)
+  --dictionary <file>         Check descriptions against a YAML or JSON style
+                              dictionary too (repeatable)
+
+Write metadata options:
+  --dry-run                   Report what would be written without changing any image
+  --no-backup                 Don't copy images to "<image>.bak" before changing them
+
+New sheet options:
+  --service <letter>          VIRIN service letter (required)
+  --unit <id>                 Unit or photographer ID for the VIRINs (required)
+  --start <n>                 First sequence number (default: 1)
+  --headline <text>           Headline of the sheet
+  --byline <name>             Photographer for the byline and attributions
+  --keyword <keyword>         Add a base keyword (repeatable)
+  --output <file>             Write the sheet to a file instead of printing it
+
+  -h, --help                  Show this message
+
+Each sheet is checked against the nearest ${schemaFileName} at or above its
+folder, if there is one.
+
+Exits with 1 when any error is found or when new-sheet can't start a sheet,
+and 2 when the arguments or a ${schemaFileName} are invalid.`;
+
+class UsageError extends Error {}
+
+interface FileReport {
+    file: string;
+    diagnostics: Diagnostic[];
+}
+
+interface LintOptions {
+    format: 'text' | 'json' | 'sarif';
+    maxNumberOfProblems: number;
+    rules: RuleSettings;
+    dictionaries: string[];
+    patterns: string[];
+}
+
+const ruleSettings: RuleSetting[] = ['off', 'error', 'warning', 'information', 'hint'];
+
+function parseLintArguments(args: string[]): LintOptions {
+    const options: LintOptions = { format: 'text', maxNumberOfProblems: 1000, rules: {}, dictionaries: [], patterns: [] };
+
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--format') {
+            const format = args[++i];
+            if (format !== 'text' && format !== 'json' && format !== 'sarif') {
+                throw new UsageError(`Unknown format "${format}". Expected text, json or sarif.`);
+            }
+            options.format = format;
+        } else if (arg === '--max-problems') {
+            const value = Number(args[++i]);
+            if (!Number.isInteger(value) || value < 1) {
+                throw new UsageError(`Expected a positive number after --max-problems, found "${args[i]}".`);
+            }
+            options.maxNumberOfProblems = value;
+        } else if (arg === '--rule') {
+            const [ruleId, setting] = (args[++i] || '').split('=');
+            if (!ruleIds.includes(ruleId)) {
+                throw new UsageError(`Unknown rule "${ruleId}". Expected one of ${ruleIds.join(', ')}.`);
+            }
+            if (!ruleSettings.includes(setting as RuleSetting)) {
+                throw new UsageError(`Unknown setting "${setting}" for rule "${ruleId}". Expected ${ruleSettings.join(', ')}.`);
+            }
+            options.rules[ruleId] = setting as RuleSetting;
+        } else if (arg === '--dictionary') {
+            const file = args[++i];
+            if (!file || !fs.existsSync(file)) {
+                throw new UsageError(`Expected a style dictionary after --dictionary, found "${file || ''}".`);
+            }
+            options.dictionaries.push(file);
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option "${arg}".`);
+        } else {
+            options.patterns.push(arg);
+        }
+    }
+
+    if (options.patterns.length === 0) {
+        throw new UsageError('Expected at least one file or glob.');
+    }
+    return options;
+}
+
+function globToRegExp(pattern: string): RegExp {
+    let source = '';
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === '*' && pattern[i + 1] === '*') {
+            // "**/" matches any number of directories, including none
+            source += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+            i += pattern[i + 2] === '/' ? 2 : 1;
+        } else if (char === '*') {
+            source += '[^/]*';
+        } else if (char === '?') {
+            source += '[^/]';
+        } else {
+            source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+function walk(directory: string): string[] {
+    const files: string[] = [];
+    for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        if (entry.name === 'node_modules' || entry.name.startsWith('.')) { continue; }
+
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...walk(entryPath));
+        } else if (entry.isFile()) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * Expands a file path or glob into the files it names. Globs support `*`, `?`
+ * and `**` and are matched relative to the current directory.
+ */
+export function expandGlob(pattern: string): string[] {
+    const normalized = pattern.split(path.sep).join('/');
+    if (!/[*?]/.test(normalized)) {
+        return fs.existsSync(pattern) ? [pattern] : [];
+    }
+
+    const segments = normalized.split('/');
+    const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+    const root = segments.slice(0, firstWildcard).join('/') || '.';
+    if (!fs.existsSync(root)) { return []; }
+
+    const matcher = globToRegExp(normalized);
+    return walk(root)
+        .map(file => file.split(path.sep).join('/'))
+        .filter(file => matcher.test(file) || matcher.test(`./${file}`))
+        .sort();
+}
+
+function readTextDocument(file: string): TextDocument {
+    const uri = pathToFileURL(path.resolve(file)).toString();
+    return TextDocument.create(uri, 'Markdown-Captions', 0, fs.readFileSync(file, 'utf8'));
+}
+
+async function lintFile(
+    file: string,
+    textDocument: TextDocument,
+    virinIndex: VirinIndex,
+    style: StyleEntry[],
+    options: LintOptions
+): Promise<FileReport> {
+    // Everything is checked so rules that are turned off don't use up the problem limit
+    const schema = loadSchema(path.resolve(file));
+    const { sheet, captions, diagnostics } = checkCaptionSheet(textDocument, Infinity, schema, style);
+    validateDuplicateVirins(textDocument.uri, sheet, virinIndex, diagnostics, Infinity, false);
+    validateCaptionSequence(sheet, defaultSequenceOptions, diagnostics, Infinity, schema);
+    await validateImageFiles(sheet, path.resolve(file), diagnostics, Infinity, schema);
+    await validateEmbeddedMetadata(textDocument.uri, sheet, captions, path.resolve(file), diagnostics, Infinity);
+    const unsuppressed = applySuppressions(sheet, diagnostics);
+    return { file, diagnostics: applyRuleSettings(unsuppressed, options.rules, options.maxNumberOfProblems) };
+}
+
+function severityName(severity: DiagnosticSeverity | undefined): string {
+    switch (severity) {
+        case DiagnosticSeverity.Warning: return 'warning';
+        case DiagnosticSeverity.Information: return 'info';
+        case DiagnosticSeverity.Hint: return 'hint';
+        default: return 'error';
+    }
+}
+
+function formatText(reports: FileReport[]): string {
+    const lines: string[] = [];
+    let errors = 0;
+    let warnings = 0;
+    for (const report of reports) {
+        for (const diagnostic of report.diagnostics) {
+            const { line, character } = diagnostic.range.start;
+            const severity = severityName(diagnostic.severity);
+            const message = diagnostic.message.replace(/\n/g, ' ');
+            const rule = diagnostic.code !== undefined ? ` [${diagnostic.code}]` : '';
+            lines.push(`${report.file}:${line + 1}:${character + 1}: ${severity}: ${message}${rule}`);
+            if (severity === 'error') { errors++; }
+            if (severity === 'warning') { warnings++; }
+        }
+    }
+    lines.push(`${reports.length} file${reports.length === 1 ? '' : 's'} checked, ${errors} error${errors === 1 ? '' : 's'}, ${warnings} warning${warnings === 1 ? '' : 's'}.`);
+    return lines.join('\n');
+}
+
+function formatJson(reports: FileReport[]): string {
+    return JSON.stringify(reports.map(report => ({
+        file: report.file,
+        diagnostics: report.diagnostics.map(diagnostic => ({
+            severity: severityName(diagnostic.severity),
+            line: diagnostic.range.start.line + 1,
+            column: diagnostic.range.start.character + 1,
+            endLine: diagnostic.range.end.line + 1,
+            endColumn: diagnostic.range.end.character + 1,
+            code: diagnostic.code,
+            message: diagnostic.message,
+        })),
+    })), null, 2);
+}
+
+function formatSarif(reports: FileReport[]): string {
+    const sarifLevel = (severity: DiagnosticSeverity | undefined): string => {
+        switch (severity) {
+            case DiagnosticSeverity.Warning: return 'warning';
+            case DiagnosticSeverity.Information:
+            case DiagnosticSeverity.Hint: return 'note';
+            default: return 'error';
+        }
+    };
+
+    return JSON.stringify({
+        $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+        version: '2.1.0',
+        runs: [{
+            tool: {
+                driver: {
+                    name: 'markdown-captions',
+                    informationUri: 'https://github.com/Neighborkid01/markdown-captions',
+                },
+            },
+            results: reports.flatMap(report => report.diagnostics.map(diagnostic => ({
+                ...(diagnostic.code !== undefined ? { ruleId: String(diagnostic.code) } : {}),
+                level: sarifLevel(diagnostic.severity),
+                message: { text: diagnostic.message },
+                locations: [{
+                    physicalLocation: {
+                        artifactLocation: { uri: report.file.split(path.sep).join('/') },
+                        region: {
+                            startLine: diagnostic.range.start.line + 1,
+                            startColumn: diagnostic.range.start.character + 1,
+                            endLine: diagnostic.range.end.line + 1,
+                            endColumn: diagnostic.range.end.character + 1,
+                        },
+                    },
+                }],
+            }))),
+        }],
+    }, null, 2);
+}
+
+function expandPatterns(patterns: string[]): string[] {
+    const files: string[] = [];
+    for (const pattern of patterns) {
+        const matches = expandGlob(pattern);
+        if (matches.length === 0) {
+            throw new UsageError(`No files matched "${pattern}".`);
+        }
+        files.push(...matches.filter(file => !files.includes(file)));
+    }
+    return files;
+}
+
+async function lint(args: string[]): Promise<number> {
+    const options = parseLintArguments(args);
+    const files = expandPatterns(options.patterns);
+
+    const textDocuments = files.map(readTextDocument);
+
+    // Duplicate VIRINs are looked for across every sheet being checked
+    const virinIndex = new VirinIndex();
+    for (const textDocument of textDocuments) {
+        virinIndex.update(textDocument.uri, parseCaptionSheet(textDocument.getText()));
+    }
+
+    // Broken dictionary entries are reported like problems in a sheet
+    const reports: FileReport[] = [];
+    const dictionaries = options.dictionaries.map(readStyleDictionary);
+    for (const dictionary of dictionaries.filter(dictionary => dictionary.problems.length > 0)) {
+        reports.push({ file: dictionary.file, diagnostics: dictionary.problems });
+    }
+    const style = mergeStyleEntries(bundledStyleEntries(), ...dictionaries.map(dictionary => dictionary.entries));
+
+    for (const [i, file] of files.entries()) {
+        reports.push(await lintFile(file, textDocuments[i], virinIndex, style, options));
+    }
+    switch (options.format) {
+        case 'json': console.log(formatJson(reports)); break;
+        case 'sarif': console.log(formatSarif(reports)); break;
+        default: console.log(formatText(reports));
+    }
+
+    const hasErrors = reports.some(report =>
+        report.diagnostics.some(diagnostic => severityName(diagnostic.severity) === 'error'));
+    return hasErrors ? 1 : 0;
+}
+
+async function writeMetadata(args: string[]): Promise<number> {
+    const options: EmbedOptions = { dryRun: false, backup: true };
+    const patterns: string[] = [];
+    for (const arg of args) {
+        if (arg === '--dry-run') {
+            options.dryRun = true;
+        } else if (arg === '--no-backup') {
+            options.backup = false;
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option "${arg}".`);
+        } else {
+            patterns.push(arg);
+        }
+    }
+    if (patterns.length === 0) {
+        throw new UsageError('Expected at least one caption sheet.');
+    }
+
+    let failed = false;
+    for (const file of expandPatterns(patterns)) {
+        const textDocument = readTextDocument(file);
+        console.log(file);
+        const schema = loadSchema(path.resolve(file));
+        for (const result of await embedSheetMetadata(textDocument, path.resolve(file), options, schema)) {
+            console.log(`  [${result.status}] ${path.relative(process.cwd(), result.file)}: ${result.message}`);
+            failed = failed || result.status === 'failed';
+        }
+    }
+    return failed ? 1 : 0;
+}
+
+async function newSheet(args: string[]): Promise<number> {
+    const options: SkeletonOptions = { ...defaultSkeletonOptions, keywords: [] };
+    const folders: string[] = [];
+    let output: string | undefined;
+    const value = (i: number) => {
+        if (!args[i] || args[i].startsWith('--')) {
+            throw new UsageError(`Expected a value after ${args[i - 1]}.`);
+        }
+        return args[i];
+    };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--service') {
+            options.service = value(++i);
+        } else if (arg === '--unit') {
+            options.unit = value(++i);
+        } else if (arg === '--start') {
+            options.start = Number(value(++i));
+        } else if (arg === '--headline') {
+            options.headline = value(++i);
+        } else if (arg === '--byline') {
+            options.byline = value(++i).replace(/^By\s+/, '');
+        } else if (arg === '--keyword') {
+            options.keywords.push(value(++i).replace(/;$/, ''));
+        } else if (arg === '--output') {
+            output = value(++i);
+        } else if (arg.startsWith('-')) {
+            throw new UsageError(`Unknown option "${arg}".`);
+        } else {
+            folders.push(arg);
+        }
+    }
+    if (folders.length !== 1 || !fs.statSync(folders[0], { throwIfNoEntry: false })?.isDirectory()) {
+        throw new UsageError('Expected one folder of images.');
+    }
+    if (!options.service || !options.unit) {
+        throw new UsageError('Expected --service and --unit for the VIRINs.');
+    }
+    if (output && fs.existsSync(output)) {
+        console.error(`${output} already exists.`);
+        return 1;
+    }
+
+    // Image paths are relative to where the sheet goes, the current folder when it's printed
+    const sheetPath = path.resolve(output || 'captions.md');
+    let skeleton: SheetSkeleton;
+    try {
+        skeleton = await createSheetSkeleton(path.resolve(folders[0]), sheetPath, options, loadSchema(sheetPath));
+    } catch (error) {
+        if (!(error instanceof SkeletonError)) { throw error; }
+        console.error(error.message);
+        return 1;
+    }
+
+    for (const file of skeleton.files.filter(file => file.source === 'modified')) {
+        console.error(`${path.relative(process.cwd(), file.file)}: no capture time, dated ${file.virin} from when it was last changed.`);
+    }
+    const renamed = await renameSkeletonFiles(skeleton);
+    if (renamed.length > 0) {
+        console.error(`Named ${renamed.length} image${renamed.length === 1 ? '' : 's'} after ${renamed.length === 1 ? 'its VIRIN' : 'their VIRINs'}.`);
+    }
+    if (output) {
+        fs.writeFileSync(output, skeleton.text);
+        console.log(`Wrote ${skeleton.files.length} caption${skeleton.files.length === 1 ? '' : 's'} to ${output}.`);
+    } else {
+        process.stdout.write(skeleton.text);
+    }
+    return 0;
+}
+
+const commands: { [name: string]: (args: string[]) => number | Promise<number> } = {
+    lint,
+    'write-metadata': writeMetadata,
+    'new-sheet': newSheet,
+};
+
+async function main(argv: string[]): Promise<number> {
+    const [commandName, ...args] = argv;
+    if (!commandName || commandName === '-h' || commandName === '--help' || args.includes('-h') || args.includes('--help')) {
+        console.log(usage);
+        return 0;
+    }
+
+    const command = commands[commandName];
+    try {
+        if (!command) {
+            throw new UsageError(`Unknown command "${commandName}".`);
+        }
+        return await command(args);
+    } catch (error) {
+        if (error instanceof UsageError) {
+            console.error(`${error.message}\n\n${usage}`);
+            return 2;
+        }
+        if (error instanceof SchemaError) {
+            console.error(error.message);
+            return 2;
+        }
+        throw error;
+    }
+}
+
+if (require.main === module) {
+    main(process.argv.slice(2)).then(code => {
+        process.exitCode = code;
+    }, error => {
+        // Unexpected failures, like a file that can't be read, still get a message rather than a stack trace
+        console.error((error as Error).message || error);
+        process.exitCode = 2;
+    });
+}
@@ -0,0 +1,93 @@
+import {
+    CodeAction,
+    CodeActionKind,
+    CodeActionParams,
+    Diagnostic,
+    Position,
+    TextEdit
+} from 'vscode-languageserver';
+import { CaptionDiagnosticData, CaptionFix } from './validation';
+
+// Lets "editor.codeActionsOnSave" ask for our fixes specifically
+export const fixAllKind = `${CodeActionKind.SourceFixAll}.markdownCaptions`;
+
+function fixesOf(diagnostic: Diagnostic): CaptionFix[] {
+    const data = diagnostic.data as CaptionDiagnosticData | undefined;
+    return data?.fixes || [];
+}
+
+function comparePositions(a: Position, b: Position): number {
+    return a.line - b.line || a.character - b.character;
+}
+
+// The edits of a workspace edit must not overlap, so keep the first of any that do
+function nonOverlapping(edits: TextEdit[]): TextEdit[] {
+    const sorted = [...edits].sort((a, b) =>
+        comparePositions(a.range.start, b.range.start) || comparePositions(a.range.end, b.range.end));
+    const result: TextEdit[] = [];
+    for (const edit of sorted) {
+        const previous = result[result.length - 1];
+        if (previous && comparePositions(edit.range.start, previous.range.end) < 0) { continue; }
+        if (previous && comparePositions(edit.range.start, previous.range.start) === 0 &&
+            edit.newText === previous.newText) { continue; }
+        result.push(edit);
+    }
+    return result;
+}
+
+function fixAllAction(uri: string, diagnostics: Diagnostic[], kind: string): CodeAction | undefined {
+    const fixed = diagnostics.filter(diagnostic => fixesOf(diagnostic).some(fix => fix.safe));
+    const edits = fixed.flatMap(diagnostic => fixesOf(diagnostic).find(fix => fix.safe)!.edits);
+    if (edits.length === 0) { return; }
+
+    return {
+        title: 'Fix all safe caption problems',
+        kind,
+        diagnostics: fixed,
+        edit: { changes: { [uri]: nonOverlapping(edits) } }
+    };
+}
+
+/**
+ * Turns the fixes the validator attached to each diagnostic into code actions,
+ * plus a "fix all" action over every safe fix in the document.
+ */
+export function provideCodeActions(params: CodeActionParams, documentDiagnostics: Diagnostic[]): CodeAction[] {
+    const uri = params.textDocument.uri;
+    const only = params.context.only;
+    const wants = (kind: string) => !only || only.some(requested => kind.startsWith(requested));
+
+    const actions: CodeAction[] = [];
+    if (wants(CodeActionKind.QuickFix)) {
+        for (const diagnostic of params.context.diagnostics) {
+            fixesOf(diagnostic).forEach((fix, i) => {
+                const action: CodeAction = {
+                    title: fix.title,
+                    kind: CodeActionKind.QuickFix,
+                    diagnostics: [diagnostic],
+                    isPreferred: i === 0 && fix.safe
+                };
+                if (fix.edits.length > 0) {
+                    action.edit = { changes: { [uri]: fix.edits } };
+                }
+                if (fix.command) {
+                    action.command = fix.command;
+                }
+                actions.push(action);
+            });
+        }
+
+        // Only worth offering next to the quick fixes when it does more than they do
+        const safeFixes = documentDiagnostics.filter(diagnostic => fixesOf(diagnostic).some(fix => fix.safe));
+        const touchesContext = params.context.diagnostics.some(diagnostic => fixesOf(diagnostic).some(fix => fix.safe));
+        if (touchesContext && safeFixes.length > 1) {
+            const action = fixAllAction(uri, documentDiagnostics, CodeActionKind.QuickFix);
+            if (action) { actions.push(action); }
+        }
+    }
+    if (only && wants(fixAllKind)) {
+        const action = fixAllAction(uri, documentDiagnostics, fixAllKind);
+        if (action) { actions.push(action); }
+    }
+    return actions;
+}
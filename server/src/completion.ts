@@ -0,0 +1,228 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    CompletionItem,
+    CompletionItemKind,
+    Position,
+    Range,
+    TextEdit
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CaptionBlock, CaptionSheet, SheetLine, parseCaptionSheet } from './parser';
+import { StyleEntry, bundledStyleEntries, entryApplies } from './dictionaries';
+import { SheetSchema, defaultSchema } from './schema';
+import { formatCaptionDate, parseVirinDate } from './dates';
+import { parseVirin } from './virin';
+
+const partialImageTagPattern = /^!\[\]\(<([^>]*)$/;
+const keywordsLinePattern = /^Keywords:/;
+
+function lineRange(line: number, start: number, end: number): Range {
+    return { start: { line, character: start }, end: { line, character: end } };
+}
+
+// Where the text typed so far that `candidate` would complete starts, so "Staff S" is replaced as a whole
+function typedStart(before: string, candidate: string): number {
+    const lowerCandidate = candidate.toLowerCase();
+    for (let i = Math.max(0, before.length - candidate.length); i < before.length; i++) {
+        if (i > 0 && /\w/.test(before[i - 1])) { continue; }
+        if (lowerCandidate.startsWith(before.substring(i).toLowerCase())) { return i; }
+    }
+    return before.length - /[\w.]*$/.exec(before)![0].length;
+}
+
+function blockAt(sheet: CaptionSheet, line: number): CaptionBlock | undefined {
+    return sheet.captions.find(block => block.lines.some(sheetLine => sheetLine.line === line));
+}
+
+function nextVirin(sheet: CaptionSheet, block: CaptionBlock): string | undefined {
+    const used = new Set(sheet.captions.flatMap(caption => caption.title?.virin ? [caption.title.virin.text] : []));
+    const previous = sheet.captions
+        .slice(0, sheet.captions.indexOf(block))
+        .reverse()
+        .find(caption => caption.title?.virin);
+    if (!previous) { return; }
+
+    const virin = previous.title!.virin!.text;
+    const prefix = virin.substring(0, virin.lastIndexOf('-') + 1);
+    let sequence = Number(virin.substring(prefix.length));
+    let next: string;
+    do {
+        sequence++;
+        next = `${prefix}${String(sequence).padStart(4, '0')}`;
+    } while (used.has(next));
+    return sequence > 9999 ? undefined : next;
+}
+
+function virinCompletions(sheet: CaptionSheet, block: CaptionBlock, line: SheetLine): CompletionItem[] {
+    const candidates: { virin: string, detail: string }[] = [];
+    const fromFilename = block.imageTag && parseVirin(block.imageTag.filename.text);
+    if (fromFilename) {
+        candidates.push({ virin: fromFilename.text, detail: 'VIRIN from the image filename' });
+    }
+    const next = nextVirin(sheet, block);
+    if (next && !candidates.some(candidate => candidate.virin === next)) {
+        candidates.push({ virin: next, detail: 'Next VIRIN in the sequence' });
+    }
+
+    return candidates.map((candidate, i) => ({
+        label: candidate.virin,
+        kind: CompletionItemKind.Value,
+        detail: candidate.detail,
+        sortText: String(i),
+        preselect: i === 0,
+        textEdit: TextEdit.replace(lineRange(line.line, 0, line.text.length), `${candidate.virin}\\`)
+    }));
+}
+
+function descriptionCompletions(
+    block: CaptionBlock,
+    position: Position,
+    before: string,
+    style: StyleEntry[],
+    schema: SheetSchema
+): CompletionItem[] {
+    const items: CompletionItem[] = [];
+    const virin = block.title?.virin?.text;
+    const shootDate = virin && parseVirinDate(virin.substring(0, 6), schema.centuryPivot);
+    if (virin && shootDate) {
+        const date = formatCaptionDate(shootDate);
+        items.push({
+            label: date,
+            kind: CompletionItemKind.Value,
+            detail: `Date from ${virin}`,
+            sortText: '0',
+            textEdit: TextEdit.replace(lineRange(position.line, typedStart(before, date), position.character), date)
+        });
+    }
+    const service = virin ? parseVirin(virin)?.service : undefined;
+    for (const entry of style) {
+        if (!entryApplies(entry, style, service)) { continue; }
+
+        const rank = entry.preferred;
+        items.push({
+            label: rank,
+            kind: CompletionItemKind.Keyword,
+            detail: 'AP style',
+            sortText: `1${rank}`,
+            textEdit: TextEdit.replace(lineRange(position.line, typedStart(before, rank), position.character), rank)
+        });
+    }
+    return items;
+}
+
+function keywordCompletions(sheet: CaptionSheet, position: Position, lineText: string, before: string): CompletionItem[] {
+    const isBaseKeywords = sheet.baseKeywords?.range.start.line === position.line;
+    const onLine = new Set(lineText.substring('Keywords:'.length).split(';').map(keyword => keyword.trim()));
+    const base = new Set(sheet.baseKeywords?.keywords.map(keyword => keyword.text));
+
+    // Image keywords repeating a base keyword add nothing, they're merged when metadata is written
+    const counts = new Map<string, number>();
+    const lists = isBaseKeywords
+        ? sheet.captions.map(block => block.keywords)
+        : [sheet.baseKeywords, ...sheet.captions.map(block => block.keywords)];
+    for (const list of lists) {
+        if (!list || list.range.start.line === position.line) { continue; }
+        for (const { text } of list.keywords) {
+            if (onLine.has(text) || (!isBaseKeywords && base.has(text))) { continue; }
+            counts.set(text, (counts.get(text) || 0) + 1);
+        }
+    }
+
+    const typed = /[^:;]*$/.exec(before)![0];
+    const start = before.length - typed.trimStart().length;
+    const range = lineRange(position.line, start, position.character);
+    return [...counts.entries()]
+        .sort(([a, aCount], [b, bCount]) => bCount - aCount || a.localeCompare(b))
+        .map(([keyword, count], i) => ({
+            label: keyword,
+            kind: CompletionItemKind.Text,
+            detail: `Used ${count} time${count === 1 ? '' : 's'} in this sheet`,
+            sortText: String(i).padStart(4, '0'),
+            textEdit: TextEdit.replace(range, `${keyword};`)
+        }));
+}
+
+async function imageCompletions(
+    sheet: CaptionSheet,
+    sheetPath: string,
+    position: Position,
+    typed: string,
+    schema: SheetSchema
+): Promise<CompletionItem[]> {
+    // Only the files a caption is allowed to reference are offered
+    const extensions = schema.extensions.map(extension => extension.toLowerCase());
+    const directory = typed.substring(0, typed.lastIndexOf('/') + 1);
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(path.resolve(path.dirname(sheetPath), directory), { withFileTypes: true });
+    } catch {
+        return [];
+    }
+
+    const referenced = new Set(sheet.captions.flatMap(block => block.imageTag ? [block.imageTag.path.text] : []));
+    const range = lineRange(position.line, position.character - (typed.length - directory.length), position.character);
+    const items: CompletionItem[] = [];
+    for (const entry of entries) {
+        if (entry.name.startsWith('.')) { continue; }
+        if (entry.isDirectory()) {
+            items.push({
+                label: `${entry.name}/`,
+                kind: CompletionItemKind.Folder,
+                sortText: `1${entry.name}`,
+                textEdit: TextEdit.replace(range, `${entry.name}/`),
+                command: { title: 'Suggest', command: 'editor.action.triggerSuggest' }
+            });
+        } else if (extensions.includes(path.extname(entry.name).toLowerCase())) {
+            // Files without a caption yet are the likely ones
+            const isReferenced = referenced.has(directory + entry.name);
+            items.push({
+                label: entry.name,
+                kind: CompletionItemKind.File,
+                detail: isReferenced ? 'Already captioned' : undefined,
+                sortText: `${isReferenced ? 2 : 0}${entry.name}`,
+                textEdit: TextEdit.replace(range, entry.name)
+            });
+        }
+    }
+    return items;
+}
+
+/**
+ * Offers completions for the field the cursor is in: image files inside an
+ * image tag, keywords used elsewhere in the sheet on a keywords line, the next
+ * VIRIN on a title line, and the caption date and ranks in a description.
+ *
+ * `sheetPath` is needed to list image files and can be left out for sheets
+ * that aren't on disk.
+ */
+export async function provideCompletions(
+    textDocument: TextDocument,
+    position: Position,
+    sheetPath?: string,
+    style: StyleEntry[] = bundledStyleEntries(),
+    schema: SheetSchema = defaultSchema
+): Promise<CompletionItem[]> {
+    const sheet = parseCaptionSheet(textDocument.getText());
+    const line = sheet.lines[position.line];
+    if (!line || line.directive) { return []; }
+    const before = line.text.substring(0, position.character);
+
+    const imageTag = partialImageTagPattern.exec(before);
+    if (imageTag) {
+        return sheetPath ? imageCompletions(sheet, sheetPath, position, imageTag[1], schema) : [];
+    }
+    if (keywordsLinePattern.test(before)) {
+        return keywordCompletions(sheet, position, line.text, before);
+    }
+
+    const block = blockAt(sheet, position.line);
+    if (!block) { return []; }
+    if (line.expected === 'title') {
+        return virinCompletions(sheet, block, line);
+    }
+    if (line.expected === 'description') {
+        return descriptionCompletions(block, position, before, style, schema);
+    }
+    return [];
+}
@@ -0,0 +1,182 @@
+// A day on the calendar, with the month counted from 1
+export interface CalendarDate {
+    year: number;
+    month: number;
+    day: number;
+}
+
+// The word for a month or weekday in a description and which one it is
+export interface DateWord {
+    start: number;
+    end: number;
+    text: string;
+    index: number;          // 0 for January or Sunday
+}
+
+// A date or date range written in a description - "Tuesday, March 12-14, 2024"
+export interface DateMention {
+    start: number;          // Where the month starts, after any weekday
+    end: number;
+    text: string;           // "March 12-14, 2024"
+    weekday?: DateWord;
+    month: DateWord;
+    from: CalendarDate;     // The first day, with year 0 when no year is written
+    to?: CalendarDate;      // The last day of a range
+    hasYear: boolean;
+}
+
+// A month written the way AP style doesn't
+export interface MonthProblem {
+    start: number;
+    end: number;
+    text: string;
+    replacement: string;
+    message: string;
+}
+
+export const monthNames = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+// Months are abbreviated only before a day, and these five never are
+export const apMonths = ['Jan.', 'Feb.', 'March', 'April', 'May', 'June', 'July', 'Aug.', 'Sept.', 'Oct.', 'Nov.', 'Dec.'];
+export const weekdayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const monthWords = '(January|February|March|April|May|June|July|August|September|October|November|December|Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept|Sep|Oct|Nov|Dec)(\\.?)';
+const weekdayWords = '(Sunday|Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sun|Mon|Tues|Tue|Wed|Thurs|Thu|Fri|Sat)\\.?';
+const ordinal = '(?:st|nd|rd|th)?';
+
+const monthPattern = new RegExp(`(?<![\\w.])${monthWords}(?!\\w)`, 'g');
+const datePattern = new RegExp(
+    `(?<![\\w.])(?:${weekdayWords},?\\s+)?${monthWords}\\s+(\\d{1,2})${ordinal}` +
+    `(?:\\s*(?:-|–|—|to|through)\\s*(?:${monthWords}\\s+)?(\\d{1,2})${ordinal})?` +
+    `(?:,?\\s+(\\d{4}))?(?!\\d)`,
+    'g'
+);
+const dayAfterPattern = /^\s+\d{1,2}(?!\d)/;
+
+function monthIndex(word: string): number {
+    return monthNames.findIndex(name => name.startsWith(word.substring(0, 3)));
+}
+
+function weekdayIndex(word: string): number {
+    return weekdayNames.findIndex(name => name.startsWith(word.substring(0, 3)));
+}
+
+export function isRealDate(date: CalendarDate): boolean {
+    const check = new Date(Date.UTC(date.year, date.month - 1, date.day));
+    return check.getUTCFullYear() === date.year && check.getUTCMonth() === date.month - 1 && check.getUTCDate() === date.day;
+}
+
+export function compareDates(a: CalendarDate, b: CalendarDate): number {
+    return a.year - b.year || a.month - b.month || a.day - b.day;
+}
+
+// The weekday of a date, 0 for Sunday
+export function weekdayOf(date: CalendarDate): number {
+    return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+export function today(): CalendarDate {
+    const now = new Date();
+    return { year: now.getFullYear(), month: now.getMonth() + 1, day: now.getDate() };
+}
+
+/**
+ * Reads the "yymmdd" at the start of a VIRIN. Years below `centuryPivot` are
+ * in the 2000s and the rest in the 1900s. Returns undefined for digits that
+ * aren't a day on the calendar, like "241345".
+ */
+export function parseVirinDate(yymmdd: string, centuryPivot: number): CalendarDate | undefined {
+    if (!/^\d{6}$/.test(yymmdd)) { return; }
+
+    const yy = Number(yymmdd.substring(0, 2));
+    const date = {
+        year: (yy < centuryPivot ? 2000 : 1900) + yy,
+        month: Number(yymmdd.substring(2, 4)),
+        day: Number(yymmdd.substring(4, 6)),
+    };
+    return isRealDate(date) ? date : undefined;
+}
+
+// "March 12, 2024"
+export function formatCaptionDate(date: CalendarDate): string {
+    return `${apMonths[date.month - 1]} ${date.day}, ${date.year}`;
+}
+
+/**
+ * Finds the dates and date ranges in a description. A range runs from the
+ * first day to the last, with the month of the first day unless it names its
+ * own: "March 12-14, 2024", "March 30-April 2, 2024".
+ */
+export function findCaptionDates(text: string): DateMention[] {
+    const mentions: DateMention[] = [];
+    datePattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while (match = datePattern.exec(text)) {
+        const [whole, weekday, month, , day, toMonth, , toDay, year] = match;
+        const monthStart = match.index + whole.indexOf(month, weekday ? weekday.length : 0);
+        const from = { year: Number(year || 0), month: monthIndex(month) + 1, day: Number(day) };
+
+        const mention: DateMention = {
+            start: monthStart,
+            end: match.index + whole.length,
+            text: text.substring(monthStart, match.index + whole.length),
+            month: { start: monthStart, end: monthStart + month.length, text: month, index: from.month - 1 },
+            from,
+            hasYear: !!year,
+        };
+        if (weekday) {
+            const weekdayEnd = match.index + weekday.length + (whole[weekday.length] === '.' ? 1 : 0);
+            mention.weekday = {
+                start: match.index,
+                end: weekdayEnd,
+                text: text.substring(match.index, weekdayEnd),
+                index: weekdayIndex(weekday),
+            };
+        }
+        if (toDay) {
+            mention.to = { year: from.year, month: toMonth ? monthIndex(toMonth) + 1 : from.month, day: Number(toDay) };
+            // "Dec. 30-Jan. 2, 2025" starts the year before
+            if (year && compareDates(mention.to, from) < 0) {
+                from.year--;
+            }
+        }
+        mentions.push(mention);
+    }
+    return mentions;
+}
+
+/**
+ * Finds the months that don't follow AP style: before a day, "Jan.", "Feb.",
+ * "Aug.", "Sept.", "Oct.", "Nov." and "Dec." are abbreviated and the rest are
+ * spelled out; anywhere else every month is spelled out. Abbreviations without
+ * a period or a day after them are left alone, as they're more often names.
+ */
+export function findMonthProblems(text: string): MonthProblem[] {
+    const problems: MonthProblem[] = [];
+    monthPattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while (match = monthPattern.exec(text)) {
+        const [written, word, period] = match;
+        const index = monthIndex(word);
+        const start = match.index;
+        const end = start + written.length;
+        const beforeDay = dayAfterPattern.test(text.substring(end));
+
+        if (beforeDay) {
+            const expected = apMonths[index];
+            if (written === expected) { continue; }
+            problems.push({
+                start, end, text: written, replacement: expected,
+                message: expected.endsWith('.')
+                    ? `AP style abbreviates "${monthNames[index]}" as "${expected}" before a day.`
+                    : `AP style never abbreviates "${expected}".`
+            });
+        } else {
+            if (word === monthNames[index] || !period) { continue; }
+            problems.push({
+                start, end, text: written, replacement: monthNames[index],
+                message: `Spell out "${monthNames[index]}" when no day follows it.`
+            });
+        }
+    }
+    return problems;
+}
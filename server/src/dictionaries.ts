@@ -0,0 +1,330 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { isMap, isScalar, isSeq, parseDocument } from 'yaml';
+
+// A style rule from a dictionary - the preferred form of a word and the spellings to replace
+export interface StyleEntry {
+    preferred: string;      // "Staff Sgt."
+    patterns: RegExp[];     // The variants and patterns of the entry, each finding every match
+    exclude: string[];      // Phrases a match is left alone inside
+    before?: RegExp;        // What the text before a match has to end with
+    after?: RegExp;         // What the text after a match has to start with
+    services?: string[];    // The VIRIN service letters of the captions the entry applies to
+    file: string;           // The dictionary the entry came from
+}
+
+export interface StyleDictionary {
+    file: string;
+    entries: StyleEntry[];      // The entries that could be read, broken ones left out
+    problems: Diagnostic[];     // What's wrong with the dictionary, in the dictionary file
+}
+
+export interface StyleMatch {
+    entry: StyleEntry;
+    pattern: RegExp;        // The pattern of the entry that matched
+    text: string;
+    start: number;
+    end: number;
+}
+
+// The dictionary every sheet is checked against, shipped with the server
+export const bundledDictionaryFile = path.join(__dirname, '..', 'dictionaries', 'ap-style.yaml');
+
+const entryFields = ['preferred', 'variants', 'patterns', 'exclude', 'context'];
+const contextFields = ['before', 'after', 'services'];
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Variants are whole words, so "Capt" doesn't match the start of "Capt." or "Captain"
+function variantsPattern(variants: string[]): RegExp {
+    const alternatives = [...variants].sort((a, b) => b.length - a.length).map(escapeRegExp);
+    return new RegExp(`(?<!\\w)(?:${alternatives.join('|')})(?![\\w.])`, 'g');
+}
+
+/**
+ * Reads a YAML or JSON style dictionary. Entries that can't be used are left
+ * out and reported as problems at their place in the file.
+ */
+export function parseStyleDictionary(file: string, text: string): StyleDictionary {
+    const textDocument = TextDocument.create(file, 'yaml', 0, text);
+    const dictionary: StyleDictionary = { file, entries: [], problems: [] };
+
+    const report = (node: unknown, message: string, severity: DiagnosticSeverity = DiagnosticSeverity.Error) => {
+        const range = (node as { range?: [number, number, number] } | undefined)?.range || [0, 0, 0];
+        dictionary.problems.push({
+            severity,
+            range: { start: textDocument.positionAt(range[0]), end: textDocument.positionAt(range[1]) },
+            message,
+            code: 'dictionary-invalid',
+            source: 'Markdown Captions'
+        });
+    };
+
+    const document = parseDocument(text);
+    for (const error of document.errors) {
+        report({ range: [error.pos[0], error.pos[1]] }, error.message);
+    }
+    if (document.errors.length > 0) { return dictionary; }
+
+    const entries = isMap(document.contents) ? document.contents.get('entries', true) : undefined;
+    if (!isSeq(entries)) {
+        report(document.contents, 'Expected "entries", a list of style entries.');
+        return dictionary;
+    }
+
+    const stringValue = (node: unknown) =>
+        isScalar(node) && typeof node.value === 'string' && node.value.trim() !== '' ? node.value : undefined;
+    const stringList = (node: unknown) =>
+        isSeq(node) && node.items.every(item => stringValue(item) !== undefined)
+            ? node.items.map(item => stringValue(item)!)
+            : undefined;
+    const regExp = (node: unknown, source: string, flags: string): RegExp | undefined => {
+        try {
+            return new RegExp(source, flags);
+        } catch (error) {
+            report(node, `"${source}" is not a valid regular expression. ${(error as Error).message}`);
+        }
+    };
+
+    for (const item of entries.items) {
+        if (!isMap(item)) {
+            report(item, 'Expected an entry with a "preferred" form.');
+            continue;
+        }
+        for (const pair of item.items) {
+            const key = isScalar(pair.key) ? String(pair.key.value) : '';
+            if (!entryFields.includes(key)) {
+                report(pair.key, `Unknown field "${key}". Expected ${entryFields.join(', ')}.`, DiagnosticSeverity.Warning);
+            }
+        }
+
+        const preferred = stringValue(item.get('preferred', true));
+        if (!preferred) {
+            report(item, 'The entry has no "preferred" form.');
+            continue;
+        }
+
+        const lists: { [field: string]: string[] } = {};
+        let broken = false;
+        for (const field of ['variants', 'patterns', 'exclude']) {
+            const node = item.get(field, true);
+            const list = node === undefined ? [] : stringList(node);
+            if (!list) {
+                report(node, `"${field}" of "${preferred}" must be a list of text.`);
+                broken = true;
+            }
+            lists[field] = list || [];
+        }
+        if (broken) { continue; }
+
+        const entry: StyleEntry = { preferred, patterns: [], exclude: lists.exclude, file };
+        if (lists.variants.length > 0) {
+            entry.patterns.push(variantsPattern(lists.variants));
+        }
+        const patternsNode = item.get('patterns', true);
+        for (const [i, source] of lists.patterns.entries()) {
+            const pattern = regExp(isSeq(patternsNode) ? patternsNode.items[i] : patternsNode, source, 'g');
+            if (pattern) {
+                entry.patterns.push(pattern);
+            } else {
+                broken = true;
+            }
+        }
+        if (entry.patterns.length === 0 && !broken) {
+            report(item, `"${preferred}" has no "variants" or "patterns" to look for.`);
+            broken = true;
+        }
+
+        const context = item.get('context', true);
+        if (context !== undefined) {
+            if (!isMap(context)) {
+                report(context, `"context" of "${preferred}" must have "before", "after" or "services".`);
+                continue;
+            }
+            for (const pair of context.items) {
+                const key = isScalar(pair.key) ? String(pair.key.value) : '';
+                if (!contextFields.includes(key)) {
+                    report(pair.key, `Unknown context "${key}". Expected ${contextFields.join(', ')}.`, DiagnosticSeverity.Warning);
+                }
+            }
+            for (const field of ['before', 'after'] as const) {
+                const node = context.get(field, true);
+                if (node === undefined) { continue; }
+
+                const source = stringValue(node);
+                if (source === undefined) {
+                    report(node, `"${field}" of "${preferred}" must be a regular expression.`);
+                    broken = true;
+                    continue;
+                }
+                const pattern = regExp(node, field === 'before' ? `(?:${source})$` : `^(?:${source})`, '');
+                if (pattern) {
+                    entry[field] = pattern;
+                } else {
+                    broken = true;
+                }
+            }
+            const servicesNode = context.get('services', true);
+            if (servicesNode !== undefined) {
+                const services = stringList(servicesNode);
+                if (!services) {
+                    report(servicesNode, `"services" of "${preferred}" must be a list of service letters.`);
+                    broken = true;
+                }
+                entry.services = services;
+            }
+        }
+
+        if (!broken) {
+            dictionary.entries.push(entry);
+        }
+    }
+    return dictionary;
+}
+
+export function readStyleDictionary(file: string): StyleDictionary {
+    return parseStyleDictionary(file, fs.readFileSync(file, 'utf8'));
+}
+
+let bundledEntries: StyleEntry[] | undefined;
+
+export function bundledStyleEntries(): StyleEntry[] {
+    if (!bundledEntries) {
+        bundledEntries = readStyleDictionary(bundledDictionaryFile).entries;
+    }
+    return bundledEntries;
+}
+
+/**
+ * Combines the entries of several dictionaries. An entry replaces an earlier
+ * one with the same preferred form, keeping its place.
+ */
+export function mergeStyleEntries(...dictionaries: StyleEntry[][]): StyleEntry[] {
+    const entries = new Map<string, StyleEntry>();
+    for (const entry of dictionaries.flat()) {
+        entries.set(entry.preferred, entry);
+    }
+    return [...entries.values()];
+}
+
+// The preferred form itself, found so a spelling of another entry inside it isn't taken for a match
+const preferredPatterns = new WeakMap<StyleEntry, RegExp>();
+
+function preferredPattern(entry: StyleEntry): RegExp {
+    let pattern = preferredPatterns.get(entry);
+    if (!pattern) {
+        pattern = variantsPattern([entry.preferred]);
+        preferredPatterns.set(entry, pattern);
+    }
+    return pattern;
+}
+
+/**
+ * Whether an entry is checked in a caption of `service`. An entry limited to
+ * some services applies to those, and to captions of a service no entry is
+ * limited to, so joint captions can use the ranks of every branch.
+ */
+export function entryApplies(entry: StyleEntry, entries: StyleEntry[], service?: string): boolean {
+    if (!entry.services || !service || entry.services.includes(service)) { return true; }
+    return !entries.some(other => other.services?.includes(service));
+}
+
+function isExcluded(text: string, start: number, end: number, entry: StyleEntry): boolean {
+    for (const phrase of entry.exclude) {
+        for (let at = text.indexOf(phrase); at !== -1; at = text.indexOf(phrase, at + 1)) {
+            if (at <= start && end <= at + phrase.length) { return true; }
+        }
+    }
+    return false;
+}
+
+function entryMatches(text: string, entry: StyleEntry, pattern: RegExp): StyleMatch[] {
+    const matches: StyleMatch[] = [];
+    // The patterns are shared, so each search has to start from the beginning
+    pattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while (match = pattern.exec(text)) {
+        if (match[0].length === 0) {
+            pattern.lastIndex++;
+            continue;
+        }
+        const start = match.index;
+        const end = start + match[0].length;
+        if (entry.before && !entry.before.test(text.substring(0, start))) { continue; }
+        if (entry.after && !entry.after.test(text.substring(end))) { continue; }
+        if (isExcluded(text, start, end, entry)) { continue; }
+
+        matches.push({ entry, pattern, text: match[0], start, end });
+    }
+    return matches;
+}
+
+/**
+ * Finds every spelling in `text` that a style entry wants replaced, entry by
+ * entry. `service` is the VIRIN service letter of the caption the text is from.
+ */
+export function findStyleMatches(text: string, entries: StyleEntry[], service?: string): StyleMatch[] {
+    const matches: StyleMatch[] = [];
+    for (const entry of entries) {
+        if (!entryApplies(entry, entries, service)) { continue; }
+
+        for (const pattern of entry.patterns) {
+            matches.push(...entryMatches(text, entry, pattern).filter(match => match.text !== entry.preferred));
+        }
+    }
+    return matches;
+}
+
+/**
+ * Finds the ranks in `text` as they are written, preferred or not. Ranks are
+ * the entries limited to some services, and where spellings overlap the
+ * longest wins.
+ */
+export function findRanks(text: string, entries: StyleEntry[]): StyleMatch[] {
+    const found: StyleMatch[] = [];
+    for (const entry of entries) {
+        if (!entry.services) { continue; }
+        for (const pattern of [preferredPattern(entry), ...entry.patterns]) {
+            found.push(...entryMatches(text, entry, pattern));
+        }
+    }
+    found.sort((a, b) => (b.end - b.start) - (a.end - a.start));
+
+    const kept: StyleMatch[] = [];
+    for (const match of found) {
+        if (kept.some(other => match.start < other.end && other.start < match.end)) { continue; }
+        kept.push(match);
+    }
+    return kept.sort((a, b) => a.start - b.start);
+}
+
+/**
+ * Finds the spellings in `text` of entries that don't apply to `service`, like
+ * a Navy rank in an Army caption. Where spellings overlap the longest wins, and
+ * the caption's own service wins a tie, so the "Sgt." of an Air Force
+ * "Staff Sgt." isn't taken for an Army "Sgt.".
+ */
+export function findOtherServiceMatches(text: string, entries: StyleEntry[], service?: string): StyleMatch[] {
+    if (!service) { return []; }
+
+    const found: { match: StyleMatch, applies: boolean }[] = [];
+    for (const entry of entries) {
+        const applies = entryApplies(entry, entries, service);
+        for (const pattern of [preferredPattern(entry), ...entry.patterns]) {
+            found.push(...entryMatches(text, entry, pattern).map(match => ({ match, applies })));
+        }
+    }
+    found.sort((a, b) =>
+        (b.match.end - b.match.start) - (a.match.end - a.match.start) || Number(b.applies) - Number(a.applies));
+
+    const kept: typeof found = [];
+    for (const candidate of found) {
+        if (kept.some(({ match }) => candidate.match.start < match.end && match.start < candidate.match.end)) { continue; }
+        kept.push(candidate);
+    }
+    return kept.filter(({ applies }) => !applies).map(({ match }) => match).sort((a, b) => a.start - b.start);
+}
@@ -0,0 +1,143 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity, Range, TextEdit } from 'vscode-languageserver';
+import { CaptionSheet } from './parser';
+import { Caption, CaptionDiagnosticData, CaptionFix } from './validation';
+import { captionMetadata, resolveImagePath } from './embed';
+import { CaptionMetadata } from './metadata/xmp';
+import { readJpegMetadata } from './metadata/jpeg';
+
+type MetadataReader = (buffer: Buffer) => Partial<CaptionMetadata> | undefined;
+
+const readers: { [extension: string]: MetadataReader } = {
+    '.jpg': readJpegMetadata,
+    '.jpeg': readJpegMetadata,
+};
+
+interface ReadMetadata {
+    mtimeMs: number;
+    size: number;
+    metadata?: Partial<CaptionMetadata>;
+}
+
+// What was read from each image, by path, until it changes on disk
+const embeddedMetadata: Map<string, ReadMetadata> = new Map();
+
+/**
+ * Reads the caption fields already embedded in an image, or `undefined` when
+ * it has none or can't be read.
+ */
+export async function readEmbeddedMetadata(file: string): Promise<Partial<CaptionMetadata> | undefined> {
+    const reader = readers[path.extname(file).toLowerCase()];
+    if (!reader) { return; }
+
+    try {
+        const { mtimeMs, size } = await fs.promises.stat(file);
+        const cached = embeddedMetadata.get(file);
+        if (cached && cached.mtimeMs === mtimeMs && cached.size === size) { return cached.metadata; }
+
+        const metadata = reader(await fs.promises.readFile(file));
+        embeddedMetadata.set(file, { mtimeMs, size, metadata });
+        return metadata;
+    } catch {
+        // Missing and mislabeled files are reported by the image file checks
+        return;
+    }
+}
+
+function sameKeywords(a: string[], b: string[]): boolean {
+    return JSON.stringify([...new Set(a)].sort()) === JSON.stringify([...new Set(b)].sort());
+}
+
+function quoted(keywords: string[]): string {
+    return keywords.map(keyword => `"${keyword}"`).join(', ');
+}
+
+// The range of a line without its line break and, if it has one, the trailing backslash
+function contentRange(range: Range, text: string): Range {
+    const end = text.replace(/\s*\\?\s*$/, '').length;
+    return { start: range.start, end: { line: range.start.line, character: range.start.character + end } };
+}
+
+/**
+ * Compares the title, keywords and description embedded in the image of each
+ * caption with the caption, for images that have had metadata written to
+ * them. Each difference offers to pull the image's value into the sheet and,
+ * when `pushCommand` is given, to write the caption to the image with it.
+ */
+export async function validateEmbeddedMetadata(
+    uri: string,
+    sheet: CaptionSheet,
+    captions: Caption[],
+    sheetPath: string,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    pushCommand?: string,
+) {
+    const baseKeywords = sheet.baseKeywords?.keywords.map(keyword => keyword.text) || [];
+    for (const caption of captions) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+
+        const file = resolveImagePath(caption, sheetPath);
+        const embedded = file && await readEmbeddedMetadata(file);
+        if (!embedded) { continue; }
+
+        const block = caption.block;
+        const image = block.imageTag!.path.text;
+        const expected = captionMetadata(caption, baseKeywords);
+        const push: CaptionFix | undefined = pushCommand ? {
+            title: `Push the caption to ${path.basename(image)}`,
+            edits: [],
+            safe: false,
+            command: { title: 'Push to image', command: pushCommand, arguments: [uri, { virins: [caption.virin] }] }
+        } : undefined;
+        const report = (range: Range, message: string, pull: CaptionFix) => {
+            if (diagnostics.length >= maxNumberOfProblems) { return; }
+            const data: CaptionDiagnosticData = { fixes: push ? [pull, push] : [pull] };
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message,
+                code: 'metadata-drift',
+                source: 'Markdown Captions',
+                data
+            });
+        };
+
+        if (embedded.title !== undefined && embedded.title !== expected.title && block.title?.virin) {
+            const range = block.title.virin.range;
+            report(range, `The title embedded in "${image}" is "${embedded.title}", not "${expected.title}".`, {
+                title: `Pull the title "${embedded.title}" from the image`,
+                edits: [TextEdit.replace(range, embedded.title)],
+                safe: false
+            });
+        }
+
+        if (embedded.keywords !== undefined && !sameKeywords(embedded.keywords, expected.keywords) && block.keywords) {
+            const onlyInImage = embedded.keywords.filter(keyword => !expected.keywords.includes(keyword));
+            const onlyInSheet = expected.keywords.filter(keyword => !embedded.keywords!.includes(keyword));
+            const differences = [
+                ...(onlyInImage.length > 0 ? [`only the image has ${quoted(onlyInImage)}`] : []),
+                ...(onlyInSheet.length > 0 ? [`only the sheet has ${quoted(onlyInSheet)}`] : []),
+            ];
+            // Base keywords stay on the base keywords line
+            const imageKeywords = embedded.keywords.filter(keyword => !baseKeywords.includes(keyword));
+            report(block.keywords.range, `The keywords embedded in "${image}" differ from the caption's: ${differences.join('; ')}.`, {
+                title: 'Pull the keywords from the image',
+                edits: [TextEdit.replace(
+                    contentRange(block.keywords.range, block.keywords.text),
+                    `Keywords: ${imageKeywords.map(keyword => `${keyword};`).join(' ')}`.trimEnd()
+                )],
+                safe: false
+            });
+        }
+
+        if (embedded.description !== undefined && embedded.description !== expected.description && block.description) {
+            report(block.description.range, `The description embedded in "${image}" differs from the caption's:\n${embedded.description}`, {
+                title: 'Pull the description from the image',
+                edits: [TextEdit.replace(contentRange(block.description.range, block.description.text), embedded.description)],
+                safe: false
+            });
+        }
+    }
+}
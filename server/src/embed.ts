@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { Caption, checkCaptionSheet } from './validation';
+import { SheetSchema, defaultSchema } from './schema';
+import { CaptionMetadata } from './metadata/xmp';
+import { UnsupportedFileError } from './metadata/errors';
+import { writeJpegMetadata } from './metadata/jpeg';
+import { prepareMp4Metadata } from './metadata/mp4';
+
+export interface EmbedOptions {
+    dryRun: boolean;    // Report what would be written without touching any file
+    backup: boolean;    // Copy each file to "<file>.bak" before its first change
+    virins?: string[];  // Only write the captions with these VIRINs, rather than every caption
+}
+
+export interface EmbedResult {
+    virin: string;
+    file: string;       // Absolute path of the image
+    status: 'written' | 'dry-run' | 'skipped' | 'failed';
+    message: string;
+}
+
+// Checks that a file can take the metadata and returns the function that writes it
+type MetadataWriter = (file: string, metadata: CaptionMetadata) => Promise<() => Promise<void>>;
+
+async function prepareJpegMetadata(file: string, metadata: CaptionMetadata): Promise<() => Promise<void>> {
+    const updated = writeJpegMetadata(await fs.promises.readFile(file), metadata);
+    return async () => {
+        // Write next to the original and swap it in so a failure can't leave a half-written file
+        const temporary = `${file}.${process.pid}.tmp`;
+        await fs.promises.writeFile(temporary, updated);
+        await fs.promises.rename(temporary, file);
+    };
+}
+
+const writers: { [extension: string]: MetadataWriter } = {
+    '.jpg': prepareJpegMetadata,
+    '.jpeg': prepareJpegMetadata,
+    '.mp4': prepareMp4Metadata,
+};
+
+export function containsRange(outer: Range, inner: Range): boolean {
+    const startsBefore = outer.start.line < inner.start.line ||
+        (outer.start.line === inner.start.line && outer.start.character <= inner.start.character);
+    const endsAfter = outer.end.line > inner.end.line ||
+        (outer.end.line === inner.end.line && outer.end.character >= inner.end.character);
+    return startsBefore && endsAfter;
+}
+
+/**
+ * Collects the metadata a caption contributes to its image: the VIRIN as the
+ * title, base and image keywords, the description and the attribution.
+ */
+export function captionMetadata(caption: Caption, baseKeywords: string[]): CaptionMetadata {
+    const keywords = [...baseKeywords];
+    for (const keyword of caption.keywords) {
+        if (!keywords.includes(keyword)) { keywords.push(keyword); }
+    }
+
+    const attribution = caption.block.description?.attribution?.text;
+    return {
+        title: caption.virin,
+        keywords,
+        description: caption.description.replace(/\s*\\\s*$/, ''),
+        credit: attribution?.substring(1, attribution.length - 1).trim(),
+    };
+}
+
+export function resolveImagePath(caption: Caption, sheetPath: string): string | undefined {
+    const imagePath = caption.block.imageTag?.path.text;
+    return imagePath && path.resolve(path.dirname(sheetPath), imagePath);
+}
+
+async function embedCaption(
+    caption: Caption,
+    metadata: CaptionMetadata,
+    file: string,
+    options: EmbedOptions,
+): Promise<EmbedResult> {
+    const result = (status: EmbedResult['status'], message: string): EmbedResult =>
+        ({ virin: caption.virin, file, status, message });
+
+    const writer = writers[path.extname(file).toLowerCase()];
+    if (!writer) {
+        return result('skipped', `Writing metadata to ${path.extname(file) || 'extensionless'} files is not supported.`);
+    }
+
+    try {
+        const write = await writer(file, metadata);
+        const summary = `title "${metadata.title}", ${metadata.keywords.length} keyword${metadata.keywords.length === 1 ? '' : 's'}, ${metadata.credit ? 'with' : 'no'} credit`;
+        if (options.dryRun) {
+            return result('dry-run', `Would write ${summary}.`);
+        }
+
+        const backup = `${file}.bak`;
+        if (options.backup && !fs.existsSync(backup)) {
+            await fs.promises.copyFile(file, backup, fs.constants.COPYFILE_EXCL);
+        }
+
+        await write();
+        return result('written', `Wrote ${summary}.`);
+    } catch (error) {
+        if (error instanceof UnsupportedFileError) {
+            return result('skipped', error.message);
+        }
+        return result('failed', error instanceof Error ? error.message : String(error));
+    }
+}
+
+/**
+ * Writes the metadata of every valid caption in a sheet, or of the ones
+ * `options.virins` names, to the image its tag references. Captions with
+ * errors are skipped rather than written.
+ */
+export async function embedSheetMetadata(
+    textDocument: TextDocument,
+    sheetPath: string,
+    options: EmbedOptions,
+    schema: SheetSchema = defaultSchema,
+): Promise<EmbedResult[]> {
+    const { sheet, captions, diagnostics } = checkCaptionSheet(textDocument, Infinity, schema);
+    const baseKeywords = sheet.baseKeywords?.keywords.map(keyword => keyword.text) || [];
+    const errors = diagnostics.filter(diagnostic => diagnostic.severity === DiagnosticSeverity.Error);
+
+    const results: EmbedResult[] = [];
+    for (const caption of captions) {
+        const file = resolveImagePath(caption, sheetPath);
+        if (!file || (options.virins && !options.virins.includes(caption.virin))) { continue; }
+
+        if (errors.some(error => containsRange(caption.block.range, error.range))) {
+            results.push({ virin: caption.virin, file, status: 'skipped', message: 'The caption has errors.' });
+            continue;
+        }
+        results.push(await embedCaption(caption, captionMetadata(caption, baseKeywords), file, options));
+    }
+    return results;
+}
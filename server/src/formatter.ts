@@ -0,0 +1,95 @@
+import { Range, TextEdit } from 'vscode-languageserver';
+import { KeywordList, isBlankLine, parseCaptionSheet } from './parser';
+
+// An image tag whose path isn't wrapped in "<...>" yet - "![](path/to/image.jpg)"
+const bareImageTagPattern = /^!\[\]\(([^<].*)\)$/;
+
+function withBackslash(text: string): string {
+    return text.endsWith('\\') ? text : `${text}\\`;
+}
+
+function formatKeywords(keywords: KeywordList): string {
+    const list = keywords.keywords.map(keyword => `${keyword.text};`);
+    if (keywords.unterminated) {
+        list.push(`${keywords.unterminated.text};`);
+    }
+    return ['Keywords:', ...list].join(' ');
+}
+
+function intersects(line: number, range?: Range): boolean {
+    return !range || (line >= range.start.line && line <= range.end.line);
+}
+
+/**
+ * Normalizes the layout of a caption sheet: trims trailing whitespace, adds
+ * the trailing backslashes pandoc needs, spaces keywords as "word; word;",
+ * wraps image paths in "<...>" and puts exactly one blank line before each
+ * caption. Only whitespace and punctuation change, never the wording.
+ *
+ * When a range is given, only lines inside it are touched.
+ */
+export function formatCaptionSheet(text: string, range?: Range): TextEdit[] {
+    const eol = text.includes('\r\n') ? '\r\n' : '\n';
+    const original = text.split('\n').map(line => line.replace(/\r$/, ''));
+
+    // Whitespace and image tags first, since the parser only recognizes wrapped paths
+    const lines = original.map(line => {
+        const trimmed = line.trimEnd();
+        const bareImageTag = bareImageTagPattern.exec(trimmed);
+        return bareImageTag ? `![](<${bareImageTag[1]}>)` : trimmed;
+    });
+
+    const sheet = parseCaptionSheet(lines.join('\n'));
+    const setLine = (line: number, value: string) => { lines[line] = value; };
+
+    if (sheet.headline) {
+        setLine(sheet.headline.range.start.line, withBackslash(sheet.headline.text));
+    }
+    if (sheet.baseKeywords) {
+        setLine(sheet.baseKeywords.range.start.line, formatKeywords(sheet.baseKeywords));
+    }
+
+    const removedLines = new Set<number>();
+    const blankLineBefore = new Set<number>();
+    for (const block of sheet.captions) {
+        if (block.keywords) {
+            setLine(block.keywords.range.start.line, formatKeywords(block.keywords));
+        }
+        if (block.title) {
+            setLine(block.title.range.start.line, withBackslash(block.title.text));
+        }
+        if (block.description) {
+            setLine(block.description.range.start.line, withBackslash(block.description.text));
+        }
+
+        const leadingBlankLines = [];
+        for (const line of block.lines) {
+            if (!isBlankLine(line.text)) { break; }
+            leadingBlankLines.push(line.line);
+        }
+        if (leadingBlankLines.length === 0) {
+            blankLineBefore.add(block.lines[0].line);
+        }
+        leadingBlankLines.slice(1).forEach(line => removedLines.add(line));
+    }
+
+    const edits: TextEdit[] = [];
+    original.forEach((line, i) => {
+        if (!intersects(i, range)) { return; }
+
+        if (removedLines.has(i)) {
+            edits.push(TextEdit.del({ start: { line: i, character: 0 }, end: { line: i + 1, character: 0 } }));
+            return;
+        }
+        if (blankLineBefore.has(i)) {
+            edits.push(TextEdit.insert({ line: i, character: 0 }, eol));
+        }
+        if (lines[i] !== line) {
+            edits.push(TextEdit.replace({
+                start: { line: i, character: 0 },
+                end: { line: i, character: line.length }
+            }, lines[i]));
+        }
+    });
+    return edits;
+}
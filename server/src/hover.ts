@@ -0,0 +1,126 @@
+import * as path from 'path';
+import { Hover, MarkupKind, Position } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CaptionBlock, CaptionSheet, KeywordList, Span, parseCaptionSheet } from './parser';
+import { SheetSchema, defaultSchema, listOf } from './schema';
+import { StyleEntry, bundledStyleEntries, findStyleMatches } from './dictionaries';
+import { expectedCaptionDate } from './validation';
+import { parseVirin } from './virin';
+
+function contains(span: Span | undefined, position: Position): span is Span {
+    return !!span &&
+        span.range.start.line === position.line &&
+        span.range.start.character <= position.character &&
+        position.character <= span.range.end.character;
+}
+
+function markdown(lines: string[], span: Span): Hover {
+    return { contents: { kind: MarkupKind.Markdown, value: lines.join('\n') }, range: span.range };
+}
+
+function virinHover(span: Span, schema: SheetSchema): Hover | undefined {
+    const virin = parseVirin(span.text);
+    if (!virin) { return; }
+
+    return markdown([
+        `**VIRIN** \`${virin.text}\``,
+        '',
+        `- Shot on: ${expectedCaptionDate(virin.date, schema.centuryPivot)}`,
+        `- Service: ${virin.service} (${schema.services[virin.service] || 'not a known service'})`,
+        `- Unit or photographer: ${virin.unit}`,
+        `- Sequence number: ${virin.sequence}`,
+    ], span);
+}
+
+function keywordsHover(sheet: CaptionSheet, keywords: KeywordList, schema: SheetSchema): Hover {
+    const maxKeywords = schema.maxKeywords;
+    const base = sheet.baseKeywords?.keywords.length || 0;
+    if (keywords === sheet.baseKeywords) {
+        return markdown([
+            `**Base keywords** ${base} of ${maxKeywords}`,
+            '',
+            `Every image gets these, leaving room for ${Math.max(0, maxKeywords - base)} image keywords.`,
+        ], keywords);
+    }
+
+    const own = keywords.keywords.length;
+    const total = base + own;
+    return markdown([
+        `**Keywords** ${total} of ${maxKeywords}${total > maxKeywords ? ' (too many)' : ''}`,
+        '',
+        `${base} base keyword${base === 1 ? '' : 's'} and ${own} image keyword${own === 1 ? '' : 's'}.`,
+    ], keywords);
+}
+
+function captionService(block: CaptionBlock): string | undefined {
+    return block.title?.virin && parseVirin(block.title.virin.text)?.service;
+}
+
+function abbreviationHover(
+    description: Span,
+    service: string | undefined,
+    position: Position,
+    style: StyleEntry[]
+): Hover | undefined {
+    const matches = findStyleMatches(description.text, style, service);
+    for (const match of matches) {
+        const start = description.range.start.character + match.start;
+        const end = description.range.start.character + match.end;
+        if (position.character < start || position.character > end) { continue; }
+
+        // Entries matching the same spelling, like the "2nd Lt." and "1st Lt." of a bare "Lt"
+        const same = matches.filter(other => other.start === match.start && other.end === match.end);
+        const preferred = [...new Set(same.map(other => `"${other.entry.preferred}"`))];
+        return {
+            contents: {
+                kind: MarkupKind.Markdown,
+                value: [
+                    `**AP style:** write "${match.text}" as ${listOf(preferred, 'or')}.`,
+                    ...same.flatMap(other => [
+                        '',
+                        `Matched by the rule for "${other.entry.preferred}" in \`${path.basename(other.entry.file)}\`:`,
+                        '```',
+                        other.pattern.source,
+                        '```',
+                    ]),
+                ].join('\n')
+            },
+            range: {
+                start: { line: position.line, character: start },
+                end: { line: position.line, character: end }
+            }
+        };
+    }
+}
+
+/**
+ * Explains what's under the cursor: the parts of a VIRIN in a title or image
+ * filename, the keyword count on a keywords line, or the style rule a
+ * flagged abbreviation broke.
+ */
+export function provideHover(
+    textDocument: TextDocument,
+    position: Position,
+    schema: SheetSchema = defaultSchema,
+    style: StyleEntry[] = bundledStyleEntries()
+): Hover | undefined {
+    const sheet = parseCaptionSheet(textDocument.getText());
+
+    if (contains(sheet.baseKeywords, position)) {
+        return keywordsHover(sheet, sheet.baseKeywords, schema);
+    }
+    for (const block of sheet.captions) {
+        if (contains(block.imageTag?.filename, position)) {
+            return virinHover(block.imageTag!.filename, schema);
+        }
+        if (contains(block.title?.virin, position)) {
+            return virinHover(block.title!.virin!, schema);
+        }
+        if (contains(block.keywords, position)) {
+            return keywordsHover(sheet, block.keywords, schema);
+        }
+        if (contains(block.description, position)) {
+            return abbreviationHover(block.description, captionService(block), position, style);
+        }
+    }
+}
@@ -0,0 +1,126 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { CaptionSheet } from './parser';
+import { SheetSchema, defaultSchema } from './schema';
+
+// The file type each extension we know promises, by the name `detectFileType` gives it
+const extensionTypes: { [extension: string]: string } = {
+    '.jpg': 'JPEG',
+    '.jpeg': 'JPEG',
+    '.png': 'PNG',
+    '.tif': 'TIFF',
+    '.tiff': 'TIFF',
+    '.mp4': 'MP4',
+    '.mov': 'QuickTime',
+};
+
+// ISO base media brands that aren't MP4 videos
+const otherBrands: { [brand: string]: string } = {
+    'heic': 'HEIC', 'heix': 'HEIC', 'hevc': 'HEIC', 'hevx': 'HEIC',
+    'heim': 'HEIC', 'heis': 'HEIC', 'mif1': 'HEIF', 'msf1': 'HEIF',
+    'avif': 'AVIF', 'avis': 'AVIF',
+    'qt  ': 'QuickTime',
+};
+
+// Enough of the start of a file to tell its type
+const headerLength = 16;
+
+/**
+ * Names the type of a file from its first bytes - "JPEG", "HEIC" - or
+ * returns `undefined` when it isn't one we know.
+ */
+export function detectFileType(header: Buffer): string | undefined {
+    const ascii = (start: number, end: number) => header.toString('latin1', start, end);
+
+    if (header[0] === 0xFF && header[1] === 0xD8 && header[2] === 0xFF) { return 'JPEG'; }
+    if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') { return 'PNG'; }
+    if (ascii(0, 4) === 'GIF8') { return 'GIF'; }
+    if (ascii(0, 4) === 'II*\0' || ascii(0, 4) === 'MM\0*') { return 'TIFF'; }
+    if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') { return 'WebP'; }
+    if (ascii(4, 8) === 'ftyp') { return otherBrands[ascii(8, 12)] || 'MP4'; }
+    // Older QuickTime movies start straight with their atoms
+    if (['moov', 'mdat', 'wide', 'free'].includes(ascii(4, 8))) { return 'QuickTime'; }
+}
+
+async function readHeader(file: string): Promise<Buffer> {
+    const handle = await fs.promises.open(file, 'r');
+    try {
+        const header = Buffer.alloc(headerLength);
+        const { bytesRead } = await handle.read(header, 0, headerLength, 0);
+        return header.subarray(0, bytesRead);
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * The absolute directories the image tags of a sheet point into, for watching.
+ */
+export function imageFolders(sheet: CaptionSheet, sheetPath: string): string[] {
+    const folders = sheet.captions.flatMap(block => block.imageTag
+        ? [path.dirname(path.resolve(path.dirname(sheetPath), block.imageTag.path.text))]
+        : []);
+    return [...new Set(folders)];
+}
+
+// The file type each extension the schema allows promises, for those we know
+function expectedTypes(schema: SheetSchema): { [extension: string]: string } {
+    const types: { [extension: string]: string } = {};
+    for (const extension of schema.extensions.map(extension => extension.toLowerCase())) {
+        if (extensionTypes[extension]) { types[extension] = extensionTypes[extension]; }
+    }
+    return types;
+}
+
+/**
+ * Checks that the file behind every image tag exists, relative to the sheet,
+ * and that its contents match its extension when the schema allows it.
+ */
+export async function validateImageFiles(
+    sheet: CaptionSheet,
+    sheetPath: string,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    schema: SheetSchema = defaultSchema,
+) {
+    const types = expectedTypes(schema);
+    for (const block of sheet.captions) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        if (!block.imageTag) { continue; }
+
+        const imagePath = block.imageTag.path;
+        const file = path.resolve(path.dirname(sheetPath), imagePath.text);
+        let header: Buffer;
+        try {
+            header = await readHeader(file);
+        } catch (error) {
+            const missing = (error as NodeJS.ErrnoException).code === 'ENOENT';
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range: imagePath.range,
+                message: missing
+                    ? `Image file "${imagePath.text}" does not exist.`
+                    : `Image file "${imagePath.text}" can't be read. ${(error as Error).message}`,
+                code: missing ? 'image-missing' : 'image-unreadable',
+                source: 'Markdown Captions'
+            });
+            continue;
+        }
+
+        const extension = path.extname(file).toLowerCase();
+        const expected = types[extension];
+        const actual = detectFileType(header);
+        if (!expected || actual === expected) { continue; }
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: imagePath.range,
+            message: actual
+                ? `Image file "${imagePath.text}" contains ${actual} data, not ${expected} as its extension says.`
+                : `Image file "${imagePath.text}" does not contain ${expected} data.`,
+            code: 'image-type-mismatch',
+            source: 'Markdown Captions'
+        });
+    }
+}
@@ -0,0 +1,2 @@
+// Thrown when a media file is damaged or laid out in a way the writers can't safely change.
+export class UnsupportedFileError extends Error {}
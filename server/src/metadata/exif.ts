@@ -0,0 +1,72 @@
+import { UnsupportedFileError } from './errors';
+
+interface IfdEntry {
+    tag: number;
+    type: number;
+    count: number;
+    valueOffset: number;    // Offset of the four byte value field, holding the value or where it is
+}
+
+const exifIfdPointer = 0x8769;
+const dateTimeOriginal = 0x9003;
+const asciiType = 2;
+
+// "2024:03:12 14:05:09", cameras without a clock write zeros or spaces instead
+const exifDatePattern = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/;
+
+function readIfd(tiff: Buffer, offset: number, littleEndian: boolean): IfdEntry[] {
+    const readUInt16 = (at: number) => littleEndian ? tiff.readUInt16LE(at) : tiff.readUInt16BE(at);
+    const readUInt32 = (at: number) => littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+
+    if (offset + 2 > tiff.length) {
+        throw new UnsupportedFileError(`The Exif directory at byte ${offset} is past the end of the Exif data.`);
+    }
+    const count = readUInt16(offset);
+    if (offset + 2 + count * 12 > tiff.length) {
+        throw new UnsupportedFileError(`The Exif directory at byte ${offset} runs past the end of the Exif data.`);
+    }
+
+    const entries: IfdEntry[] = [];
+    for (let i = 0; i < count; i++) {
+        const entry = offset + 2 + i * 12;
+        entries.push({
+            tag: readUInt16(entry),
+            type: readUInt16(entry + 2),
+            count: readUInt32(entry + 4),
+            valueOffset: entry + 8,
+        });
+    }
+    return entries;
+}
+
+/**
+ * Reads the DateTimeOriginal tag from the TIFF structure of an Exif block, as
+ * the camera's local time. Returns `undefined` when the tag is missing or the
+ * camera had no date set. Throws an `UnsupportedFileError` when the Exif data
+ * is damaged.
+ */
+export function readExifDateTimeOriginal(tiff: Buffer): Date | undefined {
+    const byteOrder = tiff.toString('latin1', 0, 2);
+    if (tiff.length < 8 || (byteOrder !== 'II' && byteOrder !== 'MM')) {
+        throw new UnsupportedFileError('The Exif data does not start with a TIFF header.');
+    }
+    const littleEndian = byteOrder === 'II';
+    const readUInt32 = (at: number) => littleEndian ? tiff.readUInt32LE(at) : tiff.readUInt32BE(at);
+
+    // The capture time lives in the Exif directory that the first directory points to
+    const pointer = readIfd(tiff, readUInt32(4), littleEndian).find(entry => entry.tag === exifIfdPointer);
+    if (!pointer) { return; }
+    const entry = readIfd(tiff, readUInt32(pointer.valueOffset), littleEndian)
+        .find(entry => entry.tag === dateTimeOriginal && entry.type === asciiType);
+    if (!entry) { return; }
+
+    const start = entry.count > 4 ? readUInt32(entry.valueOffset) : entry.valueOffset;
+    if (start + entry.count > tiff.length) {
+        throw new UnsupportedFileError('The Exif DateTimeOriginal runs past the end of the Exif data.');
+    }
+    const match = exifDatePattern.exec(tiff.toString('latin1', start, start + entry.count));
+    if (!match || match[1] === '0000') { return; }
+
+    const [year, month, day, hours, minutes, seconds] = match.slice(1).map(Number);
+    return new Date(year, month - 1, day, hours, minutes, seconds);
+}
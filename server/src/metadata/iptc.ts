@@ -0,0 +1,181 @@
+import { createHash } from 'crypto';
+import { CaptionMetadata } from './xmp';
+
+// IPTC-IIM data sets, identified by record and data set number
+interface DataSet {
+    record: number;
+    dataSet: number;
+    data: Buffer;
+}
+
+const codedCharacterSet = { record: 1, dataSet: 90 };
+const recordVersion = { record: 2, dataSet: 0 };
+const objectName = { record: 2, dataSet: 5 };
+const keywords = { record: 2, dataSet: 25 };
+const credit = { record: 2, dataSet: 110 };
+const captionAbstract = { record: 2, dataSet: 120 };
+
+// The data sets written by `buildIptcResource`, removed from existing resources before merging
+const ownedDataSets = [codedCharacterSet, recordVersion, objectName, keywords, credit, captionAbstract];
+
+// ESC % G, the 1:90 value that declares UTF-8
+const utf8Declaration = Buffer.from([0x1B, 0x25, 0x47]);
+
+// Application record data sets that hold binary data rather than text: the rasterized caption and the preview
+const binaryDataSets = [125, 200, 201, 202];
+
+const photoshopResourceType = '8BIM';
+export const iptcResourceId = 0x0404;
+const iptcDigestResourceId = 0x0425;
+
+export interface PhotoshopResource {
+    id: number;
+    name: Buffer;   // The raw Pascal string, including its length byte and padding
+    data: Buffer;
+}
+
+export function parseIptcDataSets(data: Buffer): DataSet[] {
+    const dataSets: DataSet[] = [];
+    let offset = 0;
+    while (offset + 5 <= data.length && data[offset] === 0x1C) {
+        const length = data.readUInt16BE(offset + 3);
+        if (length & 0x8000) {
+            throw new Error('Extended IPTC data sets are not supported.');
+        }
+        dataSets.push({
+            record: data[offset + 1],
+            dataSet: data[offset + 2],
+            data: data.subarray(offset + 5, offset + 5 + length),
+        });
+        offset += 5 + length;
+    }
+    return dataSets;
+}
+
+function serializeDataSets(dataSets: DataSet[]): Buffer {
+    return Buffer.concat(dataSets.map(({ record, dataSet, data }) => {
+        if (data.length > 0x7FFF) {
+            throw new Error(`IPTC data set ${record}:${dataSet} is too long (${data.length} bytes).`);
+        }
+        const header = Buffer.from([0x1C, record, dataSet, 0, 0]);
+        header.writeUInt16BE(data.length, 3);
+        return Buffer.concat([header, data]);
+    }));
+}
+
+export function parsePhotoshopResources(data: Buffer): PhotoshopResource[] {
+    const resources: PhotoshopResource[] = [];
+    let offset = 0;
+    while (offset + 12 <= data.length && data.toString('latin1', offset, offset + 4) === photoshopResourceType) {
+        const id = data.readUInt16BE(offset + 4);
+        const nameLength = data[offset + 6];
+        // The name is a Pascal string padded to an even length
+        const paddedNameLength = (nameLength + 1) + ((nameLength + 1) % 2);
+        const name = data.subarray(offset + 6, offset + 6 + paddedNameLength);
+        const sizeOffset = offset + 6 + paddedNameLength;
+        const size = data.readUInt32BE(sizeOffset);
+        const resourceData = data.subarray(sizeOffset + 4, sizeOffset + 4 + size);
+        resources.push({ id, name, data: resourceData });
+        offset = sizeOffset + 4 + size + (size % 2);
+    }
+    return resources;
+}
+
+export function serializePhotoshopResources(resources: PhotoshopResource[]): Buffer {
+    return Buffer.concat(resources.map(({ id, name, data }) => {
+        const header = Buffer.alloc(6);
+        header.write(photoshopResourceType, 0, 'latin1');
+        header.writeUInt16BE(id, 4);
+        const size = Buffer.alloc(4);
+        size.writeUInt32BE(data.length);
+        const padding = Buffer.alloc(data.length % 2);
+        return Buffer.concat([header, name, size, data, padding]);
+    }));
+}
+
+function isOwned(dataSet: DataSet): boolean {
+    return ownedDataSets.some(owned =>
+        owned.record === dataSet.record && owned.dataSet === dataSet.dataSet);
+}
+
+function isUtf8(dataSets: DataSet[]): boolean {
+    const characterSet = dataSets.find(dataSet =>
+        dataSet.record === codedCharacterSet.record && dataSet.dataSet === codedCharacterSet.dataSet);
+    return !!characterSet?.data.equals(utf8Declaration);
+}
+
+// Text of a block without a UTF-8 declaration is Latin-1, and has to be converted once the block declares UTF-8
+function toUtf8(dataSet: DataSet): DataSet {
+    if (dataSet.record !== 2 || binaryDataSets.includes(dataSet.dataSet)) { return dataSet; }
+    return { ...dataSet, data: Buffer.from(dataSet.data.toString('latin1'), 'utf8') };
+}
+
+/**
+ * Builds the IPTC-IIM block for the caption metadata, keeping any data sets of
+ * an existing block that the caption doesn't provide. The block is always
+ * UTF-8, so kept text from a Latin-1 block is converted.
+ */
+export function buildIptcData(metadata: CaptionMetadata, existing?: Buffer): Buffer {
+    const utf8 = (text: string) => Buffer.from(text, 'utf8');
+    const existingDataSets = existing ? parseIptcDataSets(existing) : [];
+    const wasUtf8 = isUtf8(existingDataSets);
+    const kept = existingDataSets
+        .filter(dataSet => !isOwned(dataSet))
+        .map(dataSet => wasUtf8 ? dataSet : toUtf8(dataSet));
+
+    const dataSets: DataSet[] = [
+        { ...codedCharacterSet, data: utf8Declaration },
+        ...kept.filter(dataSet => dataSet.record === 1),
+        { ...recordVersion, data: Buffer.from([0x00, 0x04]) },
+        { ...objectName, data: utf8(metadata.title) },
+        ...metadata.keywords.map(keyword => ({ ...keywords, data: utf8(keyword) })),
+        { ...captionAbstract, data: utf8(metadata.description) },
+        ...kept.filter(dataSet => dataSet.record !== 1),
+    ];
+    if (metadata.credit) {
+        dataSets.push({ ...credit, data: utf8(metadata.credit) });
+    }
+    return serializeDataSets(dataSets);
+}
+
+/**
+ * Reads the caption fields back out of an IPTC-IIM block, as UTF-8 when the
+ * block declares it and Latin-1 otherwise. Fields the block doesn't have are
+ * left out.
+ */
+export function readIptcMetadata(data: Buffer): Partial<CaptionMetadata> {
+    const dataSets = parseIptcDataSets(data);
+    const find = (wanted: { record: number, dataSet: number }) => dataSets.filter(dataSet =>
+        dataSet.record === wanted.record && dataSet.dataSet === wanted.dataSet);
+
+    const encoding = isUtf8(dataSets) ? 'utf8' : 'latin1';
+    const text = (wanted: { record: number, dataSet: number }) => find(wanted).map(dataSet => dataSet.data.toString(encoding));
+
+    const metadata: Partial<CaptionMetadata> = {};
+    const [title] = text(objectName);
+    const keywordList = text(keywords);
+    const [description] = text(captionAbstract);
+    const [creditLine] = text(credit);
+    if (title) { metadata.title = title; }
+    if (keywordList.length > 0) { metadata.keywords = keywordList; }
+    if (description) { metadata.description = description; }
+    if (creditLine) { metadata.credit = creditLine; }
+    return metadata;
+}
+
+/**
+ * Replaces the IPTC resource in a list of Photoshop image resources, updating
+ * the IPTC digest so readers don't treat the new block as stale.
+ */
+export function withIptcResource(resources: PhotoshopResource[], metadata: CaptionMetadata): PhotoshopResource[] {
+    const emptyName = Buffer.from([0, 0]);
+    const existing = resources.find(resource => resource.id === iptcResourceId);
+    const iptc = buildIptcData(metadata, existing?.data);
+    const digest = createHash('md5').update(iptc).digest();
+
+    const result = resources.filter(resource =>
+        resource.id !== iptcResourceId && resource.id !== iptcDigestResourceId);
+    result.push({ id: iptcResourceId, name: existing?.name || emptyName, data: iptc });
+    result.push({ id: iptcDigestResourceId, name: emptyName, data: digest });
+    return result;
+}
@@ -0,0 +1,209 @@
+import { buildXmpPacket, CaptionMetadata, parseXmpPacket } from './xmp';
+import { UnsupportedFileError } from './errors';
+import { readExifDateTimeOriginal } from './exif';
+import {
+    iptcResourceId,
+    parsePhotoshopResources,
+    readIptcMetadata,
+    serializePhotoshopResources,
+    withIptcResource
+} from './iptc';
+
+interface Segment {
+    marker: number;     // The second byte of the marker - 0xE1 for APP1
+    data: Buffer;       // The segment payload, without the marker and length
+}
+
+const startOfImage = 0xD8;
+const startOfScan = 0xDA;
+const app0 = 0xE0;
+const app1 = 0xE1;
+const app13 = 0xED;
+
+const xmpSignature = 'http://ns.adobe.com/xap/1.0/\0';
+const extendedXmpSignature = 'http://ns.adobe.com/xmp/extension/\0';
+const exifSignature = 'Exif\0\0';
+const photoshopSignature = 'Photoshop 3.0\0';
+const maxSegmentLength = 0xFFFF - 2;
+
+export interface JpegStructure {
+    segments: Segment[];    // Every segment between the start of image and the start of scan
+    scan: Buffer;           // Everything from the start of scan marker to the end of the file
+}
+
+function hasSignature(segment: Segment, signature: string): boolean {
+    return segment.data.toString('latin1', 0, signature.length) === signature;
+}
+
+function isStandalone(marker: number): boolean {
+    return marker === 0x01 || (marker >= 0xD0 && marker <= 0xD7);
+}
+
+/**
+ * Splits a JPEG into its header segments and the image data. Throws an
+ * `UnsupportedFileError` when the file isn't a well-formed JPEG.
+ */
+export function parseJpeg(buffer: Buffer): JpegStructure {
+    if (buffer.length < 4 || buffer[0] !== 0xFF || buffer[1] !== startOfImage) {
+        throw new UnsupportedFileError('The file does not start with a JPEG start of image marker.');
+    }
+
+    const segments: Segment[] = [];
+    let offset = 2;
+    while (offset < buffer.length) {
+        if (buffer[offset] !== 0xFF) {
+            throw new UnsupportedFileError(`Expected a JPEG marker at byte ${offset}.`);
+        }
+        const marker = buffer[offset + 1];
+        if (marker === 0xFF) {
+            // Fill bytes may precede a marker
+            offset++;
+            continue;
+        }
+        if (marker === startOfScan) {
+            return { segments, scan: buffer.subarray(offset) };
+        }
+        if (isStandalone(marker)) {
+            segments.push({ marker, data: Buffer.alloc(0) });
+            offset += 2;
+            continue;
+        }
+        if (offset + 4 > buffer.length) { break; }
+
+        const length = buffer.readUInt16BE(offset + 2);
+        if (length < 2 || offset + 2 + length > buffer.length) {
+            throw new UnsupportedFileError(`The JPEG segment at byte ${offset} runs past the end of the file.`);
+        }
+        segments.push({ marker, data: buffer.subarray(offset + 4, offset + 2 + length) });
+        offset += 2 + length;
+    }
+    throw new UnsupportedFileError('The JPEG has no image data.');
+}
+
+export function serializeJpeg(structure: JpegStructure): Buffer {
+    const parts: Buffer[] = [Buffer.from([0xFF, startOfImage])];
+    for (const { marker, data } of structure.segments) {
+        if (isStandalone(marker)) {
+            parts.push(Buffer.from([0xFF, marker]));
+            continue;
+        }
+        if (data.length > maxSegmentLength) {
+            throw new UnsupportedFileError(`A JPEG segment can hold at most ${maxSegmentLength} bytes, found ${data.length}.`);
+        }
+        const header = Buffer.from([0xFF, marker, 0, 0]);
+        header.writeUInt16BE(data.length + 2, 2);
+        parts.push(header, data);
+    }
+    parts.push(structure.scan);
+    return Buffer.concat(parts);
+}
+
+export function findXmpPacket(structure: JpegStructure): string | undefined {
+    const segment = structure.segments.find(segment =>
+        segment.marker === app1 && hasSignature(segment, xmpSignature));
+    return segment?.data.toString('utf8', xmpSignature.length);
+}
+
+// The GUID of the extended XMP a packet links to, from its xmpNote:HasExtendedXMP property
+const extendedXmpGuidPattern = /xmpNote:HasExtendedXMP\s*=\s*["']([0-9A-Fa-f]{32})["']|<xmpNote:HasExtendedXMP>([0-9A-Fa-f]{32})</;
+
+function extendedXmpGuid(packet: string): string | undefined {
+    const match = extendedXmpGuidPattern.exec(packet);
+    return match ? match[1] || match[2] : undefined;
+}
+
+// The packet without its link to the extended XMP that's removed along with it
+function withoutExtendedXmpLink(packet: string): string {
+    return packet
+        .replace(/\s*xmpNote:HasExtendedXMP\s*=\s*["'][0-9A-Fa-f]{32}["']/g, '')
+        .replace(/\s*<xmpNote:HasExtendedXMP>[0-9A-Fa-f]{32}<\/xmpNote:HasExtendedXMP>/g, '');
+}
+
+// Extended XMP segments start with the GUID of the packet they extend
+function isExtendedXmpOf(segment: Segment, guid: string): boolean {
+    return segment.marker === app1 && hasSignature(segment, extendedXmpSignature) &&
+        segment.data.toString('latin1', extendedXmpSignature.length, extendedXmpSignature.length + guid.length) === guid;
+}
+
+/**
+ * When the photo was taken, from the Exif DateTimeOriginal tag, or `undefined`
+ * when the JPEG has no Exif block or the tag isn't in it.
+ */
+export function readJpegCaptureTime(buffer: Buffer): Date | undefined {
+    const structure = parseJpeg(buffer);
+    const segment = structure.segments.find(segment =>
+        segment.marker === app1 && hasSignature(segment, exifSignature));
+    return segment && readExifDateTimeOriginal(segment.data.subarray(exifSignature.length));
+}
+
+/**
+ * Reads the caption fields `writeJpegMetadata` embeds in a JPEG, each from the
+ * XMP packet when it has it and the IPTC block otherwise. Returns `undefined`
+ * when the JPEG has neither, as the other tags aren't ones we write.
+ */
+export function readJpegMetadata(buffer: Buffer): Partial<CaptionMetadata> | undefined {
+    const structure = parseJpeg(buffer);
+
+    const photoshopSegment = structure.segments.find(segment =>
+        segment.marker === app13 && hasSignature(segment, photoshopSignature));
+    const iptc = photoshopSegment && parsePhotoshopResources(photoshopSegment.data.subarray(photoshopSignature.length))
+        .find(resource => resource.id === iptcResourceId);
+    const packet = findXmpPacket(structure);
+
+    const metadata: Partial<CaptionMetadata> = {
+        ...(iptc ? readIptcMetadata(iptc.data) : {}),
+        ...(packet !== undefined ? parseXmpPacket(packet) : {}),
+    };
+    return Object.keys(metadata).length > 0 ? metadata : undefined;
+}
+
+/**
+ * Returns a copy of the JPEG with the caption metadata written to its XMP and
+ * IPTC blocks. Other metadata and the image data itself are left untouched.
+ */
+export function writeJpegMetadata(buffer: Buffer, metadata: CaptionMetadata): Buffer {
+    const structure = parseJpeg(buffer);
+
+    const packet = findXmpPacket(structure);
+    const guid = packet !== undefined ? extendedXmpGuid(packet) : undefined;
+    const xmp = Buffer.concat([
+        Buffer.from(xmpSignature, 'latin1'),
+        Buffer.from(buildXmpPacket(metadata, packet !== undefined ? withoutExtendedXmpLink(packet) : undefined), 'utf8'),
+    ]);
+
+    const photoshopSegment = structure.segments.find(segment =>
+        segment.marker === app13 && hasSignature(segment, photoshopSignature));
+    const resources = photoshopSegment
+        ? parsePhotoshopResources(photoshopSegment.data.subarray(photoshopSignature.length))
+        : [];
+    const photoshop = Buffer.concat([
+        Buffer.from(photoshopSignature, 'latin1'),
+        serializePhotoshopResources(withIptcResource(resources, metadata)),
+    ]);
+
+    // Only the extended XMP of the packet being replaced goes with it, other tools' blocks stay
+    const segments = structure.segments.filter(segment =>
+        !(segment.marker === app1 && hasSignature(segment, xmpSignature)) &&
+        !(guid && isExtendedXmpOf(segment, guid)) &&
+        segment !== photoshopSegment);
+
+    // XMP and IPTC go right after the JFIF and Exif headers
+    let insertAt = 0;
+    while (
+        insertAt < segments.length &&
+        (segments[insertAt].marker === app0 ||
+            (segments[insertAt].marker === app1 && hasSignature(segments[insertAt], exifSignature)))
+    ) {
+        insertAt++;
+    }
+    segments.splice(insertAt, 0, { marker: app1, data: xmp }, { marker: app13, data: photoshop });
+
+    const result = serializeJpeg({ segments, scan: structure.scan });
+
+    // Make sure what we're about to hand back still parses and kept the image intact
+    const written = parseJpeg(result);
+    if (!written.scan.equals(structure.scan)) {
+        throw new Error('The image data changed while writing metadata.');
+    }
+    return result;
+}
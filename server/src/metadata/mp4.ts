@@ -0,0 +1,218 @@
+import * as fs from 'fs';
+import { buildXmpPacket, CaptionMetadata, parseXmpPacket } from './xmp';
+import { UnsupportedFileError } from './errors';
+
+interface Box {
+    type: string;           // The four character box type - "moov"
+    start: number;          // Offset of the box header in the file
+    size: number;           // Size of the whole box, including its header
+    headerLength: number;   // 8, 16 with a 64-bit size, plus 16 for a "uuid" box
+    extendsToEnd: boolean;  // Whether the box declared a size of 0
+    uuid?: string;          // The extended type of a "uuid" box, as lowercase hex
+}
+
+// The extended type of the box Adobe defines for XMP in ISO base media files
+const xmpUuid = 'be7acfcb97a942e89c71999491e3afac';
+
+// Seconds from the MP4 epoch, January 1, 1904 UTC, to the Unix one
+const mp4EpochOffset = 2082844800;
+
+function isXmpBox(box: Box): boolean {
+    return box.type === 'uuid' && box.uuid === xmpUuid;
+}
+
+// Videos can be larger than a Buffer, so only the parts that are needed are read
+async function readBytes(handle: fs.promises.FileHandle, position: number, length: number): Promise<Buffer> {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, position);
+    return buffer.subarray(0, bytesRead);
+}
+
+async function withFile<T>(file: string, flags: string, use: (handle: fs.promises.FileHandle) => Promise<T>): Promise<T> {
+    const handle = await fs.promises.open(file, flags);
+    try {
+        return await use(handle);
+    } finally {
+        await handle.close();
+    }
+}
+
+/**
+ * Lists the boxes from `start` to `end` of an MP4 file, reading only their
+ * headers. Throws an `UnsupportedFileError` when the boxes don't add up to
+ * that part of the file.
+ */
+export async function readMp4Boxes(handle: fs.promises.FileHandle, start: number, end: number): Promise<Box[]> {
+    const boxes: Box[] = [];
+    let offset = start;
+    while (offset < end) {
+        if (offset + 8 > end) {
+            throw new UnsupportedFileError(`The MP4 has ${end - offset} trailing bytes that aren't a box.`);
+        }
+
+        // The largest header is a 64-bit size and a "uuid" extended type
+        const header = await readBytes(handle, offset, Math.min(32, end - offset));
+        let size = header.readUInt32BE(0);
+        const type = header.toString('latin1', 4, 8);
+        let headerLength = 8;
+        const extendsToEnd = size === 0;
+        if (size === 1) {
+            if (header.length < 16) {
+                throw new UnsupportedFileError(`The "${type}" box at byte ${offset} runs past the end of the file.`);
+            }
+            const largeSize = header.readBigUInt64BE(8);
+            if (largeSize > BigInt(Number.MAX_SAFE_INTEGER)) {
+                throw new UnsupportedFileError(`The "${type}" box is too large to process.`);
+            }
+            size = Number(largeSize);
+            headerLength = 16;
+        } else if (extendsToEnd) {
+            size = end - offset;
+        }
+
+        const box: Box = { type, start: offset, size, headerLength, extendsToEnd };
+        if (type === 'uuid') {
+            if (header.length < headerLength + 16) {
+                throw new UnsupportedFileError(`The "${type}" box at byte ${offset} runs past the end of the file.`);
+            }
+            box.uuid = header.toString('hex', headerLength, headerLength + 16);
+            box.headerLength += 16;
+        }
+        if (size < box.headerLength || offset + size > end) {
+            throw new UnsupportedFileError(`The "${type}" box at byte ${offset} runs past the end of the file.`);
+        }
+        boxes.push(box);
+        offset += size;
+    }
+    return boxes;
+}
+
+async function readTopLevelBoxes(handle: fs.promises.FileHandle): Promise<Box[]> {
+    const boxes = await readMp4Boxes(handle, 0, (await handle.stat()).size);
+    if (boxes.length === 0 || boxes[0].type !== 'ftyp') {
+        throw new UnsupportedFileError('The file does not start with an MP4 "ftyp" box.');
+    }
+    if (!boxes.some(box => box.type === 'moov')) {
+        throw new UnsupportedFileError('The MP4 has no "moov" box.');
+    }
+    return boxes;
+}
+
+function xmpBox(packet: string): Buffer {
+    const data = Buffer.from(packet, 'utf8');
+    const header = Buffer.alloc(24);
+    header.writeUInt32BE(header.length + data.length, 0);
+    header.write('uuid', 4, 'latin1');
+    header.write(xmpUuid, 8, 'hex');
+    return Buffer.concat([header, data]);
+}
+
+async function readXmpPacket(handle: fs.promises.FileHandle, boxes: Box[]): Promise<string | undefined> {
+    const box = boxes.filter(isXmpBox).pop();
+    if (!box) { return; }
+    return (await readBytes(handle, box.start + box.headerLength, box.size - box.headerLength)).toString('utf8');
+}
+
+/**
+ * Reads the caption metadata from the XMP box of an MP4, or `undefined` when
+ * it has none.
+ */
+export function readMp4Metadata(file: string): Promise<Partial<CaptionMetadata> | undefined> {
+    return withFile(file, 'r', async handle => {
+        const packet = await readXmpPacket(handle, await readTopLevelBoxes(handle));
+        return packet === undefined ? undefined : parseXmpPacket(packet);
+    });
+}
+
+/**
+ * When the video was recorded, from the creation time in its "mvhd" box, or
+ * `undefined` when the camera left it at zero.
+ */
+export function readMp4CreationTime(file: string): Promise<Date | undefined> {
+    return withFile(file, 'r', async handle => {
+        const moov = (await readTopLevelBoxes(handle)).find(box => box.type === 'moov')!;
+        const children = await readMp4Boxes(handle, moov.start + moov.headerLength, moov.start + moov.size);
+        const mvhd = children.find(box => box.type === 'mvhd');
+        if (!mvhd) {
+            throw new UnsupportedFileError('The MP4 has no "mvhd" box.');
+        }
+
+        // A version and flags, then the creation time in seconds, 64 bits wide in version 1
+        const data = await readBytes(handle, mvhd.start + mvhd.headerLength, Math.min(12, mvhd.size - mvhd.headerLength));
+        const version = data[0];
+        if (data.length < (version === 1 ? 12 : 8)) {
+            throw new UnsupportedFileError('The "mvhd" box is too short to hold a creation time.');
+        }
+        const seconds = version === 1 ? Number(data.readBigUInt64BE(4)) : data.readUInt32BE(4);
+        if (seconds === 0) { return; }
+        return new Date((seconds - mp4EpochOffset) * 1000);
+    });
+}
+
+function sameMetadata(expected: CaptionMetadata, actual: Partial<CaptionMetadata> | undefined): boolean {
+    return !!actual &&
+        actual.title === expected.title &&
+        actual.description === expected.description &&
+        actual.credit === expected.credit &&
+        JSON.stringify(actual.keywords) === JSON.stringify(expected.keywords);
+}
+
+function sameBoxes(a: Box[], b: Box[]): boolean {
+    return a.length === b.length &&
+        a.every((box, i) => box.type === b[i].type && box.start === b[i].start && box.size === b[i].size);
+}
+
+/**
+ * Checks that an MP4 can take the caption metadata and returns the function
+ * that writes it, in an XMP "uuid" box at the end of the file. The file is
+ * patched in place rather than read into memory, and no existing box moves,
+ * so the chunk offsets into the media data stay valid. An older XMP box is
+ * turned into a "free" box of the same size unless it's the last box, in
+ * which case it's replaced.
+ */
+export async function prepareMp4Metadata(file: string, metadata: CaptionMetadata): Promise<() => Promise<void>> {
+    const [boxes, existingPacket] = await withFile(file, 'r', async handle => {
+        const boxes = await readTopLevelBoxes(handle);
+        return [boxes, await readXmpPacket(handle, boxes)] as const;
+    });
+
+    const packet = xmpBox(buildXmpPacket(metadata, existingPacket));
+    const last = boxes[boxes.length - 1];
+    const replacesLast = isXmpBox(last);
+    const tail = replacesLast ? boxes[boxes.length - 2] : last;
+    if (tail.extendsToEnd && tail.size > 0xFFFFFFFF) {
+        throw new UnsupportedFileError(`The last "${tail.type}" box has no size and is too large to give it one.`);
+    }
+    const appendAt = replacesLast ? last.start : last.start + last.size;
+
+    return () => withFile(file, 'r+', async handle => {
+        if (!sameBoxes(boxes, await readTopLevelBoxes(handle))) {
+            throw new Error('The MP4 changed while writing metadata.');
+        }
+
+        if (tail.extendsToEnd) {
+            const size = Buffer.alloc(4);
+            size.writeUInt32BE(tail.size, 0);
+            await handle.write(size, 0, size.length, tail.start);
+        }
+        await handle.write(packet, 0, packet.length, appendAt);
+        await handle.truncate(appendAt + packet.length);
+        for (const box of boxes) {
+            if (box === last || !isXmpBox(box)) { continue; }
+            // Keep the size and header layout, only the type changes
+            await handle.write(Buffer.from('free', 'latin1'), 0, 4, box.start + 4);
+        }
+
+        // Make sure every original box is still where it was and reads back what we wrote
+        const written = await readTopLevelBoxes(handle);
+        for (const box of boxes) {
+            if (isXmpBox(box)) { continue; }
+            if (!written.some(other => other.type === box.type && other.start === box.start && other.size === box.size)) {
+                throw new Error(`The "${box.type}" box changed while writing metadata.`);
+            }
+        }
+        if (!sameMetadata(metadata, parseXmpPacket(await readXmpPacket(handle, written) || ''))) {
+            throw new Error('The metadata read back from the MP4 does not match what was written.');
+        }
+    });
+}
@@ -0,0 +1,128 @@
+// The fields a caption contributes to an image's embedded metadata.
+export interface CaptionMetadata {
+    title: string;          // The VIRIN - "yymmdd-A-AB123-0000"
+    keywords: string[];     // Base keywords followed by the image keywords
+    description: string;    // The description without its trailing backslash
+    credit?: string;        // The attribution without parentheses - "U.S. Air Force photo by John Smith"
+}
+
+const packetHeader = '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>';
+const packetTrailer = '<?xpacket end="w"?>';
+
+// The properties written by `buildXmpPacket`, removed from existing packets before merging
+const ownedProperties = ['dc:title', 'dc:subject', 'dc:description', 'photoshop:Credit'];
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function buildDescription(metadata: CaptionMetadata): string {
+    const lines = [
+        '  <rdf:Description rdf:about=""',
+        '    xmlns:dc="http://purl.org/dc/elements/1.1/"',
+        '    xmlns:photoshop="http://ns.adobe.com/photoshop/1.0/">',
+        '   <dc:title>',
+        '    <rdf:Alt>',
+        `     <rdf:li xml:lang="x-default">${escapeXml(metadata.title)}</rdf:li>`,
+        '    </rdf:Alt>',
+        '   </dc:title>',
+        '   <dc:subject>',
+        '    <rdf:Bag>',
+        ...metadata.keywords.map(keyword => `     <rdf:li>${escapeXml(keyword)}</rdf:li>`),
+        '    </rdf:Bag>',
+        '   </dc:subject>',
+        '   <dc:description>',
+        '    <rdf:Alt>',
+        `     <rdf:li xml:lang="x-default">${escapeXml(metadata.description)}</rdf:li>`,
+        '    </rdf:Alt>',
+        '   </dc:description>',
+    ];
+    if (metadata.credit) {
+        lines.push(`   <photoshop:Credit>${escapeXml(metadata.credit)}</photoshop:Credit>`);
+    }
+    lines.push('  </rdf:Description>');
+    return lines.join('\n');
+}
+
+function removeOwnedProperties(packet: string): string {
+    for (const property of ownedProperties) {
+        const element = new RegExp(`\\s*<${property}\\b[^>]*?(?:/>|>[\\s\\S]*?</${property}>)`, 'g');
+        const attribute = new RegExp(`\\s+${property}="[^"]*"`, 'g');
+        packet = packet.replace(element, '').replace(attribute, '');
+    }
+    // Drop descriptions left empty, like the one a previous run wrote
+    return packet.replace(/\s*<rdf:Description\b[^>]*>\s*<\/rdf:Description>/g, '');
+}
+
+/**
+ * Builds an XMP packet holding the caption metadata. When an existing packet
+ * is given, its other properties are kept and only the caption fields are
+ * replaced.
+ */
+export function buildXmpPacket(metadata: CaptionMetadata, existingPacket?: string): string {
+    const description = buildDescription(metadata);
+
+    if (existingPacket && existingPacket.includes('</rdf:RDF>')) {
+        const body = removeOwnedProperties(existingPacket);
+        return body.replace(/\s*<\/rdf:RDF>/, `\n${description}\n </rdf:RDF>`);
+    }
+
+    return [
+        packetHeader,
+        '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+        ' <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+        description,
+        ' </rdf:RDF>',
+        '</x:xmpmeta>',
+        packetTrailer,
+    ].join('\n');
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(Number(decimal)))
+        .replace(/&amp;/g, '&');
+}
+
+function readProperty(packet: string, property: string): string[] | undefined {
+    const attribute = new RegExp(`\\s${property}="([^"]*)"`).exec(packet);
+    if (attribute) { return [unescapeXml(attribute[1])]; }
+
+    const element = new RegExp(`<${property}\\b[^>]*?(?:/>|>([\\s\\S]*?)</${property}>)`).exec(packet);
+    if (!element) { return; }
+
+    const content = element[1] || '';
+    const items = [...content.matchAll(/<rdf:li\b[^>]*?(?:\/>|>([\s\S]*?)<\/rdf:li>)/g)];
+    if (items.length === 0) {
+        // An empty container is an empty list, anything else is a simple value
+        return /<rdf:(?:Alt|Bag|Seq)\b/.test(content) ? [] : [unescapeXml(content.trim())];
+    }
+    return items.map(item => unescapeXml(item[1] || ''));
+}
+
+/**
+ * Reads the caption fields back out of an XMP packet. Fields the packet
+ * doesn't have are left out.
+ */
+export function parseXmpPacket(packet: string): Partial<CaptionMetadata> {
+    const metadata: Partial<CaptionMetadata> = {};
+    const title = readProperty(packet, 'dc:title');
+    const keywords = readProperty(packet, 'dc:subject');
+    const description = readProperty(packet, 'dc:description');
+    const credit = readProperty(packet, 'photoshop:Credit');
+
+    if (title) { metadata.title = title[0]; }
+    if (keywords) { metadata.keywords = keywords; }
+    if (description) { metadata.description = description[0]; }
+    if (credit) { metadata.credit = credit[0]; }
+    return metadata;
+}
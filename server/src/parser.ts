@@ -0,0 +1,319 @@
+import { Range } from 'vscode-languageserver-textdocument';
+
+// A piece of the source document along with where it came from.
+export interface Span {
+    text: string;       // The text of the span, without the line break
+    offset: number;     // Offset of the first character in the document
+    range: Range;       // Range of the span in the document
+}
+
+// The fields of a caption sheet in the order the parser expects them.
+export type SheetField =
+    'headline' |
+    'byline' |
+    'baseKeywords' |
+    'imageTag' |
+    'keywords' |
+    'title' |
+    'description';
+
+export interface SheetLine extends Span {
+    line: number;           // Zero-based line number
+    expected: SheetField;   // The field the parser was looking for when it reached this line
+    accepted: boolean;      // Whether the line was taken as that field
+    directive?: Directive;  // Set on suppression comments, which aren't fields at all
+}
+
+export type DirectiveKind = 'disable-next-line' | 'disable' | 'enable' | 'disable-file';
+
+// A suppression comment - "<!-- captions-disable-next-line double-punctuation -->"
+export interface Directive extends Span {
+    kind: DirectiveKind;
+    rules: Span[];          // The rule IDs it names, none meaning every rule
+}
+
+export interface KeywordList extends Span {
+    keywords: Span[];       // Each keyword, trimmed and without its ";"
+    unterminated?: Span;    // Trailing text that is missing its ";"
+}
+
+export interface ImageTag extends Span {
+    path: Span;             // Everything between "<" and ">" - "path/to/image.jpg"
+    directory?: Span;       // The path up to and including the last "/" - "path/to/"
+    filename: Span;         // The file name without its extension - "image"
+    extension?: Span;       // The extension, including the dot - ".jpg"
+    trailing?: Span;        // Anything after the closing ")"
+}
+
+export interface Title extends Span {
+    virin?: Span;           // The VIRIN at the start of the title - "yymmdd-A-AB123-0000"
+}
+
+export interface Description extends Span {
+    attribution?: Span;     // The trailing credit, including parentheses - "(Photo by John Smith)"
+}
+
+export interface CaptionBlock {
+    index: number;                  // The offset of the first line of the block
+    range: Range;                   // From the first line of the block to the end of its last line
+    lines: SheetLine[];             // Every line of the block, including leading blank lines
+    hasLeadingBlankLine: boolean;   // Whether the block is separated from the one before it
+    imageTag?: ImageTag;
+    keywords?: KeywordList;
+    title?: Title;
+    description?: Description;
+}
+
+export interface CaptionSheet {
+    lines: SheetLine[];
+    lineBreak: string;          // "\r\n" for sheets saved with CRLF line endings, "\n" otherwise
+    directives: Directive[];
+    headline?: Span;
+    byline?: Span;
+    baseKeywords?: KeywordList;
+    captions: CaptionBlock[];   // The last block may be incomplete, see `isCompleteCaption`
+}
+
+// Anything shaped like a VIRIN. Which service letters and unit IDs are allowed is up to the schema.
+export const virinPattern = /\d{6}-[A-Z0-9]+-[A-Za-z0-9]+-\d{4}/;
+
+const blankLinePattern = /^\s*$/;
+const imageTagPattern = /^!\[\]\(\<(.+)>\)(.*)$/;
+const keywordsPattern = /^(Keywords:)(\s*)(.+;)?/;
+const titlePattern = /^\d+-.+-\d+/;
+const attributionPattern = /\([^()]*(?:[Pp]hoto|[Vv]ideo)[^()]*\)(?=\\?\s*$)/;
+const directivePattern = /^(\s*<!--\s*captions-(disable-next-line|disable-file|disable|enable)\b)(.*?)-->\s*$/;
+
+export function isBlankLine(text: string): boolean {
+    return blankLinePattern.test(text);
+}
+
+export function isCompleteCaption(block: CaptionBlock): boolean {
+    return !!block.imageTag && !!block.keywords && !!block.title && !!block.description;
+}
+
+function span(line: SheetLine, start: number, end: number): Span {
+    return {
+        text: line.text.substring(start, end),
+        offset: line.offset + start,
+        range: {
+            start: { line: line.line, character: start },
+            end: { line: line.line, character: end }
+        }
+    };
+}
+
+function parseKeywordList(line: SheetLine): KeywordList | undefined {
+    const match = keywordsPattern.exec(line.text);
+    if (!match) { return; }
+
+    const keywords: Span[] = [];
+    const listStart = match[1].length + match[2].length;
+    const list = match[3] || '';
+    let start = listStart;
+    for (const keyword of list.split(';')) {
+        const leading = keyword.length - keyword.trimStart().length;
+        const trimmed = keyword.trim();
+        if (trimmed.length > 0) {
+            keywords.push(span(line, start + leading, start + leading + trimmed.length));
+        }
+        start += keyword.length + 1;
+    }
+
+    const result: KeywordList = { ...span(line, 0, line.text.length), keywords };
+    const rest = line.text.substring(listStart + list.length);
+    if (rest.trim().length > 0) {
+        const restStart = listStart + list.length + rest.length - rest.trimStart().length;
+        result.unterminated = span(line, restStart, restStart + rest.trim().length);
+    }
+    return result;
+}
+
+function parseImageTag(line: SheetLine): ImageTag | undefined {
+    const match = imageTagPattern.exec(line.text);
+    if (!match) { return; }
+
+    const pathStart = '![](<'.length;
+    const path = match[1];
+    const nameStart = path.lastIndexOf('/') + 1;
+    const extensionStart = path.lastIndexOf('.');
+    const nameEnd = extensionStart > nameStart ? extensionStart : path.length;
+
+    const result: ImageTag = {
+        ...span(line, 0, line.text.length),
+        path: span(line, pathStart, pathStart + path.length),
+        filename: span(line, pathStart + nameStart, pathStart + nameEnd),
+    };
+    if (nameStart > 0) {
+        result.directory = span(line, pathStart, pathStart + nameStart);
+    }
+    if (nameEnd < path.length) {
+        result.extension = span(line, pathStart + nameEnd, pathStart + path.length);
+    }
+    if (match[2].length > 0) {
+        const trailingStart = line.text.length - match[2].length;
+        result.trailing = span(line, trailingStart, line.text.length);
+    }
+    return result;
+}
+
+function parseTitle(line: SheetLine): Title | undefined {
+    if (!titlePattern.test(line.text)) { return; }
+
+    const result: Title = span(line, 0, line.text.length);
+    const match = new RegExp(`^${virinPattern.source}`).exec(line.text);
+    if (match) {
+        result.virin = span(line, 0, match[0].length);
+    }
+    return result;
+}
+
+function parseDescription(line: SheetLine): Description {
+    const result: Description = span(line, 0, line.text.length);
+    const match = attributionPattern.exec(line.text);
+    if (match) {
+        result.attribution = span(line, match.index, match.index + match[0].length);
+    }
+    return result;
+}
+
+function parseDirective(line: SheetLine): Directive | undefined {
+    const match = directivePattern.exec(line.text);
+    if (!match) { return; }
+
+    const rules: Span[] = [];
+    for (const rule of match[3].matchAll(/[^\s,]+/g)) {
+        const start = match[1].length + rule.index!;
+        rules.push(span(line, start, start + rule[0].length));
+    }
+    return { ...span(line, 0, line.text.trimEnd().length), kind: match[2] as DirectiveKind, rules };
+}
+
+function newCaptionBlock(line: SheetLine): CaptionBlock {
+    return {
+        index: line.offset,
+        range: { start: line.range.start, end: line.range.end },
+        lines: [],
+        hasLeadingBlankLine: false,
+    };
+}
+
+function nextCaptionField(block: CaptionBlock): SheetField {
+    if (!block.imageTag) { return 'imageTag'; }
+    if (!block.keywords) { return 'keywords'; }
+    if (!block.title) { return 'title'; }
+    return 'description';
+}
+
+/**
+ * Parses a caption sheet into its headline, byline, base keywords and captions.
+ *
+ * The parser never fails. Lines that don't fit the field it expects next are
+ * recorded in `lines` with `accepted: false` and the parser keeps looking for
+ * that field on the following line, which is what the validator reports on.
+ */
+export function parseCaptionSheet(text: string): CaptionSheet {
+    const sheet: CaptionSheet = { lines: [], lineBreak: text.includes('\r\n') ? '\r\n' : '\n', directives: [], captions: [] };
+    let block: CaptionBlock | undefined;
+    let offset = 0;
+
+    for (const [lineNumber, rawLine] of text.split('\n').entries()) {
+        // Sheets saved on Windows end their lines in CRLF, which isn't part of the line
+        const lineText = rawLine.replace(/\r$/, '');
+        const line: SheetLine = {
+            text: lineText,
+            offset,
+            range: {
+                start: { line: lineNumber, character: 0 },
+                end: { line: lineNumber, character: lineText.length }
+            },
+            line: lineNumber,
+            expected: 'headline',
+            accepted: false,
+        };
+        offset += rawLine.length + 1;
+        sheet.lines.push(line);
+
+        // Suppression comments go with the caption they're in but are otherwise skipped
+        const directive = parseDirective(line);
+        if (directive) {
+            line.directive = directive;
+            sheet.directives.push(directive);
+            if (block) {
+                line.expected = nextCaptionField(block);
+                block.lines.push(line);
+                block.range.end = line.range.end;
+            } else if (sheet.baseKeywords) {
+                block = newCaptionBlock(line);
+                sheet.captions.push(block);
+                line.expected = 'imageTag';
+                block.lines.push(line);
+            }
+            continue;
+        }
+
+        const isBlank = isBlankLine(lineText);
+        if (!sheet.headline) {
+            if (lineText !== '') {
+                line.accepted = true;
+                sheet.headline = span(line, 0, lineText.length);
+            }
+            continue;
+        }
+        if (!sheet.byline) {
+            line.expected = 'byline';
+            if (!isBlank) {
+                line.accepted = true;
+                sheet.byline = span(line, 0, lineText.length);
+            }
+            continue;
+        }
+        if (!sheet.baseKeywords) {
+            line.expected = 'baseKeywords';
+            if (!isBlank) {
+                sheet.baseKeywords = parseKeywordList(line);
+                line.accepted = !!sheet.baseKeywords;
+            }
+            continue;
+        }
+
+        if (!block) {
+            block = newCaptionBlock(line);
+            sheet.captions.push(block);
+        }
+        block.lines.push(line);
+        block.range.end = line.range.end;
+        line.expected = nextCaptionField(block);
+
+        if (isBlank) {
+            block.hasLeadingBlankLine = true;
+            continue;
+        }
+
+        switch (line.expected) {
+            case 'imageTag':
+                block.imageTag = parseImageTag(line);
+                line.accepted = !!block.imageTag;
+                break;
+            case 'keywords':
+                block.keywords = parseKeywordList(line);
+                line.accepted = !!block.keywords;
+                break;
+            case 'title':
+                block.title = parseTitle(line);
+                line.accepted = !!block.title;
+                break;
+            case 'description':
+                block.description = parseDescription(line);
+                line.accepted = true;
+                block = undefined;
+                break;
+        }
+    }
+
+    // Blank lines after the last caption don't start a new one
+    if (block && !block.imageTag) {
+        sheet.captions.pop();
+    }
+    return sheet;
+}
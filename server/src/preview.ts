@@ -0,0 +1,63 @@
+import * as path from 'path';
+import { Range } from 'vscode-languageserver';
+import { CaptionBlock, parseCaptionSheet } from './parser';
+
+// Extensions shown with a video player rather than an image
+const videoExtensions = ['.mp4', '.mov'];
+
+// A caption as the preview shows it, each field left out when the caption doesn't have it yet
+export interface PreviewCaption {
+    range: Range;           // The whole caption block, for scrolling and placing diagnostics
+    image?: string;         // Absolute path of the image, or the path as written for sheets not on disk
+    kind: 'photo' | 'video';
+    virin?: string;
+    keywords: string[];
+    description?: string;   // Without the attribution and trailing backslash
+    attribution?: string;   // Without parentheses - "U.S. Air Force photo by Jane Doe"
+}
+
+export interface PreviewSheet {
+    headline?: string;
+    byline?: string;
+    baseKeywords: string[];
+    captions: PreviewCaption[];
+}
+
+// A line as it reads in the preview, without the trailing backslash
+function withoutBackslash(text: string): string {
+    return text.replace(/\\?\s*$/, '');
+}
+
+function previewCaption(block: CaptionBlock, sheetPath?: string): PreviewCaption {
+    const imagePath = block.imageTag?.path.text;
+    const description = block.description;
+    const attribution = description?.attribution;
+    return {
+        range: block.range,
+        image: imagePath && sheetPath ? path.resolve(path.dirname(sheetPath), imagePath) : imagePath,
+        kind: imagePath && videoExtensions.includes(path.extname(imagePath).toLowerCase()) ? 'video' : 'photo',
+        virin: block.title?.virin?.text || (block.title && withoutBackslash(block.title.text)),
+        keywords: block.keywords?.keywords.map(keyword => keyword.text) || [],
+        description: description && withoutBackslash(attribution
+            ? description.text.substring(0, attribution.range.start.character)
+            : description.text).trim(),
+        attribution: attribution?.text.substring(1, attribution.text.length - 1).trim(),
+    };
+}
+
+/**
+ * What the caption preview shows of a sheet: its header and a card for each
+ * caption, with the caption's range so the preview and the editor can follow
+ * each other. Sheets with problems are shown as far as they parse.
+ */
+export function buildPreview(text: string, sheetPath?: string): PreviewSheet {
+    const sheet = parseCaptionSheet(text);
+    return {
+        headline: sheet.headline && withoutBackslash(sheet.headline.text),
+        byline: sheet.byline && withoutBackslash(sheet.byline.text).replace(/^By\s+/, ''),
+        baseKeywords: sheet.baseKeywords?.keywords.map(keyword => keyword.text) || [],
+        captions: sheet.captions
+            .filter(block => block.imageTag || block.keywords || block.title || block.description)
+            .map(block => previewCaption(block, sheetPath)),
+    };
+}
@@ -0,0 +1,156 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+    Position,
+    Range,
+    RenameFile,
+    TextDocumentEdit,
+    TextEdit,
+    WorkspaceEdit
+} from 'vscode-languageserver';
+import { CaptionBlock, CaptionSheet } from './parser';
+import { SheetSchema, defaultSchema, serviceHint, virinFormat, virinSource } from './schema';
+import { WorkspaceSheet } from './workspace';
+import { sheetKey } from './virinIndex';
+
+// What a rename at a position applies to: the VIRIN of a title or the filename of an image tag
+export interface RenameTarget {
+    block: CaptionBlock;
+    range: Range;
+    placeholder: string;
+}
+
+export interface RenameOptions {
+    canRenameFiles: boolean;                    // Whether the client applies rename resource operations
+    versionOf: (uri: string) => number | null;  // The version of open documents, null for sheets on disk
+}
+
+export class RenameError extends Error {}
+
+// A caption being renamed, in whichever sheet it is
+interface RenamedCaption {
+    uri: string;
+    block: CaptionBlock;
+}
+
+function contains(range: Range, position: Position): boolean {
+    const afterStart = position.line > range.start.line ||
+        (position.line === range.start.line && position.character >= range.start.character);
+    const beforeEnd = position.line < range.end.line ||
+        (position.line === range.end.line && position.character <= range.end.character);
+    return afterStart && beforeEnd;
+}
+
+function imageFile(block: CaptionBlock, uri: string): string | undefined {
+    const imagePath = block.imageTag?.path.text;
+    return imagePath && uri.startsWith('file:') ? path.resolve(path.dirname(fileURLToPath(uri)), imagePath) : undefined;
+}
+
+function location(uri: string, block: CaptionBlock): string {
+    return `${path.basename(sheetKey(uri))}, line ${block.range.start.line + 1}`;
+}
+
+// The VIRIN or image filename at a position, or `undefined` when there's nothing to rename there
+export function findRenameTarget(sheet: CaptionSheet, position: Position): RenameTarget | undefined {
+    for (const block of sheet.captions) {
+        const virin = block.title?.virin;
+        if (virin && contains(virin.range, position)) {
+            return { block, range: virin.range, placeholder: virin.text };
+        }
+        const filename = block.imageTag?.filename;
+        if (filename && contains(filename.range, position)) {
+            return { block, range: filename.range, placeholder: filename.text };
+        }
+    }
+}
+
+/**
+ * Renames the VIRIN of the caption at a position: its title, its image tag and
+ * the captions of other sheets with the same VIRIN or image, plus the image
+ * files themselves. Throws a `RenameError`, before anything is changed, when
+ * the new name isn't a VIRIN, another caption already has it, or a file by
+ * that name is already there.
+ */
+export function renameVirin(
+    uri: string,
+    sheet: CaptionSheet,
+    position: Position,
+    newName: string,
+    sheets: WorkspaceSheet[],
+    options: RenameOptions,
+    schema: SheetSchema = defaultSchema,
+): WorkspaceEdit {
+    const target = findRenameTarget(sheet, position);
+    if (!target) {
+        throw new RenameError('Only the VIRIN of a title or the filename of an image tag can be renamed.');
+    }
+    if (!new RegExp(`^${virinSource(schema)}$`).test(newName)) {
+        throw new RenameError(`Expected the new name to be of the format "${virinFormat(schema)}", found "${newName}". ${serviceHint(schema)}`);
+    }
+
+    const oldVirin = target.block.title?.virin?.text;
+    const oldFile = imageFile(target.block, uri);
+    const renamed: RenamedCaption[] = [{ uri, block: target.block }];
+    for (const other of sheets) {
+        if (sheetKey(other.uri) === sheetKey(uri)) { continue; }
+        for (const block of other.sheet.captions) {
+            const sameVirin = oldVirin !== undefined && block.title?.virin?.text === oldVirin;
+            const sameFile = oldFile !== undefined && imageFile(block, other.uri) === oldFile;
+            if (sameVirin || sameFile) {
+                renamed.push({ uri: other.uri, block });
+            }
+        }
+    }
+
+    // Every collision is found before anything is changed
+    const allSheets = sheets.some(other => sheetKey(other.uri) === sheetKey(uri))
+        ? sheets
+        : [...sheets, { uri, text: '', sheet }];
+    for (const other of allSheets) {
+        // The sheet being renamed in may have been parsed twice, so its captions are matched by line
+        const taken = other.sheet.captions.find(block => block.title?.virin?.text === newName &&
+            !renamed.some(caption => sheetKey(caption.uri) === sheetKey(other.uri) &&
+                caption.block.range.start.line === block.range.start.line));
+        if (taken) {
+            throw new RenameError(`${newName} is already the VIRIN of the caption in ${location(other.uri, taken)}.`);
+        }
+    }
+
+    const files = new Map<string, string>();
+    for (const { uri: sheetUri, block } of renamed) {
+        const file = imageFile(block, sheetUri);
+        if (!file || files.has(file) || !fs.existsSync(file)) { continue; }
+
+        const newFile = path.join(path.dirname(file), `${newName}${path.extname(file)}`);
+        if (newFile === file) { continue; }
+        if (fs.existsSync(newFile) || [...files.values()].includes(newFile)) {
+            throw new RenameError(`Can't rename ${path.basename(file)}, ${path.basename(newFile)} already exists in ${path.dirname(newFile)}.`);
+        }
+        files.set(file, newFile);
+    }
+    if (files.size > 0 && !options.canRenameFiles) {
+        throw new RenameError('The editor can\'t rename files, so the image would no longer match its VIRIN.');
+    }
+
+    const edits = new Map<string, TextEdit[]>();
+    for (const { uri: sheetUri, block } of renamed) {
+        const sheetEdits = edits.get(sheetUri) || [];
+        if (block.title?.virin) {
+            sheetEdits.push(TextEdit.replace(block.title.virin.range, newName));
+        }
+        if (block.imageTag) {
+            sheetEdits.push(TextEdit.replace(block.imageTag.filename.range, newName));
+        }
+        edits.set(sheetUri, sheetEdits);
+    }
+
+    return {
+        documentChanges: [
+            ...[...edits.entries()].map(([sheetUri, sheetEdits]) =>
+                TextDocumentEdit.create({ uri: sheetUri, version: options.versionOf(sheetUri) }, sheetEdits)),
+            ...[...files.entries()].map(([file, newFile]) =>
+                RenameFile.create(pathToFileURL(file).toString(), pathToFileURL(newFile).toString())),
+        ]
+    };
+}
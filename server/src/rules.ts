@@ -0,0 +1,84 @@
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+
+// What a rule can be set to in `markdownCaptionsLanguageServer.rules`
+export type RuleSetting = 'off' | 'error' | 'warning' | 'information' | 'hint';
+
+// The setting for each rule ID that isn't left at its default - { "double-punctuation": "off" }
+export interface RuleSettings {
+    [ruleId: string]: RuleSetting;
+}
+
+// Every rule the server reports, by the ID it puts in `Diagnostic.code`
+export const ruleIds = [
+    'headline-backslash',
+    'byline-position',
+    'byline-format',
+    'base-keywords-format',
+    'image-tag-format',
+    'image-tag-trailing-text',
+    'image-tag-invalid',
+    'image-extension',
+    'filename-format',
+    'filename-title-mismatch',
+    'keywords-format',
+    'keyword-semicolon',
+    'keyword-limit',
+    'title-format',
+    'title-backslash',
+    'title-date-invalid',
+    'date-missing',
+    'date-mismatch',
+    'date-future',
+    'date-weekday',
+    'month-style',
+    'description-backslash',
+    'attribution-missing',
+    'double-punctuation',
+    'abbreviation-style',
+    'abbreviation-unused',
+    'rank-service',
+    'state-style',
+    'blank-line-between-captions',
+    'caption-incomplete',
+    'duplicate-virin',
+    'image-missing',
+    'image-unreadable',
+    'image-type-mismatch',
+    'metadata-drift',
+    'sequence-duplicate',
+    'sequence-gap',
+    'sequence-order',
+    'mixed-dates',
+    'mixed-units',
+    'unused-suppression',
+];
+
+const severities: { [setting: string]: DiagnosticSeverity } = {
+    'error': DiagnosticSeverity.Error,
+    'warning': DiagnosticSeverity.Warning,
+    'information': DiagnosticSeverity.Information,
+    'hint': DiagnosticSeverity.Hint,
+};
+
+/**
+ * Drops the diagnostics of rules that are turned off, gives the rest the
+ * severity configured for their rule, and keeps at most `maxNumberOfProblems`.
+ */
+export function applyRuleSettings(
+    diagnostics: Diagnostic[],
+    rules: RuleSettings | undefined,
+    maxNumberOfProblems: number,
+): Diagnostic[] {
+    const result: Diagnostic[] = [];
+    for (const diagnostic of diagnostics) {
+        if (result.length >= maxNumberOfProblems) { break; }
+
+        const setting = rules?.[String(diagnostic.code)];
+        if (setting === 'off') { continue; }
+        if (setting && severities[setting]) {
+            diagnostic.severity = severities[setting];
+        }
+        result.push(diagnostic);
+    }
+    return result;
+}
@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * What a caption sheet is checked against. Offices with other limits or
+ * deliverables change the defaults through the
+ * `markdownCaptionsLanguageServer.schema` setting or a project config file.
+ */
+export interface SheetSchema {
+    maxKeywords: number;                    // The most keywords an image may have, base keywords included
+    extensions: string[];                   // The image file extensions allowed, with the dot - ".jpg"
+    services: { [letter: string]: string }; // The VIRIN service letters and what they stand for
+    unitPattern: string;                    // A regular expression for the unit or photographer ID
+    unitExample: string;                    // A unit ID matching `unitPattern`, shown in messages - "AB123"
+    centuryPivot: number;                   // VIRIN years below this are in the 2000s, the rest in the 1900s
+    warnFutureDates: boolean;               // Whether a VIRIN dated after today is reported
+}
+
+export const defaultSchema: SheetSchema = {
+    maxKeywords: 6,
+    extensions: ['.jpg', '.mp4'],
+    services: {
+        'A': 'Army',
+        'F': 'Air Force',
+        'G': 'Coast Guard',
+        'M': 'Marines',
+        'N': 'Navy',
+        'S': 'Space Force',
+        'X': 'Joint or civilian',
+    },
+    unitPattern: '[A-Z0-9]{5}',
+    unitExample: 'AB123',
+    centuryPivot: 70,
+    warnFutureDates: false,
+};
+
+// The project config file, looked for in the sheet's folder and every folder above it
+export const schemaFileName = 'markdown-captions.json';
+
+export class SchemaError extends Error {}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// ".jpg or .mp4", "A, F, or X"
+export function listOf(items: string[], conjunction: string): string {
+    if (items.length < 3) { return items.join(` ${conjunction} `); }
+    return `${items.slice(0, -1).join(', ')}, ${conjunction} ${items[items.length - 1]}`;
+}
+
+// The regular expression source matching a VIRIN the schema allows
+export function virinSource(schema: SheetSchema): string {
+    const services = Object.keys(schema.services).map(escapeRegExp).join('|');
+    return `\\d{6}-(?:${services})-(?:${schema.unitPattern})-\\d{4}`;
+}
+
+// The regular expression source matching an allowed extension
+export function extensionSource(schema: SheetSchema): string {
+    return `(?:${schema.extensions.map(escapeRegExp).join('|')})`;
+}
+
+// "yymmdd-X-AB123-0000"
+export function virinFormat(schema: SheetSchema): string {
+    return `yymmdd-X-${schema.unitExample}-0000`;
+}
+
+// "(X can be any of A, F, G, M, N, or X)"
+export function serviceHint(schema: SheetSchema): string {
+    return `(X can be any of ${listOf(Object.keys(schema.services), 'or')})`;
+}
+
+// ".jpg or .mp4"
+export function extensionList(schema: SheetSchema): string {
+    return listOf(schema.extensions, 'or');
+}
+
+function check(condition: boolean, source: string, message: string) {
+    if (!condition) {
+        throw new SchemaError(`Invalid caption schema in ${source}: ${message}`);
+    }
+}
+
+/**
+ * Applies each override in turn on top of the defaults. Lists and the service
+ * letters replace the ones before them rather than adding to them. Throws a
+ * `SchemaError` naming the `source` when a value doesn't make sense.
+ */
+export function resolveSchema(...overrides: { source: string, schema?: Partial<SheetSchema> }[]): SheetSchema {
+    let schema = defaultSchema;
+    for (const { source, schema: override } of overrides) {
+        if (!override) { continue; }
+        check(typeof override === 'object' && !Array.isArray(override), source, 'expected an object.');
+
+        const { maxKeywords, extensions, services, unitPattern, unitExample, centuryPivot, warnFutureDates } = override;
+        if (maxKeywords !== undefined) {
+            check(Number.isInteger(maxKeywords) && maxKeywords > 0, source, `"maxKeywords" must be a positive whole number, found ${JSON.stringify(maxKeywords)}.`);
+        }
+        if (extensions !== undefined) {
+            check(Array.isArray(extensions) && extensions.length > 0 &&
+                extensions.every(extension => typeof extension === 'string' && /^\.\w+$/.test(extension)),
+                source, '"extensions" must list at least one extension, each starting with a dot - ".jpg".');
+        }
+        if (services !== undefined) {
+            check(typeof services === 'object' && !Array.isArray(services) && Object.keys(services).length > 0 &&
+                Object.entries(services).every(([letter, name]) => /^[A-Z0-9]+$/.test(letter) && typeof name === 'string'),
+                source, '"services" must map at least one service letter to its name - { "F": "Air Force" }.');
+        }
+        if (unitPattern !== undefined) {
+            check(typeof unitPattern === 'string', source, '"unitPattern" must be a regular expression.');
+            try {
+                new RegExp(unitPattern);
+            } catch (error) {
+                check(false, source, `"unitPattern" is not a valid regular expression. ${(error as Error).message}`);
+            }
+            // The checks number the groups of their own patterns
+            check(new RegExp(`${unitPattern}|`).exec('')!.length === 1, source,
+                '"unitPattern" must not capture, use "(?:...)" for groups.');
+        }
+        if (unitExample !== undefined) {
+            check(typeof unitExample === 'string', source, '"unitExample" must be a unit ID.');
+        }
+        if (centuryPivot !== undefined) {
+            check(Number.isInteger(centuryPivot) && centuryPivot >= 0 && centuryPivot <= 100, source,
+                `"centuryPivot" must be a whole number from 0 to 100, found ${JSON.stringify(centuryPivot)}.`);
+        }
+        if (warnFutureDates !== undefined) {
+            check(typeof warnFutureDates === 'boolean', source, '"warnFutureDates" must be true or false.');
+        }
+
+        schema = {
+            maxKeywords: maxKeywords ?? schema.maxKeywords,
+            extensions: extensions ?? schema.extensions,
+            services: services ?? schema.services,
+            unitPattern: unitPattern ?? schema.unitPattern,
+            unitExample: unitExample ?? schema.unitExample,
+            centuryPivot: centuryPivot ?? schema.centuryPivot,
+            warnFutureDates: warnFutureDates ?? schema.warnFutureDates,
+        };
+        check(new RegExp(`^(?:${schema.unitPattern})$`).test(schema.unitExample), source,
+            `"unitExample" "${schema.unitExample}" does not match "unitPattern" "${schema.unitPattern}".`);
+    }
+    return schema;
+}
+
+/**
+ * The nearest project config file at or above a sheet's folder, if any.
+ */
+export function findSchemaFile(sheetPath: string): string | undefined {
+    let directory = path.dirname(sheetPath);
+    for (;;) {
+        const file = path.join(directory, schemaFileName);
+        if (fs.existsSync(file)) { return file; }
+
+        const parent = path.dirname(directory);
+        if (parent === directory) { return; }
+        directory = parent;
+    }
+}
+
+/**
+ * Reads the schema overrides in a project config file. Throws a `SchemaError`
+ * when it isn't valid JSON.
+ */
+export function readSchemaFile(file: string): Partial<SheetSchema> {
+    const text = fs.readFileSync(file, 'utf8');
+    try {
+        return JSON.parse(text);
+    } catch (error) {
+        throw new SchemaError(`Invalid caption schema in ${file}: ${(error as Error).message}`);
+    }
+}
+
+/**
+ * The schema for a sheet on disk: the defaults, then `settings`, then the
+ * nearest project config file.
+ */
+export function loadSchema(sheetPath: string | undefined, settings?: Partial<SheetSchema>): SheetSchema {
+    const overrides: { source: string, schema?: Partial<SheetSchema> }[] = [{ source: 'settings', schema: settings }];
+    const file = sheetPath && findSchemaFile(sheetPath);
+    if (file) {
+        overrides.push({ source: file, schema: readSchemaFile(file) });
+    }
+    return resolveSchema(...overrides);
+}
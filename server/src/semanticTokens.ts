@@ -0,0 +1,193 @@
+import {
+    SemanticTokens,
+    SemanticTokensBuilder,
+    SemanticTokensDelta,
+    SemanticTokensLegend
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { KeywordList, Span, parseCaptionSheet } from './parser';
+import { StyleEntry, findRanks } from './dictionaries';
+import { parseVirin } from './virin';
+
+// The token types, in the order of their index in the legend
+const tokenTypes = [
+    'headline',
+    'byline',
+    'captionKeyword',
+    'virinDate',
+    'virinService',
+    'virinUnit',
+    'virinSequence',
+    'rank',
+    'acronym',
+    'attribution',
+] as const;
+
+type TokenType = typeof tokenTypes[number];
+
+// Base keywords are the keywords of the sheet, on every image, rather than of one caption
+const baseModifier = 1 << 0;
+
+export const semanticTokensLegend: SemanticTokensLegend = {
+    tokenTypes: [...tokenTypes],
+    tokenModifiers: ['base']
+};
+
+// An acronym defined in parentheses after what it stands for - "(JTAC)"
+const acronymPattern = /\(([^()\s]+)\)/g;
+
+interface SheetToken {
+    line: number;
+    character: number;
+    length: number;
+    type: TokenType;
+    modifiers: number;
+}
+
+// The length of a line without its trailing backslash and whitespace
+function contentLength(text: string): number {
+    return text.replace(/\\?\s*$/, '').length;
+}
+
+function token(span: Span, start: number, end: number, type: TokenType, modifiers = 0): SheetToken {
+    return {
+        line: span.range.start.line,
+        character: span.range.start.character + start,
+        length: end - start,
+        type,
+        modifiers
+    };
+}
+
+// A token over part of a span, with gaps left for the tokens inside it, as tokens can't overlap
+function tokenAround(span: Span, start: number, end: number, type: TokenType, inner: SheetToken[]): SheetToken[] {
+    const tokens: SheetToken[] = [];
+    let from = span.range.start.character + start;
+    for (const other of inner) {
+        if (other.character > from) {
+            tokens.push({ line: span.range.start.line, character: from, length: other.character - from, type, modifiers: 0 });
+        }
+        from = Math.max(from, other.character + other.length);
+    }
+    const to = span.range.start.character + end;
+    if (to > from) {
+        tokens.push({ line: span.range.start.line, character: from, length: to - from, type, modifiers: 0 });
+    }
+    return [...tokens, ...inner];
+}
+
+function rankTokens(span: Span, start: number, end: number, style: StyleEntry[]): SheetToken[] {
+    return findRanks(span.text.substring(start, end), style)
+        .map(match => token(span, start + match.start, start + match.end, 'rank'));
+}
+
+function keywordTokens(list: KeywordList | undefined, modifiers: number): SheetToken[] {
+    return (list?.keywords || []).map(keyword => token(keyword, 0, keyword.text.length, 'captionKeyword', modifiers));
+}
+
+// Each part of a VIRIN gets its own token - "yymmdd", "A", "AB123" and "0000"
+function virinTokens(span: Span | undefined): SheetToken[] {
+    const virin = span && parseVirin(span.text);
+    if (!span || !virin) { return []; }
+
+    const types: TokenType[] = ['virinDate', 'virinService', 'virinUnit', 'virinSequence'];
+    let start = 0;
+    return virin.text.split('-').map((part, i) => {
+        const partToken = token(span, start, start + part.length, types[i]);
+        start += part.length + 1;
+        return partToken;
+    });
+}
+
+/**
+ * The tokens of a caption sheet, in document order: the headline, the byline,
+ * the base and image keywords, the parts of each VIRIN in titles and image
+ * file names, and in descriptions the ranks, acronym definitions and the
+ * credit. Ranks in the byline and the credit are tokens of their own.
+ */
+function sheetTokens(text: string, style: StyleEntry[]): SheetToken[] {
+    const sheet = parseCaptionSheet(text);
+    const tokens: SheetToken[] = [];
+
+    if (sheet.headline) {
+        tokens.push(token(sheet.headline, 0, contentLength(sheet.headline.text), 'headline'));
+    }
+    if (sheet.byline) {
+        const end = contentLength(sheet.byline.text);
+        tokens.push(...tokenAround(sheet.byline, 0, end, 'byline', rankTokens(sheet.byline, 0, end, style)));
+    }
+    tokens.push(...keywordTokens(sheet.baseKeywords, baseModifier));
+
+    for (const block of sheet.captions) {
+        tokens.push(...virinTokens(block.imageTag?.filename));
+        tokens.push(...keywordTokens(block.keywords, 0));
+        tokens.push(...virinTokens(block.title?.virin));
+
+        const description = block.description;
+        if (!description) { continue; }
+        const attribution = description.attribution;
+        const textEnd = attribution
+            ? attribution.range.start.character - description.range.start.character
+            : contentLength(description.text);
+
+        tokens.push(...rankTokens(description, 0, textEnd, style));
+        acronymPattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = acronymPattern.exec(description.text)) && match.index < textEnd) {
+            tokens.push(token(description, match.index + 1, match.index + 1 + match[1].length, 'acronym'));
+        }
+        if (attribution) {
+            tokens.push(...tokenAround(attribution, 0, attribution.text.length, 'attribution',
+                rankTokens(attribution, 0, attribution.text.length, style)));
+        }
+    }
+
+    return tokens
+        .filter(sheetToken => sheetToken.length > 0)
+        .sort((a, b) => a.line - b.line || a.character - b.character);
+}
+
+// The last tokens sent for each document, which delta requests are worked out against
+const builders: Map<string, SemanticTokensBuilder> = new Map();
+
+function buildTokens(builder: SemanticTokensBuilder, textDocument: TextDocument, style: StyleEntry[]) {
+    for (const sheetToken of sheetTokens(textDocument.getText(), style)) {
+        builder.push(
+            sheetToken.line,
+            sheetToken.character,
+            sheetToken.length,
+            tokenTypes.indexOf(sheetToken.type),
+            sheetToken.modifiers
+        );
+    }
+}
+
+export function provideSemanticTokens(textDocument: TextDocument, style: StyleEntry[]): SemanticTokens {
+    const builder = new SemanticTokensBuilder();
+    builders.set(textDocument.uri, builder);
+    buildTokens(builder, textDocument, style);
+    return builder.build();
+}
+
+/**
+ * The changes to the tokens since `previousResultId`, or all of them when
+ * those tokens aren't the last ones sent for the document.
+ */
+export function provideSemanticTokensDelta(
+    textDocument: TextDocument,
+    previousResultId: string,
+    style: StyleEntry[],
+): SemanticTokens | SemanticTokensDelta {
+    const builder = builders.get(textDocument.uri);
+    if (!builder || builder.id !== previousResultId) {
+        return provideSemanticTokens(textDocument, style);
+    }
+    builder.previousResult(previousResultId);
+    buildTokens(builder, textDocument, style);
+    return builder.buildEdits();
+}
+
+// Forgets the tokens of a closed document
+export function releaseSemanticTokens(uri: string) {
+    builders.delete(uri);
+}
@@ -0,0 +1,181 @@
+import {
+    Diagnostic,
+    DiagnosticSeverity,
+    TextEdit
+} from 'vscode-languageserver';
+import { CaptionBlock, CaptionSheet, isBlankLine } from './parser';
+import { CaptionDiagnosticData, expectedCaptionDate } from './validation';
+import { Virin, parseVirin } from './virin';
+import { SheetSchema, defaultSchema } from './schema';
+
+// Which of the sequence checks run, from the `sequence` settings
+export interface SequenceOptions {
+    duplicates: boolean;    // The same sequence number on two different VIRINs of one day and unit
+    gaps: boolean;          // Sequence numbers skipped between captions
+    order: boolean;         // Captions not sorted by VIRIN
+    mixedDates: boolean;    // Captions shot on another day than more than half of the sheet
+    mixedUnits: boolean;    // Captions from another unit than more than half of the sheet
+}
+
+export const defaultSequenceOptions: SequenceOptions = {
+    duplicates: true,
+    gaps: true,
+    order: true,
+    mixedDates: true,
+    mixedUnits: true,
+};
+
+interface SequencedCaption {
+    block: CaptionBlock;
+    virin: Virin;
+}
+
+function sequenced(sheet: CaptionSheet): SequencedCaption[] {
+    return sheet.captions.flatMap(block => {
+        const virin = block.title?.virin && parseVirin(block.title.virin.text);
+        return virin ? [{ block, virin }] : [];
+    });
+}
+
+// Each photographer numbers each day's images from the start. Unit IDs are
+// matched whatever their case, as "ab123" and "AB123" are the same photographer
+function sequenceGroup(virin: Virin): string {
+    return `${virin.date}-${virin.service}-${virin.unit.toUpperCase()}`;
+}
+
+function pad(sequence: number): string {
+    return String(sequence).padStart(4, '0');
+}
+
+// The value more than half of the values are, if any. Without one the sheet isn't from a single shoot.
+function majority(values: string[]): string | undefined {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    return [...counts.entries()].find(([, count]) => count * 2 > values.length)?.[0];
+}
+
+// The caption blocks without their leading blank lines, which stay where they are
+function blockText(block: CaptionBlock): string[] {
+    const lines = block.lines.map(line => line.text);
+    const first = lines.findIndex(line => !isBlankLine(line));
+    return lines.slice(first);
+}
+
+/**
+ * An edit putting the captions of a sheet in VIRIN order, one blank line
+ * apart. Captions without a VIRIN go last. Returns `undefined` when the
+ * captions are already sorted.
+ */
+export function sortCaptionsEdit(sheet: CaptionSheet): TextEdit | undefined {
+    const blocks = sheet.captions.filter(block => block.lines.some(line => !isBlankLine(line.text)));
+    if (blocks.length < 2) { return; }
+
+    const key = (block: CaptionBlock) => block.title?.virin?.text;
+    const sorted = [...blocks].sort((a, b) => {
+        const keyA = key(a);
+        const keyB = key(b);
+        if (keyA === keyB) { return 0; }
+        if (!keyA) { return 1; }
+        if (!keyB) { return -1; }
+        return keyA < keyB ? -1 : 1;
+    });
+    if (sorted.every((block, i) => block === blocks[i])) { return; }
+
+    const first = blocks[0].lines.find(line => !isBlankLine(line.text))!;
+    const last = blocks[blocks.length - 1].lines[blocks[blocks.length - 1].lines.length - 1];
+    const lineBreak = sheet.lineBreak;
+    return TextEdit.replace(
+        { start: first.range.start, end: last.range.end },
+        sorted.map(block => blockText(block).join(lineBreak)).join(lineBreak + lineBreak)
+    );
+}
+
+/**
+ * Checks the VIRIN sequence numbers of a sheet: duplicates, gaps, captions
+ * out of order, and captions from another day or unit than the rest of the
+ * sheet, each of which can be turned off. Days and units are only compared
+ * when more than half the captions share one, as the sheet is then of one
+ * shoot.
+ */
+export function validateCaptionSequence(
+    sheet: CaptionSheet,
+    options: SequenceOptions,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    schema: SheetSchema = defaultSchema,
+) {
+    const captions = sequenced(sheet);
+    if (captions.length < 2) { return; }
+
+    const report = (code: string, caption: SequencedCaption, message: string, data?: CaptionDiagnosticData) => {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: caption.block.title!.virin!.range,
+            message,
+            code,
+            source: 'Markdown Captions',
+            data
+        });
+    };
+
+    if (options.duplicates) {
+        for (const caption of captions) {
+            // Identical VIRINs are reported as duplicate VIRINs instead
+            const others = captions.filter(other =>
+                sequenceGroup(other.virin) === sequenceGroup(caption.virin) &&
+                other.virin.sequence === caption.virin.sequence && other.virin.text !== caption.virin.text);
+            if (others.length > 0) {
+                report('sequence-duplicate', caption, `Sequence number ${pad(caption.virin.sequence)} is also used by ${others.map(other => other.virin.text).join(', ')}.`);
+            }
+        }
+    }
+
+    if (options.gaps) {
+        const groups = new Map<string, SequencedCaption[]>();
+        for (const caption of captions) {
+            const group = sequenceGroup(caption.virin);
+            groups.set(group, [...(groups.get(group) || []), caption]);
+        }
+        for (const group of groups.values()) {
+            const byNumber = group.sort((a, b) => a.virin.sequence - b.virin.sequence);
+            for (let i = 1; i < byNumber.length; i++) {
+                const previous = byNumber[i - 1].virin.sequence;
+                const current = byNumber[i].virin.sequence;
+                if (current - previous <= 1) { continue; }
+
+                const missing = current - previous === 2
+                    ? `Sequence number ${pad(previous + 1)} is`
+                    : `Sequence numbers ${pad(previous + 1)} to ${pad(current - 1)} are`;
+                report('sequence-gap', byNumber[i], `${missing} missing before ${byNumber[i].virin.text}.`);
+            }
+        }
+    }
+
+    if (options.order) {
+        const sortEdit = sortCaptionsEdit(sheet);
+        for (let i = 1; i < captions.length; i++) {
+            if (captions[i].virin.text >= captions[i - 1].virin.text) { continue; }
+            report(
+                'sequence-order',
+                captions[i],
+                `${captions[i].virin.text} comes after ${captions[i - 1].virin.text}. Captions should be sorted by VIRIN.`,
+                sortEdit && { fixes: [{ title: 'Sort captions by VIRIN', edits: [sortEdit], safe: false }] }
+            );
+        }
+    }
+
+    const date = options.mixedDates && majority(captions.map(caption => caption.virin.date));
+    if (date) {
+        for (const caption of captions.filter(caption => caption.virin.date !== date)) {
+            report('mixed-dates', caption, `${caption.virin.text} was shot on ${expectedCaptionDate(caption.virin.date, schema.centuryPivot)}, but most captions in this sheet were shot on ${expectedCaptionDate(date, schema.centuryPivot)}.`);
+        }
+    }
+
+    const unit = options.mixedUnits && majority(captions.map(caption => caption.virin.unit.toUpperCase()));
+    if (unit) {
+        for (const caption of captions.filter(caption => caption.virin.unit.toUpperCase() !== unit)) {
+            report('mixed-units', caption, `${caption.virin.text} is from unit ${caption.virin.unit}, but most captions in this sheet are from ${unit}.`);
+        }
+    }
+}
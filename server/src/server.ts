@@ -3,22 +3,68 @@ import {
     createConnection,
     TextDocuments,
     Diagnostic,
-    DiagnosticSeverity,
     ProposedFeatures,
     InitializeParams,
     DidChangeConfigurationNotification,
+    DidChangeWatchedFilesNotification,
+    Disposable,
     TextDocumentSyncKind,
     InitializeResult,
     DocumentDiagnosticReportKind,
+    FileChangeType,
+    WorkspaceDocumentDiagnosticReport,
+    CodeActionKind,
+    LSPErrorCodes,
+    ResponseError,
+    RenameFile,
     type DocumentDiagnosticReport
 } from 'vscode-languageserver/node';
 
 import {
-    Position,
     TextDocument
 } from 'vscode-languageserver-textdocument';
-import { log } from 'console';
-import { lstat } from 'fs';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { checkCaptionSheet } from './validation';
+import { imageFolders, validateImageFiles } from './imageFiles';
+import { EmbedOptions, embedSheetMetadata } from './embed';
+import { validateEmbeddedMetadata } from './drift';
+import { SheetSkeleton, SkeletonError, SkeletonOptions, createSheetSkeleton, defaultSkeletonOptions } from './skeleton';
+import { buildPreview } from './preview';
+import { RenameError, findRenameTarget, renameVirin } from './rename';
+import { fixAllKind, provideCodeActions } from './codeActions';
+import { formatCaptionSheet } from './formatter';
+import { provideCompletions } from './completion';
+import { provideHover } from './hover';
+import { provideDocumentSymbols, provideWorkspaceSymbols } from './symbols';
+import {
+    provideSemanticTokens,
+    provideSemanticTokensDelta,
+    releaseSemanticTokens,
+    semanticTokensLegend
+} from './semanticTokens';
+import { captionSheetExtensions, findCaptionSheets, isCaptionSheet, loadWorkspaceSheets, readWorkspaceSheet } from './workspace';
+import { VirinIndex, sheetKey, validateDuplicateVirins } from './virinIndex';
+import { parseCaptionSheet } from './parser';
+import { RuleSettings, applyRuleSettings } from './rules';
+import { applySuppressions } from './suppressions';
+import { SchemaError, SheetSchema, defaultSchema, loadSchema, schemaFileName } from './schema';
+import { SequenceOptions, defaultSequenceOptions, sortCaptionsEdit, validateCaptionSequence } from './sequence';
+import {
+    StyleDictionary,
+    StyleEntry,
+    bundledStyleEntries,
+    mergeStyleEntries,
+    readStyleDictionary
+} from './dictionaries';
+
+// Commands the client can run through `workspace/executeCommand`
+const writeMetadataCommand = 'markdown-captions.server.writeMetadata';
+const sortCaptionsCommand = 'markdown-captions.server.sortCaptions';
+const newSheetCommand = 'markdown-captions.server.newSheet';
+const previewCommand = 'markdown-captions.server.preview';
 
 // Create a connection for the server, using Node's IPC as a transport.
 // Also include all preview / proposed LSP features.
@@ -30,6 +76,16 @@ const documents: TextDocuments<TextDocument> = new TextDocuments(TextDocument);
 let hasConfigurationCapability = false;
 let hasWorkspaceFolderCapability = false;
 let hasDiagnosticRelatedInformationCapability = false;
+let hasWatchedFilesCapability = false;
+let hasRelativePatternCapability = false;
+let hasRenameFileCapability = false;
+let hasSemanticTokensRefreshCapability = false;
+
+// The URIs of the workspace folders, searched for caption sheets
+let workspaceFolders: string[] = [];
+
+// The VIRINs of every sheet in the workspace, open or not
+const virinIndex = new VirinIndex();
 
 connection.onInitialize((params: InitializeParams) => {
     const capabilities = params.capabilities;
@@ -40,13 +96,43 @@ connection.onInitialize((params: InitializeParams) => {
     hasWorkspaceFolderCapability = !!capabilities?.workspace?.workspaceFolders;
     hasDiagnosticRelatedInformationCapability =
         !!capabilities?.textDocument?.publishDiagnostics?.relatedInformation;
+    hasWatchedFilesCapability = !!capabilities?.workspace?.didChangeWatchedFiles?.dynamicRegistration;
+    hasRelativePatternCapability = !!capabilities?.workspace?.didChangeWatchedFiles?.relativePatternSupport;
+    hasRenameFileCapability = !!capabilities?.workspace?.workspaceEdit?.documentChanges &&
+        !!capabilities?.workspace?.workspaceEdit?.resourceOperations?.includes('rename');
+    hasSemanticTokensRefreshCapability = !!capabilities?.workspace?.semanticTokens?.refreshSupport;
+    workspaceFolders = params.workspaceFolders?.map(folder => folder.uri) ||
+        (params.rootUri ? [params.rootUri] : []);
 
     const result: InitializeResult = {
         capabilities: {
             textDocumentSync: TextDocumentSyncKind.Incremental,
             diagnosticProvider: {
-                interFileDependencies: false,
-                workspaceDiagnostics: false
+                interFileDependencies: true,
+                workspaceDiagnostics: true
+            },
+            executeCommandProvider: {
+                commands: [writeMetadataCommand, sortCaptionsCommand, newSheetCommand, previewCommand]
+            },
+            codeActionProvider: {
+                codeActionKinds: [CodeActionKind.QuickFix, fixAllKind]
+            },
+            documentFormattingProvider: true,
+            documentRangeFormattingProvider: true,
+            completionProvider: {
+                triggerCharacters: ['<', '/', ';']
+            },
+            hoverProvider: true,
+            documentSymbolProvider: true,
+            workspaceSymbolProvider: true,
+            renameProvider: {
+                prepareProvider: true
+            },
+            semanticTokensProvider: {
+                legend: semanticTokensLegend,
+                full: {
+                    delta: true
+                }
             }
         }
     };
@@ -66,24 +152,94 @@ connection.onInitialized(() => {
         connection.client.register(DidChangeConfigurationNotification.type, undefined);
     }
     if (hasWorkspaceFolderCapability) {
-        connection.workspace.onDidChangeWorkspaceFolders(_event => {
-            connection.console.log('Workspace folder change event received.');
+        connection.workspace.onDidChangeWorkspaceFolders(event => {
+            const removed = event.removed.map(folder => folder.uri);
+            workspaceFolders = workspaceFolders
+                .filter(folder => !removed.includes(folder))
+                .concat(event.added.map(folder => folder.uri));
+            sheetFiles = undefined;
+            indexWorkspace();
         });
     }
+    indexWorkspace();
 });
 
+// The caption sheets in the workspace folders, until one is created or deleted
+let sheetFiles: Promise<string[]> | undefined;
+
+function findSheetFiles(): Promise<string[]> {
+    if (!sheetFiles) {
+        sheetFiles = findCaptionSheets(workspaceFolders);
+    }
+    return sheetFiles;
+}
+
+// Results of checks on other sheets or images may be stale, so have the client pull everything again
+function refreshDiagnostics() {
+    diagnosticsGeneration++;
+    connection.languages.diagnostics.refresh();
+}
+
+// Ranks are highlighted from the style dictionaries, so the tokens change with them
+function refreshSemanticTokens() {
+    if (hasSemanticTokensRefreshCapability) {
+        connection.languages.semanticTokens.refresh();
+    }
+}
+
+async function indexWorkspace() {
+    const sheets = await loadWorkspaceSheets(await findSheetFiles(), documents.all());
+    virinIndex.clear();
+    for (const { uri, sheet } of sheets) {
+        virinIndex.update(uri, sheet);
+    }
+    refreshDiagnostics();
+}
+
+// Put what's on disk back in the index, for sheets that were closed or changed outside the editor
+async function indexSheetFromDisk(uri: string) {
+    const sheet = await readWorkspaceSheet(fileURLToPath(uri));
+    const changed = sheet ? virinIndex.update(uri, sheet.sheet) : virinIndex.remove(uri);
+    if (changed) {
+        refreshDiagnostics();
+    }
+}
+
 interface Settings {
     maxNumberOfProblems: number;
+    metadata: {
+        backup: boolean;
+    };
+    sequence: SequenceOptions;
+    rules: RuleSettings;
+    schema?: Partial<SheetSchema>;
+    dictionaries?: string[];
+    newSheet?: {
+        service?: string;
+        unit?: string;
+        byline?: string;
+    };
 }
 
 // The global settings, used when the `workspace/configuration` request is not supported by the client.
-const defaultSettings: Settings = { maxNumberOfProblems: 1000 };
+const defaultSettings: Settings = {
+    maxNumberOfProblems: 1000,
+    metadata: { backup: true },
+    sequence: defaultSequenceOptions,
+    rules: {}
+};
 let globalSettings: Settings = defaultSettings;
 
 // Cache the settings of all open documents
 const documentSettings: Map<string, Thenable<Settings>> = new Map();
 
 connection.onDidChangeConfiguration(change => {
+    shownErrors.clear();
+    // The dictionaries in the settings may have changed
+    for (const file of styleDictionaries.keys()) {
+        connection.sendDiagnostics({ uri: pathToFileURL(file).toString(), diagnostics: [] });
+    }
+    styleDictionaries.clear();
     if (hasConfigurationCapability) {
         // Reset all cached document settings
         documentSettings.clear();
@@ -93,7 +249,8 @@ connection.onDidChangeConfiguration(change => {
         );
     }
     // Refresh the diagnostics since the `maxNumberOfProblems` could have changed.
-    connection.languages.diagnostics.refresh();
+    refreshDiagnostics();
+    refreshSemanticTokens();
 });
 
 function getDocumentSettings(resource: string): Thenable<Settings> {
@@ -111,928 +268,490 @@ function getDocumentSettings(resource: string): Thenable<Settings> {
     return result;
 }
 
-// Only keep settings for open documents
-documents.onDidClose(e => {
-    documentSettings.delete(e.document.uri);
-});
-
-
-connection.languages.diagnostics.on(async (params) => {
-    const document = documents.get(params.textDocument.uri);
-    if (document !== undefined) {
-        return {
-            kind: DocumentDiagnosticReportKind.Full,
-            items: await validateTextDocument(document)
-        } satisfies DocumentDiagnosticReport;
-    } else {
-        // We don't know the document. We can either try to read it from disk
-        // or we don't report problems for it.
-        return {
-            kind: DocumentDiagnosticReportKind.Full,
-            items: []
-        } satisfies DocumentDiagnosticReport;
+// Problems with a schema or dictionary that were already shown, so they aren't shown again on every check
+const shownErrors: Set<string> = new Set();
+
+// The schema a sheet is checked against, from the settings and the nearest project config file
+async function getDocumentSchema(uri: string): Promise<SheetSchema> {
+    const settings = await getDocumentSettings(uri);
+    const sheetPath = uri.startsWith('file:') ? fileURLToPath(uri) : undefined;
+    try {
+        return loadSchema(sheetPath, settings.schema);
+    } catch (error) {
+        if (!(error instanceof SchemaError)) { throw error; }
+        if (!shownErrors.has(error.message)) {
+            shownErrors.add(error.message);
+            connection.window.showErrorMessage(`${error.message} Using the default schema instead.`);
+        }
+        return defaultSchema;
     }
-});
-
-// The content of a text document has changed. This event is emitted
-// when the text document first opened or when its content has changed.
-documents.onDidChangeContent(change => {
-    validateTextDocument(change.document);
-});
+}
 
-type PositionAt = (offset: number) => Position;
-type Keywords = string[];
-
-class CaptionBuilder {
-    index: number = 0;
-    hasLeadingBlankLine: boolean = false;
-    lines: string[] = [];
-    imageTag?: string;
-    keywords?: Keywords;
-    title?: string;
-    virin?: string;
-    description?: string;
-
-    isEmpty(): boolean {
-        return !this.imageTag &&
-            !this.keywords &&
-            !this.title &&
-            !this.description;
-    }
+// The style dictionaries named in the settings, by path, until they change on disk
+const styleDictionaries: Map<string, StyleDictionary> = new Map();
+let watchedDictionaries = '';
+let dictionaryWatcher: Promise<Disposable | undefined> = Promise.resolve(undefined);
 
-    firstMissingField(): string {
-        if (!this.imageTag) { return 'image tag'; }
-        if (!this.keywords) { return 'keywords'; }
-        if (!this.title) { return 'image title'; }
-        if (!this.description) { return 'description'; }
-        return '';
+// Dictionaries are given relative to the workspace folder of the sheet, or to the home folder with "~"
+function resolveDictionaryPath(file: string, uri: string): string {
+    if (file.startsWith('~')) {
+        return path.join(os.homedir(), file.substring(1));
     }
+    if (path.isAbsolute(file)) { return file; }
 
-    getImageTagFromLine(
-        text: string,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        priorTextLength: number,
-        positionAt: PositionAt,
-    ): string | undefined {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-
-        const imageTagPattern = /^!\[\]\(\<.+>\)/g;
-        let match = imageTagPattern.exec(text);
-        if (match) { return text; }
-
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(priorTextLength),
-                end: positionAt(priorTextLength + text.length)
-            },
-            message: `Expected image tag resembling "![](<path/to/image.jpg>)", found "${text}".`,
-            source: 'Markdown Captions'
-        });
-    }
-
-    getKeywordsFromLine(
-        text: string,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        priorTextLength: number,
-        positionAt: PositionAt,
-    ): Keywords | undefined {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-
-        const blankKeywordsPattern = /^(Keywords:)(\s*)$/g;
-        let match = blankKeywordsPattern.exec(text);
-        if (match) { return []; }
-
-        const unfinishedKeywordsPattern = /^(Keywords:)(\s*)(.+;)(\s*)(\S+.*(?<!;))$/g;
-        match = unfinishedKeywordsPattern.exec(text);
-        if (match) {
-            const matchesLength = match[1].length + match[2].length + (match[3]?.length || 0) + match[4].length;
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: positionAt(priorTextLength + matchesLength),
-                    end: positionAt(priorTextLength + text.length)
-                },
-                message: `All keywords must end in a ";", found "${match[5]}" but expected "${match[5]};".`,
-                source: 'Markdown Captions'
-            });
-        }
+    const folder = workspaceFolders.find(folder => uri.startsWith(folder.endsWith('/') ? folder : `${folder}/`)) ||
+        workspaceFolders[0];
+    const base = folder?.startsWith('file:')
+        ? fileURLToPath(folder)
+        : uri.startsWith('file:') ? path.dirname(fileURLToPath(uri)) : process.cwd();
+    return path.resolve(base, file);
+}
 
-        const keywordsPattern = /^(Keywords:)(\s*)(.+;)?/g;
-        match = keywordsPattern.exec(text);
-        if (match) {
-            let keywords = (match[3] || '')
-                .split(';')
-                .map(k => k.trim())
-                .filter(k => k.length > 0);
-            return keywords;
+// Reads a dictionary once and shows its broken entries in the dictionary file itself
+function loadStyleDictionary(file: string): StyleDictionary | undefined {
+    let dictionary = styleDictionaries.get(file);
+    if (dictionary) { return dictionary; }
+
+    try {
+        dictionary = readStyleDictionary(file);
+    } catch (error) {
+        const message = `Could not read the style dictionary ${file}: ${(error as Error).message}`;
+        if (!shownErrors.has(message)) {
+            shownErrors.add(message);
+            connection.window.showErrorMessage(message);
         }
-
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(priorTextLength),
-                end: positionAt(priorTextLength + text.length)
-            },
-            message: `Expected line resembling "Keywords: Some; keywords;", found "${text}".`,
-            source: 'Markdown Captions'
-        });
+        return;
     }
+    styleDictionaries.set(file, dictionary);
+    connection.sendDiagnostics({ uri: pathToFileURL(file).toString(), diagnostics: dictionary.problems });
+    return dictionary;
+}
 
-    getTitleFromLine(
-        text: string,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        priorTextLength: number,
-        positionAt: PositionAt,
-    ): string | undefined {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-
-        const titlePattern = /^\d+-.+-\d+/g;
-        let match = titlePattern.exec(text);
-        if (match) { return text; }
-
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(priorTextLength),
-                end: positionAt(priorTextLength + text.length)
-            },
-            message: `Expected image title resembling "yymmdd-X-AB123-0000", found "${text}". (X can be any of A, F, G, M, N, or X)`,
-            source: 'Markdown Captions'
+// Ask the client to tell us when a dictionary in use changes, so it's read again
+function watchDictionaries(files: string[]) {
+    if (!hasWatchedFilesCapability) { return; }
+
+    const all = [...new Set([...styleDictionaries.keys(), ...files])].sort();
+    if (all.join('\n') === watchedDictionaries) { return; }
+    watchedDictionaries = all.join('\n');
+
+    dictionaryWatcher = dictionaryWatcher.then(async previous => {
+        previous?.dispose();
+        if (all.length === 0) { return undefined; }
+        return connection.client.register(DidChangeWatchedFilesNotification.type, {
+            watchers: all.map(file => ({
+                globPattern: hasRelativePatternCapability
+                    ? { baseUri: pathToFileURL(path.dirname(file)).toString(), pattern: path.basename(file) }
+                    : file.replace(/\\/g, '/')
+            }))
         });
-    }
+    });
+}
 
-    getFieldFromLine(
-        text: string,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        priorTextLength: number,
-        positionAt: PositionAt,
-    ) {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-
-        this.index = this.index || priorTextLength;
-        this.lines.push(text);
-
-        const blankLinePattern = /^\s*$/;
-        let match = blankLinePattern.exec(text);
-        if (match) {
-            this.hasLeadingBlankLine = true;
-            return;
-        }
+// The bundled style entries, with the ones from the dictionaries in the settings on top
+async function getDocumentStyle(uri: string): Promise<StyleEntry[]> {
+    const settings = await getDocumentSettings(uri);
+    const files = (settings.dictionaries || []).map(file => resolveDictionaryPath(file, uri));
+    watchDictionaries(files);
 
-        if (!this.hasLeadingBlankLine) {
-            this.hasLeadingBlankLine = true;
-            diagnostics.push({
-                severity: DiagnosticSeverity.Warning,
-                range: {
-                    start: positionAt(priorTextLength),
-                    end: positionAt(priorTextLength + text.length)
-                },
-                message: 'There should be at least one blank line between captions.',
-                source: 'Markdown Captions'
-            });
-        }
+    const dictionaries = files.flatMap(file => {
+        const dictionary = loadStyleDictionary(file);
+        return dictionary ? [dictionary.entries] : [];
+    });
+    return mergeStyleEntries(bundledStyleEntries(), ...dictionaries);
+}
 
-        if (!this.imageTag) {
-            this.imageTag = this.getImageTagFromLine(text, diagnostics, maxNumberOfProblems, priorTextLength, positionAt);
-            return;
-        }
-        if (!this.keywords) {
-            this.keywords = this.getKeywordsFromLine(text, diagnostics, maxNumberOfProblems, priorTextLength, positionAt);
-            return;
-        }
-        if (!this.title) {
-            this.title = this.getTitleFromLine(text, diagnostics, maxNumberOfProblems, priorTextLength, positionAt);
-            return;
-        }
-        if (!this.description) {
-            this.description = text;
-            return;
-        }
+// Only keep settings for open documents
+documents.onDidClose(e => {
+    documentSettings.delete(e.document.uri);
+    imageFoldersByDocument.delete(e.document.uri);
+    releaseSemanticTokens(e.document.uri);
+    watchImageFolders();
+    if (e.document.uri.startsWith('file:')) {
+        indexSheetFromDisk(e.document.uri);
     }
+});
 
-    imageTagIsValid(
-        fullText: string,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ): boolean {
-        if (diagnostics.length >= maxNumberOfProblems) { return true; }
-
-        let indexOfMatch: number;
-        const imageTag = this.imageTag || '';
-
-        const correctFilenamePattern =
-            /^(!\[\]\(\<.+\/)(\d{6}-(?:A|F|G|M|N|X)-[A-Z0-9]{5}-\d{4})(\.jpg|\.mp4)\>\)\s*$/g;
-        let match = correctFilenamePattern.exec(imageTag);
-        if (match) { return true; }
-
-        const extraCrapOnTheEndPattern =
-            /^(!\[\]\(\<.+\/)(\d{6}-(?:A|F|G|M|N|X)-[A-Z0-9]{5}-\d{4})(\.jpg|\.mp4)(\>\)\s*)(.+)$/g;
-        match = extraCrapOnTheEndPattern.exec(imageTag);
-        if (match) {
-            indexOfMatch = fullText.indexOf(`${match[4]}${match[5]}`);
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: positionAt(this.index + indexOfMatch + match[4].length),
-                    end: positionAt(this.index + indexOfMatch + match[4].length + match[5].length)
-                },
-                message: `Found unexpected characters after image title "${match[5]}".`,
-                source: 'Markdown Captions'
-            });
-            return false;
-        }
+// The folders the image tags of each open document point into
+const imageFoldersByDocument: Map<string, string[]> = new Map();
+let watchedImageFolders = '';
+let imageFolderWatcher: Promise<Disposable | undefined> = Promise.resolve(undefined);
+
+// Ask the client to tell us when images are added to or removed from any of those folders
+function watchImageFolders() {
+    if (!hasWatchedFilesCapability) { return; }
+
+    const folders = [...new Set([...imageFoldersByDocument.values()].flat())].sort();
+    if (folders.join('\n') === watchedImageFolders) { return; }
+    watchedImageFolders = folders.join('\n');
+
+    imageFolderWatcher = imageFolderWatcher.then(async previous => {
+        previous?.dispose();
+        if (folders.length === 0) { return undefined; }
+        return connection.client.register(DidChangeWatchedFilesNotification.type, {
+            watchers: folders.map(folder => ({
+                globPattern: hasRelativePatternCapability
+                    ? { baseUri: pathToFileURL(folder).toString(), pattern: '*' }
+                    : `${folder.replace(/\\/g, '/')}/*`
+            }))
+        });
+    });
+}
 
-        const incorrectExtensionPattern =
-            /^(!\[\]\(\<.+\/)(\d{6}-(?:A|F|G|M|N|X)-[A-Z0-9]{5}-\d{4})(.+)\>\)\s*$/g;
-        match = incorrectExtensionPattern.exec(imageTag);
-        if (match) {
-            indexOfMatch = fullText.indexOf(match[3]);
-            diagnostics.push({
-                severity: DiagnosticSeverity.Warning,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + match[3].length)
-                },
-                message: `Expected image tag file extension to be .jpg or .mp4, found "${match[3]}".\nUsage of files with other extensions may result in unexpected outcomes.`,
-                source: 'Markdown Captions'
-            });
-            return false;
-        }
 
-        const incorrectFilenamePattern = /^(!\[\]\(\<.+\/)(.+)(\..+)\>\)\s*$/g;
-        match = incorrectFilenamePattern.exec(imageTag);
-        if (match) {
-            indexOfMatch = fullText.indexOf(match[2]);
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + match[2].length)
-                },
-                message: `Expected filename to be of the format "yymmdd-X-AB123-0000", found "${match[2]}". (X can be any of A, F, G, M, N, or X)`,
-                source: 'Markdown Captions'
-            });
-            return false;
+connection.languages.diagnostics.on(async (params) => {
+    let document = documents.get(params.textDocument.uri);
+    if (document === undefined) {
+        // Not open in the editor, so check what's on disk
+        try {
+            document = await loadTextDocument(params.textDocument.uri);
+        } catch {
+            return {
+                kind: DocumentDiagnosticReportKind.Full,
+                items: []
+            } satisfies DocumentDiagnosticReport;
         }
-
-        indexOfMatch = fullText.indexOf(imageTag);
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(this.index + indexOfMatch),
-                end: positionAt(this.index + indexOfMatch + imageTag.length)
-            },
-            message: `Unexpected error validating image tag.`,
-            source: 'Markdown Captions'
-        });
-        return false;
     }
+    return {
+        kind: DocumentDiagnosticReportKind.Full,
+        items: await validateTextDocument(document)
+    } satisfies DocumentDiagnosticReport;
+});
 
-    keywordsAreValid(
-        baseKeywordsLength: number,
-        fullText: string,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ): boolean {
-        if (diagnostics.length >= maxNumberOfProblems) { return true; }
+interface WorkspaceReport {
+    resultId: string;
+    items: Diagnostic[];
+}
 
-        const keywords = this.keywords || [];
+// Bumped whenever something other than a sheet's own text can change its diagnostics
+let diagnosticsGeneration = 0;
+
+// The diagnostics of sheets that aren't open, by path
+const workspaceReports: Map<string, WorkspaceReport> = new Map();
+
+// Checks a sheet on disk, unless it hasn't changed since the last time
+async function workspaceReport(file: string): Promise<WorkspaceReport | undefined> {
+    let stat: fs.Stats;
+    try {
+        stat = await fs.promises.stat(file);
+    } catch {
+        workspaceReports.delete(file);
+        return;
+    }
+
+    const resultId = `${stat.mtimeMs}:${diagnosticsGeneration}`;
+    const cached = workspaceReports.get(file);
+    if (cached?.resultId === resultId) { return cached; }
+
+    const uri = pathToFileURL(file).toString();
+    const text = await fs.promises.readFile(file, 'utf8');
+    // Other Markdown files, like a README, are reported with no problems so what they had before is cleared
+    const report = {
+        resultId,
+        items: isCaptionSheet(parseCaptionSheet(text))
+            ? await validateTextDocument(TextDocument.create(uri, 'Markdown-Captions', 0, text))
+            : []
+    };
+    workspaceReports.set(file, report);
+    return report;
+}
 
-        if (keywords.length == 0 || baseKeywordsLength + keywords.length <= 6) {
-            return true;
+// The client pulls this every few seconds, so unchanged sheets are only reported as such
+connection.languages.diagnostics.onWorkspace(async (params, token) => {
+    const previousResultIds = new Map(params.previousResultIds.map(previous =>
+        [sheetKey(previous.uri), previous.value] as [string, string]));
+    const open = new Set(documents.all().map(document => sheetKey(document.uri)));
+
+    const items: WorkspaceDocumentDiagnosticReport[] = [];
+    for (const file of await findSheetFiles()) {
+        if (token.isCancellationRequested) { break; }
+        // Open sheets are pulled one by one, with their unsaved changes
+        if (open.has(file)) { continue; }
+
+        const report = await workspaceReport(file);
+        if (!report) { continue; }
+
+        const uri = pathToFileURL(file).toString();
+        if (previousResultIds.get(file) === report.resultId) {
+            items.push({ kind: DocumentDiagnosticReportKind.Unchanged, uri, version: null, resultId: report.resultId });
+        } else {
+            items.push({ kind: DocumentDiagnosticReportKind.Full, uri, version: null, resultId: report.resultId, items: report.items });
         }
-
-        const indexOfFirstKeyword =
-            fullText.indexOf(`${keywords[0]};`);
-        const lastKeyword = keywords[keywords.length - 1];
-        const endIndexOfLastKeyword =
-            fullText.lastIndexOf(`${lastKeyword};`) + lastKeyword.length + 1;
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(this.index + indexOfFirstKeyword),
-                end: positionAt(this.index + endIndexOfLastKeyword)
-            },
-            message: `A maximum of 6 total keywords is allowed. Found ${baseKeywordsLength} base keywords and ${keywords.length} image-specific keyword${keywords.length == 1 ? "" : "s"}.`,
-            source: 'Markdown Captions'
-        });
-        return false;
     }
+    return { items };
+});
 
-    titleIsValid(
-        fullText: string,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ): boolean {
-        if (diagnostics.length >= maxNumberOfProblems) { return true; }
-
-        let indexOfMatch: number;
-        const title = this.title || '';
-
-        const titlePattern = /^(\d{6}-(?:A|F|G|M|N|X)-[A-Z0-9]{5}-\d{4})\\\s*$/g;
-        let match = titlePattern.exec(title);
-        if (match) {
-            this.virin = match[1];
-            return true;
-        }
-
-        const missingBackslashPattern = /^(\d{6}-(?:A|F|G|M|N|X)-[A-Z0-9]{5}-\d{4})((?<!\\)\s*)$/g;
-        match = missingBackslashPattern.exec(title);
-        if (match) {
-            indexOfMatch = fullText.indexOf(`\n${match[1]}${match[2]}`) + match[1].length + 1;
-            diagnostics.push({
-                severity: DiagnosticSeverity.Warning,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + match[2].length)
-                },
-                message: 'The title should end in a backslash for pandoc and markdown preview to render propper spacing.',
-                source: 'Markdown Captions'
-            });
-            return false;
-        }
-
-        indexOfMatch = fullText.indexOf(title);
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(this.index + indexOfMatch),
-                end: positionAt(this.index + indexOfMatch + title.length)
-            },
-            message: `Expected image title resembling "yymmdd-X-AB123-0000\\", found "${title}". (X can be any of A, F, G, M, N, or X)`,
-            source: 'Markdown Captions'
-        });
-        return false;
+// The content of a text document has changed. This event is emitted
+// when the text document first opened or when its content has changed.
+documents.onDidChangeContent(change => {
+    // The client pulls the document's own diagnostics, but other sheets may now
+    // have, or no longer have, a VIRIN in common with this one
+    const sheet = parseCaptionSheet(change.document.getText());
+    const changed = isCaptionSheet(sheet) ? virinIndex.update(change.document.uri, sheet) : virinIndex.remove(change.document.uri);
+    if (changed) {
+        refreshDiagnostics();
     }
+});
 
-    build(
-        baseKeywordsLength: number,
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ): Caption | null {
-        if (
-            !this.imageTag ||
-            !this.keywords ||
-            !this.title ||
-            !this.description
-        ) {
-            return null;
-        }
-
-        const fullText = this.lines.join('\n');
-        if (
-            !this.imageTagIsValid(fullText, diagnostics, maxNumberOfProblems, positionAt) ||
-            !this.keywordsAreValid(baseKeywordsLength, fullText, diagnostics, maxNumberOfProblems, positionAt) ||
-            !this.titleIsValid(fullText, diagnostics, maxNumberOfProblems, positionAt)
-        ) {
-            return null;
-        }
+async function validateTextDocument(textDocument: TextDocument): Promise<Diagnostic[]> {
+    const settings = await getDocumentSettings(textDocument.uri);
+    const schema = await getDocumentSchema(textDocument.uri);
+    const style = await getDocumentStyle(textDocument.uri);
+
+    // Everything is checked so rules that are turned off don't use up the problem limit
+    const { sheet, captions, diagnostics } = checkCaptionSheet(textDocument, Infinity, schema, style);
+    validateDuplicateVirins(
+        textDocument.uri,
+        sheet,
+        virinIndex,
+        diagnostics,
+        Infinity,
+        hasDiagnosticRelatedInformationCapability
+    );
+    validateCaptionSequence(sheet, { ...defaultSequenceOptions, ...settings.sequence }, diagnostics, Infinity, schema);
+    if (textDocument.uri.startsWith('file:')) {
+        const sheetPath = fileURLToPath(textDocument.uri);
+        imageFoldersByDocument.set(textDocument.uri, imageFolders(sheet, sheetPath));
+        watchImageFolders();
+        await validateImageFiles(sheet, sheetPath, diagnostics, Infinity, schema);
+        await validateEmbeddedMetadata(textDocument.uri, sheet, captions, sheetPath, diagnostics, Infinity, writeMetadataCommand);
+    }
+    const unsuppressed = applySuppressions(sheet, diagnostics);
+    return applyRuleSettings(unsuppressed, settings.rules, settings.maxNumberOfProblems);
+}
 
-        if (!this.virin) { return null; }
+connection.onCodeAction(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) { return []; }
 
-        return new Caption(
-            this.index,
-            fullText,
-            this.imageTag,
-            this.keywords,
-            this.title,
-            this.virin,
-            this.description,
-        );
-    }
-}
+    return provideCodeActions(params, await validateTextDocument(document));
+});
 
-class Caption {
-    index: number;          // The index of the first line of the caption
-    fullText: string;        // Full text of the caption split by line
-    imageTag: string;       // The image tag line - "![](<path/to/image.jpg>)"
-    keywords: Keywords;     // The keywords array - ["X", "Y", "Z"]
-    title: string;          // The title line - "yymmdd-A-AB123-0000\"
-    virin: string;          // The VIRIN - "yymmdd-A-AB123-0000"
-    description: string;    // The description - "X person does Y on Z date."
-
-    constructor(
-        index: number,
-        fullText: string,
-        imageTag: string,
-        keywords: Keywords,
-        title: string,
-        virin: string,
-        description: string
-    ) {
-        this.index = index;
-        this.fullText = fullText;
-        this.imageTag = imageTag;
-        this.keywords = keywords;
-        this.title = title;
-        this.virin = virin;
-        this.description = description;
-    }
+connection.onDocumentFormatting(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? formatCaptionSheet(document.getText()) : [];
+});
 
-    validateFilenameMatchesVirin(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-        let indexOfMatch: number;
-
-        const filenamePattern =
-            /^(!\[\]\(\<.+\/)(\d{6}-(?:A|F|G|M|N|X)-[A-Z0-9]{5}-\d{4})(\.jpg|\.mp4)\>\)\s*$/g;
-        const filenameMatch = filenamePattern.exec(this.imageTag);
-
-        if (!filenameMatch) {
-            indexOfMatch = this.fullText.indexOf(this.imageTag);
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + this.imageTag.length)
-                },
-                message: `Unexpected error validating image tag.`,
-                source: 'Markdown Captions'
-            });
-            return;
-        }
+connection.onDocumentRangeFormatting(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? formatCaptionSheet(document.getText(), params.range) : [];
+});
 
-        const filename = filenameMatch[2];
-        if (filename === this.virin) { return; }
+connection.onCompletion(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) { return []; }
+
+    const sheetPath = document.uri.startsWith('file:') ? fileURLToPath(document.uri) : undefined;
+    return provideCompletions(
+        document,
+        params.position,
+        sheetPath,
+        await getDocumentStyle(document.uri),
+        await getDocumentSchema(document.uri)
+    );
+});
 
-        const indexOfFilenameMatch = this.fullText.indexOf(filename);
-        const indexOfTitleMatch = this.fullText.indexOf(this.virin);
-        diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range: {
-                start: positionAt(this.index + indexOfFilenameMatch),
-                end: positionAt(this.index + indexOfFilenameMatch + filename.length)
-            },
-            message: `This filename does not match the title of this image.\nFilename: ${filename}\nTitle:    ${this.virin}`,
-            source: 'Markdown Captions'
-        });
-        diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range: {
-                start: positionAt(this.index + indexOfTitleMatch),
-                end: positionAt(this.index + indexOfTitleMatch + this.virin.length)
-            },
-            message: `This image title does not match the filename.\nFilename: ${filename}\nTitle:    ${this.virin}`,
-            source: 'Markdown Captions'
-        });
-    }
+connection.onHover(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) { return null; }
+    return provideHover(
+        document,
+        params.position,
+        await getDocumentSchema(document.uri),
+        await getDocumentStyle(document.uri)
+    );
+});
 
-    validateFilenameDateMatchesCaptionDate(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-        let indexOfMatch: number;
-
-        const titleDatePattern = /(\d{6})/i;
-        const captionDatePattern = /(.+)((?:January|Jan|February|Feb|March|Mar|April|Apr|May|June|Jun|July|Jul|August|Aug|September|Sep|October|Oct|November|Nov|December|Dec).?\s+\d{1,2}(?:st|nd|rd|th)?,?\s\d{2,4})/i;
-        const titleDateMatch = this.title.match(titleDatePattern);
-        const captionDateMatch = this.description.match(captionDatePattern);
-
-        if (!titleDateMatch) {
-            indexOfMatch = this.fullText.indexOf(this.title);
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + this.title.length)
-                },
-                message: `Unexpected error parsing date from image title.`,
-                source: 'Markdown Captions'
-            });
-            return;
-        }
-        if (!captionDateMatch) {
-            indexOfMatch = this.fullText.indexOf(this.description);
-            diagnostics.push({
-                severity: DiagnosticSeverity.Warning,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + this.description.length)
-                },
-                message: `Cound not find date in caption. Expected date resembling "Jan. 1, 2000".`,
-                source: 'Markdown Captions'
-            });
-            return;
-        }
+connection.onDocumentSymbol(params => {
+    const document = documents.get(params.textDocument.uri);
+    return document ? provideDocumentSymbols(document) : [];
+});
 
-        const year: number = 2000 + Number(titleDateMatch[1].substring(0, 2));
-        const month: number = -1 + Number(titleDateMatch[1].substring(2, 4)); // Months are 0-indexed
-        const day: number = Number(titleDateMatch[1].substring(4, 6));
-        const months = ['Jan.', 'Feb.', 'March', 'April', 'May', 'June', 'July', 'Aug.', 'Sep.', 'Oct.', 'Nov.', 'Dec.'];
-        const expectedCaptionDate = `${months[month]} ${day}, ${year}`;
+connection.onWorkspaceSymbol(async params => {
+    const sheets = await loadWorkspaceSheets(await findSheetFiles(), documents.all());
+    return provideWorkspaceSymbols(sheets, params.query);
+});
 
-        if (captionDateMatch[2] === expectedCaptionDate) { return; }
+connection.languages.semanticTokens.on(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) { return { data: [] }; }
+    return provideSemanticTokens(document, await getDocumentStyle(document.uri));
+});
 
-        indexOfMatch = this.fullText.indexOf(captionDateMatch[2]);
-        const diagnostic: Diagnostic = {
-            severity: DiagnosticSeverity.Warning,
-            range: {
-                start: positionAt(this.index + indexOfMatch),
-                end: positionAt(this.index + indexOfMatch + captionDateMatch[2].length)
-            },
-            message: `The date in the filename does not match the date in the caption or is not formatted correctly.\nExpected: ${expectedCaptionDate}\nFound:    ${captionDateMatch[2]}`,
-            source: 'Markdown Captions'
-        };
-        diagnostics.push(diagnostic);
-    }
+connection.languages.semanticTokens.onDelta(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) { return { edits: [] }; }
+    return provideSemanticTokensDelta(document, params.previousResultId, await getDocumentStyle(document.uri));
+});
 
-    validateDescriptionEndsWithABackslash(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-        let indexOfMatch: number;
-
-        const backslashPattern = /\\$/g;
-        let match = backslashPattern.exec(this.description);
-        if (match) { return; }
-
-        indexOfMatch = this.fullText.indexOf(this.description);
-        diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range: {
-                start: positionAt(this.index + indexOfMatch + this.description.length),
-                end: positionAt(this.index + indexOfMatch + this.description.length + 1)
-            },
-            message: "The description should end in a backslash for pandoc to render propper spacing.",
-            source: 'Markdown Captions'
-        });
-    }
+connection.onPrepareRename(params => {
+    const document = documents.get(params.textDocument.uri);
+    const target = document && findRenameTarget(parseCaptionSheet(document.getText()), params.position);
+    return target ? { range: target.range, placeholder: target.placeholder } : null;
+});
 
-    validateDescriptionEndsWithAttribution(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-        let indexOfMatch: number;
-
-        const attributionPattern = /(\(.*(?:[Pp]hoto|[Vv]ideo).*\)\\)$/g;
-        let match = attributionPattern.exec(this.description);
-        if (match) { return; }
-
-        const charsToUnderline = 15
-        indexOfMatch = this.fullText.indexOf(this.description) +
-            this.description.length - charsToUnderline;
-        diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range: {
-                start: positionAt(this.index + indexOfMatch),
-                end: positionAt(this.index + indexOfMatch + charsToUnderline)
+connection.onRenameRequest(async params => {
+    const document = documents.get(params.textDocument.uri);
+    if (!document) { return null; }
+
+    const sheets = await loadWorkspaceSheets(await findSheetFiles(), documents.all());
+    try {
+        return renameVirin(
+            document.uri,
+            parseCaptionSheet(document.getText()),
+            params.position,
+            params.newName,
+            sheets,
+            {
+                canRenameFiles: hasRenameFileCapability,
+                versionOf: uri => documents.get(uri)?.version ?? null
             },
-            message: "The caption is missing attribution. Expected ending resembling (Photo by John Smith)\.",
-            source: 'Markdown Captions'
-        });
+            await getDocumentSchema(document.uri)
+        );
+    } catch (error) {
+        if (!(error instanceof RenameError)) { throw error; }
+        throw new ResponseError(LSPErrorCodes.RequestFailed, error.message);
     }
+});
 
-    validateNoDoublePunctuation(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-        let indexOfMatch: number;
-        let match: RegExpExecArray | null;
-        // Using a character class caused this to falsely identify numbers as punctuation
-        const punctuationPattern = /(?:\.,|,\.|([ -/:-@[-`{-~])\1{1,})/g;
-
-        while (match = punctuationPattern.exec(this.description)) {
-            indexOfMatch = this.fullText.indexOf(match[0]);
-            diagnostics.push({
-                severity: DiagnosticSeverity.Warning,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + match[0].length)
-                },
-                message: `Found multiple consecutive punctuation characters "${match[0]}"`,
-                source: 'Markdown Captions'
-            });
-        }
-    }
+// Open documents may have unsaved changes, so prefer them over what's on disk
+async function loadTextDocument(uri: string): Promise<TextDocument> {
+    const document = documents.get(uri);
+    if (document) { return document; }
 
-    validateAbbreviationsArePunctuatedCorrectly(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        let indexOfMatch: number;
-        let match: RegExpExecArray | null;
-        type AbbreviationDictionary = {
-            [Key: string]: RegExp;
-        };
-        const abbreviations: AbbreviationDictionary = {
-            // Generic abbreviations
-            'U.S.': /\b(?:US\b|U\.S\b|US\.)(?!\.)/g,
-            // TODO: U.S. States
-            // Officers
-            '2nd Lt.': /\b(?<!Second |First |2nd |1st |2 |1 )(?:Lt(?:\.)?(?! Col| Gen)|2 Lt(?:\.)?|2nd Lt|(?:Second |2 |2nd )?Lieutenant(?:\.)?(?! Col| Gen))(?!\.)/g,
-            '1st Lt.': /\b(?<!Second |First |2nd |1st |2 |1 )(?:Lt(?:\.)?(?! Col| Gen)|1 Lt(?:\.)?|1st Lt|(?:First |1 |1st )?Lieutenant(?:\.)?(?! Col| Gen))(?!\.)/g,
-            'Capt.': /\b(?:Cpt\b|Cpt\.|Capt\b|Captain\b|Captain\.)(?!\.)/g,
-            'Maj.': /\b(?:Maj\b|Major(?:\.)?)(?! Gen)(?!\.)/g,
-            'Lt. Col.': /\b(?:Lt Col\.|Lt(?:\.)? Col\b|(?:Lt|Lieutenant)(?:\.)? Colonel(?:\.)?)(?!\.)/g,
-            'Col.': /\b(?<!Lt |Lt\. |Lieutenant )(?:Col\b|Colonel(?:\.)?)(?!\.)/g,
-            'Brig. Gen.': /\b(?:Brig Gen\.|Brig(?:\.)? Gen\b|(?:Brig|Brigadier)(?:\.)? General(?:\.)?)(?!\.)/g,
-            'Maj. Gen.': /\b(?:Maj Gen\.|Maj(?:\.)? Gen\b|(?:Maj|Major)(?:\.)? General(?:\.)?)(?!\.)/g,
-            'Lt. Gen.': /\b(?:Lt Gen\.|Lt(?:\.)? Gen\b|(?:Lt|Lieutenant)(?:\.)? General(?:\.)?)(?!\.)/g,
-            'Gen.': /\b(?<!Brig\. |Brig |Brigadier |Maj\. |Maj |Major |Lt\. |Lt |Lieutenant )(?:Gen\b|General(?:\.)?)(?!\.)/g,
-            // TODO: Naval Officers
-            // USAF Enlisted
-            'Airman': /\b(?<!Sr |Sr\. |Sen |Sen\. |Senior )(?:Airman Basic(?:\.)?|AB(?:\.)?|Amn(?:\.)?(?! 1st| First)|Airman\.)(?!\.)/g,
-            'Airman 1st Class': /\b(?:Airman First Class|Airman 1st Class\.|A1C|Amn(?:\.)? (?:1st|First) Class)/g,
-            'Senior Airman': /\b(?:SrA(?:\.)?|(?:Sr|Sen)(?:\.)? (?:Amn|Airman)(?:\.)?|Senior Amn(?:\.)?|Senior Airman\.)/g,
-            'Staff Sgt.': /\b(?:SSgt(?:\.)?|Staff (?:Sgt|Sergeant)|Staff Sergeant\.)(?!\.)/g,
-            'Tech. Sgt.': /\b(?:TSgt(?:\.)?|(?:Tech|Technical) (?:Sgt|Sergeant)(?:\.)?|Tech\. Sergeant(?:\.)?|Tech\. Sgt)(?!\.)/g,
-            'Master Sgt.': /\b(?<!Sr |Sr\. |Sen |Sen\. |Senior |Chief )(?:MSgt(?:\.)?|Mstr(?:\.)? (?:Sgt|Sergeant)(?:\.)?|Master Sergeant(?:\.)?|Master Sgt)(?!\.)/g,
-            'Senior Master Sgt.': /\b(?:SMSgt(?:\.)?|(?:Sr|Sen)(?:\.)? (?:Mstr|Master)(?:\.)? (?:Sgt|Sergeant)(?:\.)?|Senior Mstr(?:\.)? (?:Sgt|Sergeant)(?:\.)?|Senior Master Sergeant(?:\.)?|Senior Master Sgt)(?!\.)/g,
-            'Chief Master Sgt.': /\b(?:CMSgt(?:\.)?|Chief Mstr(?:\.)? (?:Sgt|Sergeant)(?:\.)?|Chief Master Sergeant(?:\.)?|Chief Master Sgt)(?!\.)/g,
-            'Command Chief Master Sgt.': /\b(?:CCMSgt(?:\.)?|Cmnd(?:\.)? Chief (?:Mstr|Master)(?:\.)? (?:Sgt|Sergeant)(?:\.)?|Command Chief Mstr(?:\.)? (?:Sgt|Sergeant)(?:\.)?|Command Chief Master Sergeant(?:\.)?|Command Chief Master Sgt)(?!\.)/g,
-            'Chief Master Sgt. of the Air Force': /\b(?:CMSAF(?:\.)?|Chief Mstr(?:\.)? (?:Sgt|Sergeant)(?:\.)? of the Air Force|Chief Master Sergeant(?:\.)? of the Air Force|Chief Master Sgt of the Air Force)(?!\.)/g,
-            // TODO: Other enlisted
-        };
-
-        for (let abbreviation in abbreviations) {
-            indexOfMatch = 0;
-            while (match = abbreviations[abbreviation].exec(this.description)) {
-                if (diagnostics.length >= maxNumberOfProblems) { return; }
-                if (abbreviation === '2nd Lt.' || abbreviation === '1st Lt.') {
-                    log(abbreviation);
-                }
+    const text = await fs.promises.readFile(fileURLToPath(uri), 'utf8');
+    return TextDocument.create(uri, 'Markdown-Captions', 0, text);
+}
 
-                indexOfMatch = this.fullText.indexOf(match[0], indexOfMatch + 1);
-                diagnostics.push({
-                    severity: DiagnosticSeverity.Warning,
-                    range: {
-                        start: positionAt(this.index + indexOfMatch),
-                        end: positionAt(this.index + indexOfMatch + match[0].length)
-                    },
-                    message: `"${match[0]}" should be "${abbreviation}`,
-                    source: 'Markdown Captions'
-                });
+connection.onExecuteCommand(async params => {
+    if (params.command === writeMetadataCommand) {
+        const [uri, options] = (params.arguments || []) as [string, Partial<EmbedOptions> | undefined];
+        const settings = await getDocumentSettings(uri);
+        const textDocument = await loadTextDocument(uri);
+        const results = await embedSheetMetadata(textDocument, fileURLToPath(uri), {
+            dryRun: options?.dryRun ?? false,
+            backup: options?.backup ?? settings.metadata?.backup ?? true,
+            virins: options?.virins,
+        }, await getDocumentSchema(uri));
+
+        // Pushing a single caption comes from a quick fix, which has nowhere else to show what happened
+        if (options?.virins) {
+            for (const result of results.filter(result => result.status === 'skipped' || result.status === 'failed')) {
+                connection.window.showWarningMessage(`Could not write ${result.virin} to ${path.basename(result.file)}. ${result.message}`);
             }
         }
-    }
-
-    validateAbbreviationActuallyUsedASecondTime(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        if (diagnostics.length >= maxNumberOfProblems) { return; }
-        let indexOfMatch: number;
-        let secondIndexOfMatch: number;
-        let match: RegExpExecArray | null;
-        const punctuationPattern = /(\((?!.*?(?:[Pp]hoto|[Vv]ideo)).*?\))/g
-
-        while (match = punctuationPattern.exec(this.description)) {
-            indexOfMatch = this.fullText.indexOf(match[0]);
-            // +2 because match[0] includes the parentheses
-            secondIndexOfMatch = this.fullText.indexOf(match[1], indexOfMatch + 2);
-            if (secondIndexOfMatch !== -1) { continue; }
-
-            diagnostics.push({
-                severity: DiagnosticSeverity.Warning,
-                range: {
-                    start: positionAt(this.index + indexOfMatch),
-                    end: positionAt(this.index + indexOfMatch + match[0].length)
-                },
-                message: `Abbreviation "${match[1]}" is never used a second time.`,
-                source: 'Markdown Captions'
-            });
+        if (results.some(result => result.status === 'written')) {
+            refreshDiagnostics();
         }
+        return results;
     }
+    if (params.command === sortCaptionsCommand) {
+        const [uri] = (params.arguments || []) as [string];
+        const textDocument = await loadTextDocument(uri);
+        const edit = sortCaptionsEdit(parseCaptionSheet(textDocument.getText()));
+        if (!edit) { return false; }
 
-    validate(
-        diagnostics: Diagnostic[],
-        maxNumberOfProblems: number,
-        positionAt: PositionAt,
-    ) {
-        this.validateFilenameMatchesVirin(diagnostics, maxNumberOfProblems, positionAt);
-        this.validateFilenameDateMatchesCaptionDate(diagnostics, maxNumberOfProblems, positionAt);
-        this.validateDescriptionEndsWithABackslash(diagnostics, maxNumberOfProblems, positionAt);
-        this.validateDescriptionEndsWithAttribution(diagnostics, maxNumberOfProblems, positionAt);
-        this.validateNoDoublePunctuation(diagnostics, maxNumberOfProblems, positionAt);
-        this.validateAbbreviationsArePunctuatedCorrectly(diagnostics, maxNumberOfProblems, positionAt);
-        this.validateAbbreviationActuallyUsedASecondTime(diagnostics, maxNumberOfProblems, positionAt);
-    }
-};
-
-function validateHeadline(
-    text: string,
-    diagnostics: Diagnostic[],
-    maxNumberOfProblems: number,
-    priorTextLength: number,
-    positionAt: PositionAt,
-): string {
-    if (diagnostics.length >= maxNumberOfProblems) { return text; }
-
-    const headlinePattern = /^(.+)(?<!\\)$/;
-    const match = headlinePattern.exec(text);
-    if (match) {
-        diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range: {
-                start: positionAt(priorTextLength),
-                end: positionAt(priorTextLength + text.length)
-            },
-            message: 'The headline should end in a backslash for pandoc to render propper spacing.',
-            source: 'Markdown Captions'
+        const result = await connection.workspace.applyEdit({
+            label: 'Sort captions by VIRIN',
+            edit: { changes: { [uri]: [edit] } }
         });
-    }
-    return text;
-}
-
-function validateByline(
-    text: string,
-    diagnostics: Diagnostic[],
-    maxNumberOfProblems: number,
-    priorTextLength: number,
-    positionAt: PositionAt,
-): string {
-    if (diagnostics.length >= maxNumberOfProblems) { return ''; }
-
-    const bylinePattern = /^By (.+)/;
-    let match = bylinePattern.exec(text);
-    if (match) {
-        return text;
-    }
+        return result.applied;
+    }
+    if (params.command === previewCommand) {
+        const [uri] = (params.arguments || []) as [string];
+        const textDocument = await loadTextDocument(uri);
+        return buildPreview(textDocument.getText(), uri.startsWith('file:') ? fileURLToPath(uri) : undefined);
+    }
+    if (params.command === newSheetCommand) {
+        // The sheet doesn't exist yet, but its settings and project config are those of where it's going
+        const [folderUri, sheetUri, options] = (params.arguments || []) as [string, string, Partial<SkeletonOptions> | undefined];
+        const settings = await getDocumentSettings(sheetUri);
+        const skeletonOptions: SkeletonOptions = {
+            ...defaultSkeletonOptions,
+            ...options,
+            service: options?.service || settings.newSheet?.service || '',
+            unit: options?.unit || settings.newSheet?.unit || '',
+            byline: options?.byline || settings.newSheet?.byline || defaultSkeletonOptions.byline,
+        };
+        let skeleton: SheetSkeleton;
+        try {
+            skeleton = await createSheetSkeleton(
+                fileURLToPath(folderUri),
+                fileURLToPath(sheetUri),
+                skeletonOptions,
+                await getDocumentSchema(sheetUri)
+            );
+        } catch (error) {
+            if (!(error instanceof SkeletonError)) { throw error; }
+            throw new ResponseError(LSPErrorCodes.RequestFailed, error.message);
+        }
 
-    const blankLinePattern = /^\s*$/;
-    match = blankLinePattern.exec(text);
-    if (match) {
-        diagnostics.push({
-            severity: DiagnosticSeverity.Warning,
-            range: {
-                start: positionAt(priorTextLength),
-                end: positionAt(priorTextLength + text.length)
-            },
-            message: 'Expected byline to immediately follow the headline.',
-            source: 'Markdown Captions'
-        });
-        return '';
+        // The sheet links to the images by their VIRIN, so they're named after it before it's written
+        const renames = skeleton.files
+            .filter(file => file.renamed !== file.file)
+            .map(file => RenameFile.create(pathToFileURL(file.file).toString(), pathToFileURL(file.renamed).toString()));
+        if (renames.length > 0) {
+            if (!hasRenameFileCapability) {
+                throw new ResponseError(LSPErrorCodes.RequestFailed, 'The editor can\'t rename files, so the images can\'t be named after their VIRINs.');
+            }
+            const result = await connection.workspace.applyEdit({
+                label: 'Name images after their VIRINs',
+                edit: { documentChanges: renames }
+            });
+            if (!result.applied) {
+                throw new ResponseError(LSPErrorCodes.RequestFailed, `The images could not be named after their VIRINs. ${result.failureReason || ''}`.trimEnd());
+            }
+        }
+        return {
+            text: skeleton.text,
+            files: skeleton.files.map(file => ({ ...file, captured: file.captured.toISOString() }))
+        };
     }
+});
 
-    diagnostics.push({
-        severity: DiagnosticSeverity.Error,
-        range: {
-            start: positionAt(priorTextLength),
-            end: positionAt(priorTextLength + text.length)
-        },
-        message: `Expected byline, found "${text}".`,
-        source: 'Markdown Captions'
-    });
-    return text;
-}
-
-function validateBaseKeywords(
-    text: string,
-    diagnostics: Diagnostic[],
-    maxNumberOfProblems: number,
-    priorTextLength: number,
-    positionAt: PositionAt,
-): Keywords | null {
-    if (diagnostics.length >= maxNumberOfProblems) { return null; }
-
-    const blankLinePattern = /^\s*$/;
-    let match = blankLinePattern.exec(text);
-    if (match) { return null; }
-
-    const unfinishedKeywordsPattern = /^(Keywords:)(\s*)(.+;)?(\s*)(\S+(?<!;))$/g;
-    match = unfinishedKeywordsPattern.exec(text);
-    if (match) {
-        const matchesLength = match[1].length + match[2].length + (match[3]?.length || 0) + match[4].length;
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(priorTextLength + matchesLength),
-                end: positionAt(priorTextLength + text.length)
-            },
-            message: `All keywords must end in a ";", found "${match[5]}" but expected "${match[5]};".`,
-            source: 'Markdown Captions'
-        });
+connection.onDidChangeWatchedFiles(change => {
+    // Every sheet below a project config file may now be checked differently
+    if (change.changes.some(event => path.basename(event.uri) === schemaFileName)) {
+        shownErrors.clear();
+        refreshDiagnostics();
     }
 
-    const keywordsPattern = /^(Keywords:)(\s*)(.+;)?/g;
-    match = keywordsPattern.exec(text);
-    if (!match) {
-        diagnostics.push({
-            severity: DiagnosticSeverity.Error,
-            range: {
-                start: positionAt(priorTextLength),
-                end: positionAt(priorTextLength + text.length)
-            },
-            message: `Expected keywords, found "${text}".`,
-            source: 'Markdown Captions'
-        });
-        return null;
+    // Style dictionaries are read again the next time a sheet is checked
+    const changedDictionaries = change.changes.filter(event =>
+        event.uri.startsWith('file:') && styleDictionaries.has(fileURLToPath(event.uri)));
+    for (const event of changedDictionaries) {
+        styleDictionaries.delete(fileURLToPath(event.uri));
+        connection.sendDiagnostics({ uri: event.uri, diagnostics: [] });
     }
-
-    let keywords = (match[3] || '')
-        .split(';')
-        .map(k => k.trim())
-        .filter(k => k.length > 0);
-    if (keywords.length <= 6) {
-        return keywords;
+    if (changedDictionaries.length > 0) {
+        shownErrors.clear();
+        refreshDiagnostics();
+        refreshSemanticTokens();
     }
 
-    diagnostics.push({
-        severity: DiagnosticSeverity.Error,
-        range: {
-            start: positionAt(priorTextLength + match[1].length),
-            end: positionAt(priorTextLength + match[0].length)
-        },
-        message: `A maximum of 6 keywords is allowed. Found ${keywords.length} keywords.`,
-        source: 'Markdown Captions'
-    });
-    return keywords;
-}
+    for (const event of change.changes) {
+        const isSheet = captionSheetExtensions.includes(path.extname(event.uri).toLowerCase());
+        if (!isSheet || !event.uri.startsWith('file:')) { continue; }
 
-async function validateTextDocument(textDocument: TextDocument): Promise<Diagnostic[]> {
-    const settings = await getDocumentSettings(textDocument.uri);
-    const maxNumberOfProblems = settings.maxNumberOfProblems;
-
-    let diagnostics: Diagnostic[] = [];
-    const text = textDocument.getText();
-    const lines = text.split('\n');
-    let priorTextLength = 0;
-
-    const positionAt: PositionAt = offset => textDocument.positionAt(offset);
-
-    let headline: string = '';
-    let byline: string = '';
-    let baseKeywords: Keywords | null = null;
-    let captionBuilder = new CaptionBuilder();
-    let caption: Caption | null = null;
-    let captions: Caption[] = [];
-
-    for (let line of lines) {
-        if (headline === '') {
-            headline = validateHeadline(line, diagnostics, maxNumberOfProblems, priorTextLength, positionAt);
-            priorTextLength += line.length + 1;
-            continue;
-        }
-        if (byline === '') {
-            byline = validateByline(line, diagnostics, maxNumberOfProblems, priorTextLength, positionAt);
-            priorTextLength += line.length + 1;
-            continue;
+        if (event.type !== FileChangeType.Changed) {
+            sheetFiles = undefined;
         }
-        if (baseKeywords === null) {
-            baseKeywords = validateBaseKeywords(line, diagnostics, maxNumberOfProblems, priorTextLength, positionAt);
-            priorTextLength += line.length + 1;
-            continue;
+        if (event.type === FileChangeType.Deleted) {
+            workspaceReports.delete(sheetKey(event.uri));
+            imageFoldersByDocument.delete(event.uri);
         }
-        captionBuilder.getFieldFromLine(line, diagnostics, maxNumberOfProblems, priorTextLength, positionAt);
-        priorTextLength += line.length + 1;
-        caption = captionBuilder.build(baseKeywords.length, diagnostics, maxNumberOfProblems, positionAt);
-        if (caption) {
-            captions.push(caption);
-            captionBuilder = new CaptionBuilder();
+        if (!documents.get(event.uri)) {
+            indexSheetFromDisk(event.uri);
         }
     }
 
-    if (!captionBuilder.isEmpty()) {
-        let firstMissingField = captionBuilder.firstMissingField();
-        let isAre =
-            firstMissingField === 'description' ? 'is' : 'and all later fields are';
-        let message =
-            `Found incomplete caption. The ${firstMissingField} ${isAre} missing.`;
-        if (diagnostics.length < maxNumberOfProblems) {
-            diagnostics.push({
-                severity: DiagnosticSeverity.Error,
-                range: {
-                    start: positionAt(priorTextLength - lines[lines.length - 1].length - 1),
-                    end: positionAt(priorTextLength)
-                },
-                message,
-                source: 'Markdown Captions'
-            });
-        }
-    }
-
-    for (caption of captions) {
-        caption.validate(diagnostics, maxNumberOfProblems, positionAt);
+    // An image a sheet refers to may have appeared or gone away
+    const folders = new Set([...imageFoldersByDocument.values()].flat());
+    const affectsImages = change.changes.some(event =>
+        event.uri.startsWith('file:') && folders.has(path.dirname(fileURLToPath(event.uri))));
+    if (affectsImages) {
+        refreshDiagnostics();
     }
-
-    return diagnostics;
-}
-
-connection.onDidChangeWatchedFiles(_change => {
-    // Monitored files have change in VSCode
-    connection.console.log('We received a file change event');
 });
 
 // Make the text document manager listen on the connection
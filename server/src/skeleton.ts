@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { SheetSchema, defaultSchema, listOf } from './schema';
+import { expectedCaptionDate } from './validation';
+import { UnsupportedFileError } from './metadata/errors';
+import { readJpegCaptureTime } from './metadata/jpeg';
+import { readMp4CreationTime } from './metadata/mp4';
+import { parseVirin } from './virin';
+
+export interface SkeletonOptions {
+    service: string;        // The VIRIN service letter - "F"
+    unit: string;           // The unit or photographer ID - "AB123"
+    start: number;          // The sequence number of the first new VIRIN
+    headline: string;
+    byline: string;         // The photographer, without the "By"
+    keywords: string[];     // The base keywords
+}
+
+export const defaultSkeletonOptions: SkeletonOptions = {
+    service: '',
+    unit: '',
+    start: 1,
+    headline: 'Headline',
+    byline: 'Photographer Name',
+    keywords: [],
+};
+
+// An image of the folder and the caption proposed for it
+export interface SkeletonFile {
+    file: string;           // Absolute path of the image
+    renamed: string;        // Absolute path of the image once named after its VIRIN, which the caption links to
+    virin: string;
+    captured: Date;
+    source: 'exif' | 'mp4' | 'modified' | 'filename';    // Where the date of the VIRIN came from
+}
+
+export interface SheetSkeleton {
+    text: string;
+    files: SkeletonFile[];
+}
+
+export class SkeletonError extends Error {}
+
+type CaptureTimeReader = (file: string) => Promise<Date | undefined>;
+
+async function readJpegFileCaptureTime(file: string): Promise<Date | undefined> {
+    return readJpegCaptureTime(await fs.promises.readFile(file));
+}
+
+const readers: { [extension: string]: [CaptureTimeReader, SkeletonFile['source']] } = {
+    '.jpg': [readJpegFileCaptureTime, 'exif'],
+    '.jpeg': [readJpegFileCaptureTime, 'exif'],
+    '.mp4': [readMp4CreationTime, 'mp4'],
+    '.mov': [readMp4CreationTime, 'mp4'],
+};
+
+const videoExtensions = ['.mp4', '.mov'];
+
+function pad(value: number, length: number): string {
+    return String(value).padStart(length, '0');
+}
+
+function yymmdd(date: Date): string {
+    return pad(date.getFullYear() % 100, 2) + pad(date.getMonth() + 1, 2) + pad(date.getDate(), 2);
+}
+
+// Files that can't be read fall back to their modification time, like files without a capture time
+async function readCaptureTime(file: string): Promise<Pick<SkeletonFile, 'captured' | 'source'>> {
+    const reader = readers[path.extname(file).toLowerCase()];
+    if (reader) {
+        try {
+            const captured = await reader[0](file);
+            if (captured) { return { captured, source: reader[1] }; }
+        } catch (error) {
+            if (!(error instanceof UnsupportedFileError)) { throw error; }
+        }
+    }
+    return { captured: (await fs.promises.stat(file)).mtime, source: 'modified' };
+}
+
+function checkOptions(options: SkeletonOptions, schema: SheetSchema) {
+    if (!schema.services[options.service]) {
+        throw new SkeletonError(`Expected the service letter to be ${listOf(Object.keys(schema.services), 'or')}, found "${options.service}".`);
+    }
+    if (!new RegExp(`^(?:${schema.unitPattern})$`).test(options.unit)) {
+        throw new SkeletonError(`Expected a unit ID like "${schema.unitExample}", found "${options.unit}".`);
+    }
+    if (!Number.isInteger(options.start) || options.start < 1 || options.start > 9999) {
+        throw new SkeletonError(`Expected the first sequence number to be between 1 and 9999, found ${options.start}.`);
+    }
+}
+
+// The path an image tag uses for a file, which always has a folder in it
+function imageTagPath(file: string, sheetPath: string): string {
+    const relative = path.relative(path.dirname(sheetPath), file).split(path.sep).join('/');
+    return relative.includes('/') ? relative : `./${relative}`;
+}
+
+function captionBlock(file: SkeletonFile, sheetPath: string, options: SkeletonOptions, schema: SheetSchema): string[] {
+    const kind = videoExtensions.includes(path.extname(file.file).toLowerCase()) ? 'video' : 'photo';
+    const credit = `${kind[0].toUpperCase()}${kind.substring(1)} by ${options.byline}`;
+    return [
+        `![](<${imageTagPath(file.renamed, sheetPath)}>)`,
+        'Keywords: ',
+        `${file.virin}\\`,
+        `Describe the ${kind}, ${expectedCaptionDate(file.virin.substring(0, 6), schema.centuryPivot)}. (${credit})\\`,
+    ];
+}
+
+/**
+ * Starts a caption sheet for the images in a folder: a headline, byline and
+ * base keywords, then a caption for each image in the order they were taken,
+ * with an empty keywords line and a placeholder description.
+ *
+ * Images already named after a VIRIN keep it. The others get a VIRIN dated
+ * from their Exif DateTimeOriginal or MP4 creation time, or their modification
+ * time when they have neither, numbered on from `options.start` past the
+ * numbers the folder already uses. The captions link to the images by their
+ * VIRIN, so the images the caller doesn't rename to `renamed` won't match.
+ */
+export async function createSheetSkeleton(
+    folder: string,
+    sheetPath: string,
+    options: SkeletonOptions,
+    schema: SheetSchema = defaultSchema,
+): Promise<SheetSkeleton> {
+    checkOptions(options, schema);
+
+    const extensions = schema.extensions.map(extension => extension.toLowerCase());
+    const entries = await fs.promises.readdir(folder, { withFileTypes: true });
+    const images = entries
+        .filter(entry => entry.isFile() && !entry.name.startsWith('.') &&
+            extensions.includes(path.extname(entry.name).toLowerCase()))
+        .map(entry => path.join(folder, entry.name));
+    if (images.length === 0) {
+        throw new SkeletonError(`${folder} has no ${listOf(schema.extensions, 'or')} files.`);
+    }
+
+    const captured: (Pick<SkeletonFile, 'file' | 'captured' | 'source'> & { virin?: string })[] = [];
+    for (const file of images) {
+        captured.push({ file, virin: parseVirin(path.parse(file).name)?.text, ...await readCaptureTime(file) });
+    }
+    captured.sort((a, b) => a.captured.getTime() - b.captured.getTime() || a.file.localeCompare(b.file));
+
+    const used = new Set(captured.flatMap(image => image.virin ? [parseVirin(image.virin)!.sequence] : []));
+    const renamed = (file: string, virin: string) => path.join(folder, `${virin}${path.extname(file)}`);
+    let sequence = options.start;
+    const files: SkeletonFile[] = captured.map(image => {
+        if (image.virin) {
+            return { file: image.file, renamed: image.file, virin: image.virin, captured: image.captured, source: 'filename' };
+        }
+        while (used.has(sequence)) { sequence++; }
+        if (sequence > 9999) {
+            throw new SkeletonError(`There are too many images to number them from ${pad(options.start, 4)}.`);
+        }
+        used.add(sequence);
+        const virin = `${yymmdd(image.captured)}-${options.service}-${options.unit}-${pad(sequence, 4)}`;
+        return { file: image.file, renamed: renamed(image.file, virin), virin, captured: image.captured, source: image.source };
+    });
+    // The numbers of images named after a VIRIN are skipped, so only something that isn't an image can be in the way
+    const taken = files.find(file => file.renamed !== file.file && fs.existsSync(file.renamed));
+    if (taken) {
+        throw new SkeletonError(`Can't name ${path.basename(taken.file)} after its VIRIN, ${path.basename(taken.renamed)} already exists in ${folder}.`);
+    }
+    // Images named after a VIRIN may not have been taken in its order
+    files.sort((a, b) => a.virin < b.virin ? -1 : a.virin > b.virin ? 1 : 0);
+
+    const lines = [
+        `${options.headline}\\`,
+        `By ${options.byline}`,
+        `Keywords: ${options.keywords.map(keyword => `${keyword};`).join(' ')}`.trimEnd(),
+    ];
+    for (const file of files) {
+        lines.push('', ...captionBlock(file, sheetPath, options, schema));
+    }
+    return { text: lines.join('\n') + '\n', files };
+}
+
+// Names the images of a skeleton after their VIRINs, as the sheet links to them
+export async function renameSkeletonFiles(skeleton: SheetSkeleton): Promise<SkeletonFile[]> {
+    const renamed = skeleton.files.filter(file => file.renamed !== file.file);
+    for (const file of renamed) {
+        await fs.promises.rename(file.file, file.renamed);
+    }
+    return renamed;
+}
@@ -0,0 +1,128 @@
+// A U.S. state and the ways captions write it
+interface State {
+    name: string;       // "Washington"
+    ap?: string;        // The AP abbreviation used after a city - "Wash.", none for the states that are never abbreviated
+    postal: string;     // "WA"
+}
+
+const states: State[] = [
+    { name: 'Alabama', ap: 'Ala.', postal: 'AL' },
+    { name: 'Alaska', postal: 'AK' },
+    { name: 'Arizona', ap: 'Ariz.', postal: 'AZ' },
+    { name: 'Arkansas', ap: 'Ark.', postal: 'AR' },
+    { name: 'California', ap: 'Calif.', postal: 'CA' },
+    { name: 'Colorado', ap: 'Colo.', postal: 'CO' },
+    { name: 'Connecticut', ap: 'Conn.', postal: 'CT' },
+    { name: 'Delaware', ap: 'Del.', postal: 'DE' },
+    { name: 'Florida', ap: 'Fla.', postal: 'FL' },
+    { name: 'Georgia', ap: 'Ga.', postal: 'GA' },
+    { name: 'Hawaii', postal: 'HI' },
+    { name: 'Idaho', postal: 'ID' },
+    { name: 'Illinois', ap: 'Ill.', postal: 'IL' },
+    { name: 'Indiana', ap: 'Ind.', postal: 'IN' },
+    { name: 'Iowa', postal: 'IA' },
+    { name: 'Kansas', ap: 'Kan.', postal: 'KS' },
+    { name: 'Kentucky', ap: 'Ky.', postal: 'KY' },
+    { name: 'Louisiana', ap: 'La.', postal: 'LA' },
+    { name: 'Maine', postal: 'ME' },
+    { name: 'Maryland', ap: 'Md.', postal: 'MD' },
+    { name: 'Massachusetts', ap: 'Mass.', postal: 'MA' },
+    { name: 'Michigan', ap: 'Mich.', postal: 'MI' },
+    { name: 'Minnesota', ap: 'Minn.', postal: 'MN' },
+    { name: 'Mississippi', ap: 'Miss.', postal: 'MS' },
+    { name: 'Missouri', ap: 'Mo.', postal: 'MO' },
+    { name: 'Montana', ap: 'Mont.', postal: 'MT' },
+    { name: 'Nebraska', ap: 'Neb.', postal: 'NE' },
+    { name: 'Nevada', ap: 'Nev.', postal: 'NV' },
+    { name: 'New Hampshire', ap: 'N.H.', postal: 'NH' },
+    { name: 'New Jersey', ap: 'N.J.', postal: 'NJ' },
+    { name: 'New Mexico', ap: 'N.M.', postal: 'NM' },
+    { name: 'New York', ap: 'N.Y.', postal: 'NY' },
+    { name: 'North Carolina', ap: 'N.C.', postal: 'NC' },
+    { name: 'North Dakota', ap: 'N.D.', postal: 'ND' },
+    { name: 'Ohio', postal: 'OH' },
+    { name: 'Oklahoma', ap: 'Okla.', postal: 'OK' },
+    { name: 'Oregon', ap: 'Ore.', postal: 'OR' },
+    { name: 'Pennsylvania', ap: 'Pa.', postal: 'PA' },
+    { name: 'Rhode Island', ap: 'R.I.', postal: 'RI' },
+    { name: 'South Carolina', ap: 'S.C.', postal: 'SC' },
+    { name: 'South Dakota', ap: 'S.D.', postal: 'SD' },
+    { name: 'Tennessee', ap: 'Tenn.', postal: 'TN' },
+    { name: 'Texas', postal: 'TX' },
+    { name: 'Utah', postal: 'UT' },
+    { name: 'Vermont', ap: 'Vt.', postal: 'VT' },
+    { name: 'Virginia', ap: 'Va.', postal: 'VA' },
+    { name: 'Washington', ap: 'Wash.', postal: 'WA' },
+    { name: 'West Virginia', ap: 'W.Va.', postal: 'WV' },
+    { name: 'Wisconsin', ap: 'Wis.', postal: 'WI' },
+    { name: 'Wyoming', ap: 'Wyo.', postal: 'WY' },
+];
+
+// A state written the wrong way for where it is in a description
+export interface StateProblem {
+    start: number;
+    end: number;
+    text: string;
+    replacement: string;
+    message: string;
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const statesByForm = new Map<string, State>();
+for (const state of states) {
+    statesByForm.set(state.name, state);
+    statesByForm.set(state.postal, state);
+    if (state.ap) {
+        statesByForm.set(state.ap, state);
+    }
+}
+
+// Longest first, so "West Virginia" wins over "Virginia"
+const statePattern = new RegExp(
+    `(?<![\\w.])(?:${[...statesByForm.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})(?!\\w)`,
+    'g'
+);
+const afterCityPattern = /[A-Z][\w.'-]*,\s+$/;
+const followedByNamePattern = /^\s+[A-Z]/;
+
+/**
+ * Finds the states in a description that don't follow AP style: postal codes
+ * after a city, full names after a city that should be abbreviated, and
+ * abbreviations standing alone that should be spelled out. "Alaska",
+ * "Hawaii", "Idaho", "Iowa", "Maine", "Ohio", "Texas" and "Utah" are never
+ * abbreviated.
+ */
+export function findStateProblems(text: string): StateProblem[] {
+    const problems: StateProblem[] = [];
+    statePattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while (match = statePattern.exec(text)) {
+        const written = match[0];
+        const state = statesByForm.get(written)!;
+        const start = match.index;
+        const end = start + written.length;
+        const afterCity = afterCityPattern.test(text.substring(0, start));
+        const problem = (replacement: string, message: string) =>
+            problems.push({ start, end, text: written, replacement, message });
+
+        if (written === state.postal) {
+            // Two capitals are too often something else to flag without a city before them
+            if (!afterCity) { continue; }
+            if (state.ap) {
+                problem(state.ap, `Use the AP abbreviation "${state.ap}" instead of the postal code "${written}".`);
+            } else {
+                problem(state.name, `"${state.name}" is never abbreviated. Write it out instead of "${written}".`);
+            }
+        } else if (written === state.ap && !afterCity) {
+            problem(state.name, `"${written}" should be spelled out as "${state.name}" when it doesn't follow a city.`);
+        } else if (written === state.name && state.ap && afterCity) {
+            // "Washington National Guard" and "Virginia Beach" aren't a state after a city
+            if (followedByNamePattern.test(text.substring(end))) { continue; }
+            problem(state.ap, `Use the AP abbreviation "${state.ap}" for "${written}" after a city.`);
+        }
+    }
+    return problems;
+}
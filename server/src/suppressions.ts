@@ -0,0 +1,99 @@
+import { Diagnostic, DiagnosticSeverity, Range } from 'vscode-languageserver';
+import { CaptionSheet } from './parser';
+import { ruleIds } from './rules';
+
+// The lines a directive turns a rule off for, `rule` being undefined for every rule
+interface Suppression {
+    rule?: string;
+    range: Range;           // The rule ID in the comment, or the whole comment
+    firstLine: number;
+    lastLine: number;
+    used: boolean;
+}
+
+function unused(range: Range, message: string): Diagnostic {
+    return {
+        severity: DiagnosticSeverity.Warning,
+        range,
+        message,
+        code: 'unused-suppression',
+        source: 'Markdown Captions'
+    };
+}
+
+/**
+ * Drops the diagnostics turned off by suppression comments and reports the
+ * comments, or the rule IDs in them, that didn't turn anything off.
+ *
+ * - `<!-- captions-disable-next-line rule-id -->` covers the next line that
+ *   isn't itself a comment
+ * - `<!-- captions-disable rule-id -->` covers every line up to a
+ *   `<!-- captions-enable -->`, or to the end of the sheet
+ * - `<!-- captions-disable-file rule-id -->` covers the whole sheet
+ *
+ * Leaving out the rule IDs covers every rule.
+ */
+export function applySuppressions(sheet: CaptionSheet, diagnostics: Diagnostic[]): Diagnostic[] {
+    const lastLine = sheet.lines.length - 1;
+    const suppressions: Suppression[] = [];
+    const problems: Diagnostic[] = [];
+    let open: Suppression[] = [];
+
+    for (const directive of sheet.directives) {
+        const line = directive.range.start.line;
+        const known = directive.rules.filter(rule => {
+            if (ruleIds.includes(rule.text)) { return true; }
+            problems.push(unused(rule.range, `Unknown rule "${rule.text}".`));
+            return false;
+        });
+        if (directive.rules.length > 0 && known.length === 0) { continue; }
+
+        // Each rule ID is reported on its own when unused, so the comment can be trimmed
+        const targets = known.length > 0
+            ? known.map(rule => ({ rule: rule.text, range: rule.range }))
+            : [{ rule: undefined, range: directive.range }];
+
+        if (directive.kind === 'enable') {
+            const closing = open.filter(suppression =>
+                known.length === 0 || known.some(rule => rule.text === suppression.rule));
+            if (closing.length === 0) {
+                problems.push(unused(directive.range, 'Found "captions-enable" without an earlier "captions-disable" for the same rules.'));
+            }
+            closing.forEach(suppression => { suppression.lastLine = line; });
+            open = open.filter(suppression => !closing.includes(suppression));
+            continue;
+        }
+
+        let firstLine = 0;
+        let endLine = lastLine;
+        if (directive.kind === 'disable-next-line') {
+            const next = sheet.lines.slice(line + 1).find(sheetLine => !sheetLine.directive);
+            firstLine = endLine = next ? next.line : line + 1;
+        } else if (directive.kind === 'disable') {
+            firstLine = line;
+        }
+
+        for (const target of targets) {
+            const suppression = { ...target, firstLine, lastLine: endLine, used: false };
+            suppressions.push(suppression);
+            if (directive.kind === 'disable') { open.push(suppression); }
+        }
+    }
+
+    const kept = diagnostics.filter(diagnostic => {
+        const line = diagnostic.range.start.line;
+        const covering = suppressions.filter(suppression =>
+            line >= suppression.firstLine && line <= suppression.lastLine &&
+            (!suppression.rule || suppression.rule === diagnostic.code));
+        covering.forEach(suppression => { suppression.used = true; });
+        return covering.length === 0;
+    });
+
+    for (const suppression of suppressions.filter(suppression => !suppression.used)) {
+        problems.push(unused(suppression.range, suppression.rule
+            ? `"${suppression.rule}" is suppressed here but isn't reported.`
+            : 'Nothing is reported where this comment suppresses problems.'));
+    }
+    return [...kept, ...problems.sort((a, b) =>
+        a.range.start.line - b.range.start.line || a.range.start.character - b.range.start.character)];
+}
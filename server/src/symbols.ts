@@ -0,0 +1,96 @@
+import {
+    DocumentSymbol,
+    SymbolInformation,
+    SymbolKind
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CaptionBlock, CaptionSheet, parseCaptionSheet } from './parser';
+import { WorkspaceSheet } from './workspace';
+
+// How much of the description is shown next to each caption
+const detailWords = 8;
+
+// A line as it reads in the preview, without the trailing backslash
+function withoutBackslash(text: string): string {
+    return text.replace(/\\?\s*$/, '');
+}
+
+function captionName(block: CaptionBlock, position: number): string {
+    return block.title?.virin?.text ||
+        withoutBackslash(block.title?.text || '') ||
+        block.imageTag?.filename.text ||
+        `Caption ${position + 1}`;
+}
+
+function captionDetail(block: CaptionBlock): string {
+    const words = withoutBackslash(block.description?.text || '').split(/\s+/).filter(word => word);
+    return words.slice(0, detailWords).join(' ') + (words.length > detailWords ? '…' : '');
+}
+
+function captionSymbols(sheet: CaptionSheet): DocumentSymbol[] {
+    return sheet.captions.map((block, i) => {
+        const selection = block.title?.virin || block.title || block.imageTag;
+        return {
+            name: captionName(block, i),
+            detail: captionDetail(block),
+            kind: SymbolKind.Object,
+            range: block.range,
+            selectionRange: selection ? selection.range : block.range
+        };
+    });
+}
+
+/**
+ * The outline of a caption sheet: the headline with the byline and every
+ * caption, named by its VIRIN, as its children.
+ */
+export function provideDocumentSymbols(textDocument: TextDocument): DocumentSymbol[] {
+    const sheet = parseCaptionSheet(textDocument.getText());
+    const children = captionSymbols(sheet);
+    if (sheet.byline) {
+        children.unshift({
+            name: sheet.byline.text.trim(),
+            detail: 'Byline',
+            kind: SymbolKind.String,
+            range: sheet.byline.range,
+            selectionRange: sheet.byline.range
+        });
+    }
+    if (!sheet.headline) { return children; }
+
+    return [{
+        name: withoutBackslash(sheet.headline.text),
+        detail: 'Headline',
+        kind: SymbolKind.File,
+        // The headline stands for the whole sheet, so it has to cover its byline and captions
+        range: {
+            start: sheet.headline.range.start,
+            end: textDocument.positionAt(textDocument.getText().length)
+        },
+        selectionRange: sheet.headline.range,
+        children
+    }];
+}
+
+/**
+ * Finds the captions in any sheet of the workspace whose VIRIN contains the
+ * query, ignoring case.
+ */
+export function provideWorkspaceSymbols(sheets: WorkspaceSheet[], query: string): SymbolInformation[] {
+    const fragment = query.trim().toUpperCase();
+    const symbols: SymbolInformation[] = [];
+    for (const { uri, sheet } of sheets) {
+        for (const block of sheet.captions) {
+            const virin = block.title?.virin;
+            if (!virin || !virin.text.toUpperCase().includes(fragment)) { continue; }
+
+            symbols.push({
+                name: virin.text,
+                kind: SymbolKind.Object,
+                location: { uri, range: block.range },
+                containerName: sheet.headline && withoutBackslash(sheet.headline.text)
+            });
+        }
+    }
+    return symbols;
+}
@@ -0,0 +1,84 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+import { expandGlob } from '../cli';
+import { sheetText, useTempFolder } from './helper';
+
+const cli = path.join(__dirname, '..', 'cli.js');
+const jpeg = Buffer.from([0xFF, 0xD8, 0xFF, 0xDA, 0, 2, 0xFF, 0xD9]);
+
+const cleanSheet = sheetText('240312-F-AB123-0001');
+
+suite('Command line', () => {
+    const folder = useTempFolder('photos');
+
+    const run = (...args: string[]) => spawnSync(process.execPath, [cli, ...args], { cwd: folder(), encoding: 'utf8' });
+
+    setup(() => {
+        fs.writeFileSync(folder('photos', '240312-F-AB123-0001.jpg'), jpeg);
+        fs.writeFileSync(folder('clean.md'), cleanSheet);
+        // Its image isn't there
+        fs.writeFileSync(folder('broken.md'), cleanSheet.replace(/0001/g, '0002'));
+    });
+
+    test('Exits with 0 for a clean sheet and 1 when a sheet has errors', () => {
+        assert.equal(run('lint', 'clean.md').status, 0);
+
+        const result = run('lint', '--format', 'json', 'broken.md');
+        assert.equal(result.status, 1);
+        const [report] = JSON.parse(result.stdout);
+        assert.equal(report.file, 'broken.md');
+        assert.ok(report.diagnostics.some((diagnostic: { code: string, line: number }) =>
+            diagnostic.code === 'image-missing' && diagnostic.line === 5));
+    });
+
+    test('Changes the severity of a rule with --rule', () => {
+        assert.equal(run('lint', '--rule', 'image-missing=warning', 'broken.md').status, 0);
+    });
+
+    test('Exits with 2 and the usage for bad arguments', () => {
+        const result = run('lint', '--format', 'xml', 'clean.md');
+        assert.equal(result.status, 2);
+        assert.match(result.stderr, /Unknown format "xml"/);
+        assert.match(result.stderr, /Usage: markdown-captions/);
+
+        assert.equal(run('lint', 'missing.md').status, 2);
+        assert.equal(run('frobnicate').status, 2);
+    });
+
+    test('Reports unexpected failures with a message rather than a stack trace', () => {
+        fs.mkdirSync(folder('folder.md'));
+
+        const result = run('lint', 'folder.md');
+        assert.equal(result.status, 2);
+        assert.match(result.stderr, /EISDIR/);
+        assert.doesNotMatch(result.stderr, /\n\s+at /);
+    });
+
+    test('Starts a sheet that lints clean, naming the images after their VIRINs', () => {
+        fs.mkdirSync(folder('shoot'));
+        fs.writeFileSync(folder('shoot', 'a.jpg'), jpeg);
+
+        const result = run('new-sheet', '--service', 'F', '--unit', 'AB123', '--start', '5', '--output', 'shoot.md', 'shoot');
+        assert.equal(result.status, 0);
+        assert.match(result.stderr, /Named 1 image after its VIRIN\./);
+        const [renamed] = fs.readdirSync(folder('shoot'));
+        assert.match(renamed, /^\d{6}-F-AB123-0005\.jpg$/);
+        assert.ok(fs.readFileSync(folder('shoot.md'), 'utf8').includes(`![](<shoot/${renamed}>)`));
+        assert.equal(run('lint', 'shoot.md').status, 0);
+    });
+
+    test('Expands globs relative to the current folder', () => {
+        const cwd = process.cwd();
+        process.chdir(folder());
+        try {
+            assert.deepEqual(expandGlob('*.md'), ['broken.md', 'clean.md']);
+            assert.deepEqual(expandGlob('**/*.jpg'), ['photos/240312-F-AB123-0001.jpg']);
+            assert.deepEqual(expandGlob('clean.md'), ['clean.md']);
+            assert.deepEqual(expandGlob('nothing/*.md'), []);
+        } finally {
+            process.chdir(cwd);
+        }
+    });
+});
@@ -0,0 +1,113 @@
+import * as assert from 'assert';
+import { CodeActionKind, Diagnostic, Range, TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { fixAllKind, provideCodeActions } from '../codeActions';
+import { CaptionFix, validateCaptionSheet } from '../validation';
+
+const uri = 'file:///sheet.md';
+
+function sheet(...captionLines: string[]): TextDocument {
+    const text = [
+        'Airmen train at Ramstein\\',
+        'By Staff Sgt. Jane Doe',
+        'Keywords: Air Force; Training;',
+        '',
+        ...captionLines,
+    ].join('\n');
+    return TextDocument.create(uri, 'Markdown-Captions', 1, text);
+}
+
+function codeActions(document: TextDocument, diagnostics: Diagnostic[], only?: string[]) {
+    return provideCodeActions({
+        textDocument: { uri },
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        context: { diagnostics, only }
+    }, diagnostics);
+}
+
+function fixAll(document: TextDocument): string {
+    const diagnostics = validateCaptionSheet(document, 100);
+    const [action] = codeActions(document, diagnostics, [fixAllKind]);
+    const edits: TextEdit[] = action?.edit?.changes?.[uri] || [];
+    return TextDocument.applyEdits(document, edits);
+}
+
+suite('Code actions', () => {
+    test('Places doubled spaces on the description, not on an earlier line with the same text', () => {
+        const document = sheet(
+            '![](<photos/240312-F-AB123-0001.jpg>)',
+            'Keywords: C;  D;',
+            '240312-F-AB123-0001\\',
+            'Airmen  train  at Ramstein, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+        );
+
+        const doubled = validateCaptionSheet(document, 100).filter(diagnostic => diagnostic.code === 'double-punctuation');
+        assert.deepEqual(doubled.map(diagnostic => diagnostic.range), [
+            { start: { line: 7, character: 6 }, end: { line: 7, character: 8 } },
+            { start: { line: 7, character: 13 }, end: { line: 7, character: 15 } },
+        ]);
+
+        assert.equal(
+            fixAll(document).split('\n')[7],
+            'Airmen train at Ramstein, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\'
+        );
+        assert.equal(fixAll(document).split('\n')[5], 'Keywords: C;  D;');
+    });
+
+    test('Places a filename mismatch on the filename and the title', () => {
+        const document = sheet(
+            '![](<photos/240312-F-AB123-0002.jpg>)',
+            'Keywords: 240312-F-AB123-0001;',
+            '240312-F-AB123-0001\\',
+            'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+        );
+
+        const mismatches = validateCaptionSheet(document, 100).filter(diagnostic => diagnostic.code === 'filename-title-mismatch');
+        assert.deepEqual(mismatches.map(diagnostic => diagnostic.range), [
+            { start: { line: 4, character: 12 }, end: { line: 4, character: 31 } },
+            { start: { line: 6, character: 0 }, end: { line: 6, character: 19 } },
+        ]);
+    });
+
+    test('Offers the fix of a diagnostic as a preferred quick fix and applies it with fix all', () => {
+        const document = sheet(
+            '![](<photos/240312-F-AB123-0001.jpg>)',
+            'Keywords: C;',
+            '240312-F-AB123-0001',
+            'Airmen train, Mar 12, 2024... (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+        );
+        const diagnostics = validateCaptionSheet(document, 100);
+        const titleBackslash = diagnostics.find(diagnostic => diagnostic.code === 'title-backslash')!;
+
+        const actions = codeActions(document, [titleBackslash]);
+        assert.equal(actions[0].title, 'Add a trailing backslash');
+        assert.equal(actions[0].kind, CodeActionKind.QuickFix);
+        assert.ok(actions[0].isPreferred);
+
+        assert.equal(fixAll(document).split('\n')[6], '240312-F-AB123-0001\\');
+    });
+
+    test('Offers fix all next to a quick fix only when there is more to fix, without overlapping edits', () => {
+        const range = (start: number, end: number): Range => ({ start: { line: 0, character: start }, end: { line: 0, character: end } });
+        const diagnostic = (start: number, end: number, ...fixes: CaptionFix[]): Diagnostic =>
+            ({ range: range(start, end), message: '', data: { fixes } });
+        const fix = (start: number, end: number, text: string, safe: boolean): CaptionFix =>
+            ({ title: `Replace with "${text}"`, edits: [TextEdit.replace(range(start, end), text)], safe });
+
+        const first = diagnostic(0, 2, fix(0, 2, 'a', true));
+        const overlapping = diagnostic(1, 3, fix(1, 3, 'b', true));
+        const unsafe = diagnostic(5, 6, fix(5, 6, 'c', false));
+        const document = TextDocument.create(uri, 'Markdown-Captions', 1, 'xxxxxxx');
+
+        assert.deepEqual(codeActions(document, [first]).map(action => action.title), ['Replace with "a"']);
+        assert.deepEqual(codeActions(document, [unsafe]).map(action => [action.title, action.isPreferred]), [['Replace with "c"', false]]);
+
+        const withFixAll = provideCodeActions({
+            textDocument: { uri },
+            range: range(0, 0),
+            context: { diagnostics: [first] }
+        }, [first, overlapping, unsafe]);
+        assert.deepEqual(withFixAll.map(action => action.title), ['Replace with "a"', 'Fix all safe caption problems']);
+        assert.deepEqual(withFixAll[1].edit?.changes?.[uri], [TextEdit.replace(range(0, 2), 'a')]);
+    });
+});
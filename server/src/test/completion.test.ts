@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { provideCompletions } from '../completion';
+import { defaultSchema } from '../schema';
+import { useTempFolder } from './helper';
+
+function document(...lines: string[]): TextDocument {
+    return TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, lines.join('\n'));
+}
+
+suite('Completion', () => {
+    const folder = useTempFolder('photos');
+
+    setup(() => {
+        for (const name of ['a.jpg', 'b.JPG', 'c.png', 'd.mp4', 'notes.txt', '.hidden.jpg']) {
+            fs.writeFileSync(folder('photos', name), '');
+        }
+    });
+
+    test('Offers the folders and the files with an allowed extension in an image tag', async () => {
+        const sheet = document('Headline\\', 'By Jane Doe', 'Keywords: A;', '', '![](<photos/a.jpg>)', '', '![](<photos/');
+        const sheetPath = folder('captions.md');
+
+        const items = await provideCompletions(sheet, { line: 6, character: 12 }, sheetPath);
+        assert.deepEqual(items.map(item => [item.label, item.detail]), [
+            ['a.jpg', 'Already captioned'],
+            ['b.JPG', undefined],
+            ['d.mp4', undefined],
+        ]);
+        assert.deepEqual(items[1].textEdit, { range: { start: { line: 6, character: 12 }, end: { line: 6, character: 12 } }, newText: 'b.JPG' });
+
+        const withPng = await provideCompletions(sheet, { line: 6, character: 12 }, sheetPath, undefined,
+            { ...defaultSchema, extensions: ['.png'] });
+        assert.deepEqual(withPng.map(item => item.label), ['c.png']);
+
+        const folders = await provideCompletions(sheet, { line: 6, character: 5 }, sheetPath);
+        assert.ok(folders.some(item => item.label === 'photos/'));
+    });
+
+    test('Offers keywords used elsewhere in the sheet, most used first', async () => {
+        const sheet = document(
+            'Headline\\', 'By Jane Doe', 'Keywords: Air Force;',
+            '', '![](<photos/a.jpg>)', 'Keywords: Ramstein; Exercise; Air Force;', '240312-F-AB123-0001\\', 'A.\\',
+            '', '![](<photos/b.jpg>)', 'Keywords: Exercise;', '240312-F-AB123-0002\\', 'B.\\',
+            '', '![](<photos/c.jpg>)', 'Keywords: Ex',
+        );
+
+        const items = await provideCompletions(sheet, { line: 15, character: 12 });
+        assert.deepEqual(items.map(item => [item.label, item.detail]), [
+            ['Exercise', 'Used 2 times in this sheet'],
+            ['Ramstein', 'Used 1 time in this sheet'],
+        ]);
+        assert.deepEqual(items[0].textEdit, { range: { start: { line: 15, character: 10 }, end: { line: 15, character: 12 } }, newText: 'Exercise;' });
+    });
+
+    test('Offers the VIRIN of the image and the next in the sequence on a title line', async () => {
+        const sheet = document(
+            'Headline\\', 'By Jane Doe', 'Keywords: A;',
+            '', '![](<photos/240312-F-AB123-0001.jpg>)', 'Keywords: B;', '240312-F-AB123-0001\\',
+            'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+            '', '![](<photos/240312-F-AB123-0007.jpg>)', 'Keywords: B;', '',
+        );
+
+        const items = await provideCompletions(sheet, { line: 11, character: 0 });
+        assert.deepEqual(items.map(item => [item.label, item.detail, item.preselect]), [
+            ['240312-F-AB123-0007', 'VIRIN from the image filename', true],
+            ['240312-F-AB123-0002', 'Next VIRIN in the sequence', false],
+        ]);
+        assert.equal(items[1].textEdit?.newText, '240312-F-AB123-0002\\');
+    });
+
+    test('Offers the shoot date and the ranks of the service in a description', async () => {
+        const sheet = document(
+            'Headline\\', 'By Jane Doe', 'Keywords: A;',
+            '', '![](<photos/240312-N-AB123-0001.jpg>)', 'Keywords: B;', '240312-N-AB123-0001\\',
+            'Sailors train, Ma',
+        );
+
+        const items = await provideCompletions(sheet, { line: 7, character: 17 });
+        assert.equal(items[0].label, 'March 12, 2024');
+        assert.deepEqual(items[0].textEdit, { range: { start: { line: 7, character: 15 }, end: { line: 7, character: 17 } }, newText: 'March 12, 2024' });
+        assert.ok(items.some(item => item.label === 'Petty Officer 2nd Class'));
+        assert.ok(!items.some(item => item.label === 'Staff Sgt.'));
+    });
+});
@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import { findCaptionDates, findMonthProblems, formatCaptionDate, parseVirinDate, weekdayOf } from '../dates';
+
+suite('Dates', () => {
+    test('Reads the date of a VIRIN around the century pivot', () => {
+        assert.deepEqual(parseVirinDate('240312', 70), { year: 2024, month: 3, day: 12 });
+        assert.deepEqual(parseVirinDate('991231', 70), { year: 1999, month: 12, day: 31 });
+        assert.deepEqual(parseVirinDate('240229', 70), { year: 2024, month: 2, day: 29 });
+
+        assert.equal(parseVirinDate('230229', 70), undefined);
+        assert.equal(parseVirinDate('241345', 70), undefined);
+        assert.equal(parseVirinDate('24031', 70), undefined);
+    });
+
+    test('Formats dates the way captions write them', () => {
+        assert.equal(formatCaptionDate({ year: 2024, month: 9, day: 5 }), 'Sept. 5, 2024');
+        assert.equal(formatCaptionDate({ year: 2024, month: 3, day: 12 }), 'March 12, 2024');
+        assert.equal(weekdayOf({ year: 2024, month: 3, day: 12 }), 2);
+    });
+
+    test('Finds dates, weekdays and ranges in a description', () => {
+        const [single] = findCaptionDates('Airmen train Tuesday, March 12, 2024.');
+        assert.equal(single.text, 'March 12, 2024');
+        assert.equal(single.weekday?.text, 'Tuesday');
+        assert.equal(single.weekday?.index, 2);
+        assert.deepEqual(single.from, { year: 2024, month: 3, day: 12 });
+
+        const [range] = findCaptionDates('Airmen train March 30-April 2, 2024.');
+        assert.deepEqual([range.from, range.to], [{ year: 2024, month: 3, day: 30 }, { year: 2024, month: 4, day: 2 }]);
+
+        const [newYear] = findCaptionDates('Airmen train Dec. 30-Jan. 2, 2025.');
+        assert.deepEqual([newYear.from, newYear.to], [{ year: 2024, month: 12, day: 30 }, { year: 2025, month: 1, day: 2 }]);
+
+        const [withoutYear] = findCaptionDates('Airmen train Aug. 3.');
+        assert.equal(withoutYear.hasYear, false);
+        assert.equal(withoutYear.from.year, 0);
+    });
+
+    test('Finds months written the way AP style doesn\'t', () => {
+        const problems = (text: string) => findMonthProblems(text).map(problem => [problem.text, problem.replacement]);
+
+        assert.deepEqual(problems('Airmen train September 5, 2024.'), [['September', 'Sept.']]);
+        assert.deepEqual(problems('Airmen train Mar. 12, 2024.'), [['Mar.', 'March']]);
+        assert.deepEqual(problems('Airmen train Sept. 5 and in Oct. of 2024.'), [['Oct.', 'October']]);
+        assert.deepEqual(problems('Airmen train in March and with Jan Smith.'), []);
+    });
+});
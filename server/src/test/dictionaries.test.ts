@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import {
+    bundledStyleEntries,
+    findOtherServiceMatches,
+    findRanks,
+    findStyleMatches,
+    mergeStyleEntries,
+    parseStyleDictionary
+} from '../dictionaries';
+import { CaptionDiagnosticData, validateCaptionSheet } from '../validation';
+
+function preferredFor(text: string, service?: string): string[] {
+    return findStyleMatches(text, bundledStyleEntries(), service).map(match => `${match.text} -> ${match.entry.preferred}`);
+}
+
+function abbreviationDiagnostics(virin: string, description: string) {
+    const document = TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, [
+        'Headline\\',
+        'By Jane Doe',
+        'Keywords: A;',
+        '',
+        `![](<photos/${virin}.jpg>)`,
+        'Keywords: B;',
+        `${virin}\\`,
+        `${description}\\`,
+    ].join('\n'));
+    return validateCaptionSheet(document, 100).filter(diagnostic => diagnostic.code === 'abbreviation-style');
+}
+
+suite('Style dictionaries', () => {
+    test('Reads entries and reports the ones it cannot use where they are', () => {
+        const dictionary = parseStyleDictionary('file:///style.yaml', [
+            'entries:',
+            '  - preferred: Chief Petty Officer',
+            '    variants: [CPO, Chief PO]',
+            '    exclude: [CPO Association]',
+            '    context:',
+            '      services: [N, G]',
+            '  - variants: [nothing]',
+            '  - preferred: Broken',
+            '    patterns: ["("]',
+        ].join('\n'));
+
+        assert.deepEqual(dictionary.entries.map(entry => entry.preferred), ['Chief Petty Officer']);
+        assert.deepEqual(dictionary.entries[0].services, ['N', 'G']);
+        assert.deepEqual(dictionary.problems.map(problem => problem.range.start.line), [6, 8]);
+
+        const entries = dictionary.entries;
+        assert.deepEqual(findStyleMatches('CPO Smith of the CPO Association', entries).map(match => match.start), [0]);
+    });
+
+    test('Replaces bundled entries with the same preferred form in place', () => {
+        const bundled = bundledStyleEntries();
+        const [replacement] = parseStyleDictionary('file:///style.yaml',
+            'entries:\n  - preferred: Capt.\n    variants: [Cap]').entries;
+        const merged = mergeStyleEntries(bundled, [replacement]);
+
+        assert.equal(merged.length, bundled.length);
+        assert.equal(merged.findIndex(entry => entry.preferred === 'Capt.'), bundled.findIndex(entry => entry.preferred === 'Capt.'));
+        assert.deepEqual(findStyleMatches('Cap Smith', merged).map(match => match.entry.file), ['file:///style.yaml']);
+    });
+
+    test('Checks ranks against the branch of the caption', () => {
+        assert.deepEqual(preferredFor('Lt Smith briefs', 'N'), ['Lt -> Lt.']);
+        assert.deepEqual(preferredFor('Lt. Smith briefs', 'N'), []);
+        assert.deepEqual(preferredFor('2nd Lt Smith briefs', 'A'), ['2nd Lt -> 2nd Lt.']);
+        assert.deepEqual(preferredFor('Lt. Col. Smith briefs', 'A'), []);
+
+        assert.deepEqual(findRanks('Staff Sgt. Jane Doe', bundledStyleEntries()).map(match => match.text), ['Staff Sgt.']);
+        assert.deepEqual(findOtherServiceMatches('Lt. j.g. Smith', bundledStyleEntries(), 'A').map(match => match.text), ['Lt. j.g.']);
+    });
+
+    test('Reports a bare lieutenant once as ambiguous where two ranks could be meant', () => {
+        const [ambiguous] = abbreviationDiagnostics('240312-A-AB123-0001',
+            'Lt Smith briefs, March 12, 2024. (U.S. Army photo by Staff Sgt. Jane Doe)');
+
+        assert.equal(ambiguous.message, '"Lt" is ambiguous. It should be "2nd Lt." or "1st Lt.".');
+        const { fixes } = ambiguous.data as CaptionDiagnosticData;
+        assert.deepEqual(fixes.map(fix => [fix.title, fix.safe]), [['Change to "2nd Lt."', false], ['Change to "1st Lt."', false]]);
+
+        assert.deepEqual(abbreviationDiagnostics('240312-N-AB123-0001',
+            'Lt Smith briefs, March 12, 2024. (U.S. Navy photo by Petty Officer 2nd Class Jane Doe)').map(diagnostic => diagnostic.message),
+            ['"Lt" should be "Lt.".']);
+    });
+});
@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { Diagnostic } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { validateEmbeddedMetadata } from '../drift';
+import { writeJpegMetadata } from '../metadata/jpeg';
+import { CaptionDiagnosticData, checkCaptionSheet } from '../validation';
+import { caption, sheetText, useTempFolder } from './helper';
+
+const emptyJpeg = Buffer.from([0xFF, 0xD8, 0xFF, 0xDA, 0, 2, 1, 2, 3, 0xFF, 0xD9]);
+const description = 'Airmen train at Ramstein Air Base, Germany, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)';
+
+const text = sheetText(
+    caption('240312-F-AB123-0001', { keywords: 'Ramstein; Exercise;', description }),
+    caption('240312-F-AB123-0002', { description }),
+);
+
+suite('Metadata drift', () => {
+    const folder = useTempFolder('photos');
+
+    async function drift(pushCommand?: string): Promise<Diagnostic[]> {
+        const uri = 'file:///captions.md';
+        const { sheet, captions } = checkCaptionSheet(TextDocument.create(uri, 'Markdown-Captions', 1, text), Infinity);
+        const diagnostics: Diagnostic[] = [];
+        await validateEmbeddedMetadata(uri, sheet, captions, folder('captions.md'), diagnostics, 100, pushCommand);
+        return diagnostics;
+    }
+
+    test('Reports the fields that differ from what the image has embedded, with a fix pulling them in', async () => {
+        fs.writeFileSync(folder('photos', '240312-F-AB123-0001.jpg'), writeJpegMetadata(emptyJpeg, {
+            title: '240312-F-AB123-0009',
+            keywords: ['Air Force', 'Ramstein', 'Night'],
+            description,
+            credit: 'U.S. Air Force photo by Staff Sgt. Jane Doe',
+        }));
+
+        const diagnostics = await drift();
+        assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range.start.line, diagnostic.message]), [
+            ['metadata-drift', 6, 'The title embedded in "photos/240312-F-AB123-0001.jpg" is "240312-F-AB123-0009", not "240312-F-AB123-0001".'],
+            ['metadata-drift', 5, 'The keywords embedded in "photos/240312-F-AB123-0001.jpg" differ from the caption\'s: only the image has "Night"; only the sheet has "Exercise".'],
+        ]);
+
+        const [pull] = (diagnostics[1].data as CaptionDiagnosticData).fixes;
+        assert.equal(pull.title, 'Pull the keywords from the image');
+        assert.deepEqual(pull.edits, [{
+            range: { start: { line: 5, character: 0 }, end: { line: 5, character: 29 } },
+            newText: 'Keywords: Ramstein; Night;'
+        }]);
+    });
+
+    test('Offers to push the caption to the image when the client has the command', async () => {
+        fs.writeFileSync(folder('photos', '240312-F-AB123-0002.jpg'), writeJpegMetadata(emptyJpeg, {
+            title: '240312-F-AB123-0002',
+            keywords: ['Air Force', 'Ramstein'],
+            description: 'Airmen train.',
+        }));
+
+        const [diagnostic, ...others] = await drift('markdown-captions.server.writeMetadata');
+        assert.deepEqual(others, []);
+        assert.equal(diagnostic.range.start.line, 12);
+        assert.deepEqual((diagnostic.data as CaptionDiagnosticData).fixes.map(fix => [fix.title, fix.command?.arguments]), [
+            ['Pull the description from the image', undefined],
+            ['Push the caption to 240312-F-AB123-0002.jpg', ['file:///captions.md', { virins: ['240312-F-AB123-0002'] }]],
+        ]);
+    });
+
+    test('Leaves images without embedded metadata alone', async () => {
+        fs.writeFileSync(folder('photos', '240312-F-AB123-0001.jpg'), emptyJpeg);
+        assert.deepEqual(await drift(), []);
+    });
+});
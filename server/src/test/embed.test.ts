@@ -0,0 +1,59 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { embedSheetMetadata } from '../embed';
+import { readJpegMetadata } from '../metadata/jpeg';
+import { caption, description, sheetText, useTempFolder } from './helper';
+
+const jpeg = Buffer.from([0xFF, 0xD8, 0xFF, 0xDA, 0, 2, 1, 2, 0xFF, 0xD9]);
+
+suite('Embedding metadata', () => {
+    const folder = useTempFolder('photos');
+    let sheetPath: string;
+    let document: TextDocument;
+    const image = (name: string) => folder('photos', name);
+
+    setup(() => {
+        sheetPath = folder('captions.md');
+        fs.writeFileSync(image('240312-F-AB123-0001.jpg'), jpeg);
+        fs.writeFileSync(image('241312-F-AB123-0002.jpg'), jpeg);
+        fs.writeFileSync(image('240312-F-AB123-0003.mp4'), 'not really a video');
+        document = TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, sheetText(
+            '240312-F-AB123-0001',
+            // There is no 13th month
+            '241312-F-AB123-0002',
+            caption('240312-F-AB123-0003', { image: 'photos/240312-F-AB123-0003.mp4' }),
+        ));
+    });
+
+    test('Reports what it would write on a dry run without touching any file', async () => {
+        const results = await embedSheetMetadata(document, sheetPath, { dryRun: true, backup: true });
+
+        assert.deepEqual(results.map(result => [path.basename(result.file), result.status]), [
+            ['240312-F-AB123-0001.jpg', 'dry-run'],
+            ['241312-F-AB123-0002.jpg', 'skipped'],
+            ['240312-F-AB123-0003.mp4', 'skipped'],
+        ]);
+        assert.equal(results[0].message, 'Would write title "240312-F-AB123-0001", 2 keywords, with credit.');
+        assert.ok(fs.readFileSync(image('240312-F-AB123-0001.jpg')).equals(jpeg));
+        assert.ok(!fs.existsSync(`${image('240312-F-AB123-0001.jpg')}.bak`));
+    });
+
+    test('Writes the metadata of valid captions and backs up each image once', async () => {
+        await embedSheetMetadata(document, sheetPath, { dryRun: false, backup: true });
+
+        assert.deepEqual(readJpegMetadata(fs.readFileSync(image('240312-F-AB123-0001.jpg'))), {
+            title: '240312-F-AB123-0001',
+            keywords: ['Air Force', 'Ramstein'],
+            description,
+            credit: 'U.S. Air Force photo by Staff Sgt. Jane Doe',
+        });
+        assert.ok(fs.readFileSync(`${image('240312-F-AB123-0001.jpg')}.bak`).equals(jpeg));
+        assert.ok(fs.readFileSync(image('241312-F-AB123-0002.jpg')).equals(jpeg));
+
+        const [again] = await embedSheetMetadata(document, sheetPath, { dryRun: false, backup: true, virins: ['240312-F-AB123-0001'] });
+        assert.equal(again.status, 'written');
+        assert.ok(fs.readFileSync(`${image('240312-F-AB123-0001.jpg')}.bak`).equals(jpeg));
+    });
+});
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { formatCaptionSheet } from '../formatter';
+
+const messySheet = [
+    'Airmen train at Ramstein   ',
+    'By Staff Sgt. Jane Doe',
+    'Keywords:Air Force;Training',
+    '![](photos/240312-F-AB123-0001.jpg)',
+    'Keywords: Ramstein ;Exercise;',
+    '240312-F-AB123-0001',
+    'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)',
+    '',
+    '',
+    '',
+    '![](<photos/240312-F-AB123-0002.jpg>)',
+    'Keywords: Night;',
+    '240312-F-AB123-0002\\',
+    'Airmen run at night, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+].join('\n');
+
+const formattedSheet = [
+    'Airmen train at Ramstein\\',
+    'By Staff Sgt. Jane Doe',
+    'Keywords: Air Force; Training;',
+    '',
+    '![](<photos/240312-F-AB123-0001.jpg>)',
+    'Keywords: Ramstein; Exercise;',
+    '240312-F-AB123-0001\\',
+    'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+    '',
+    '![](<photos/240312-F-AB123-0002.jpg>)',
+    'Keywords: Night;',
+    '240312-F-AB123-0002\\',
+    'Airmen run at night, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+].join('\n');
+
+function format(text: string, range?: Parameters<typeof formatCaptionSheet>[1]): string {
+    const document = TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, text);
+    return TextDocument.applyEdits(document, formatCaptionSheet(text, range));
+}
+
+suite('Formatter', () => {
+    test('Normalizes whitespace, backslashes, keywords, image tags and blank lines', () => {
+        assert.equal(format(messySheet), formattedSheet);
+    });
+
+    test('Leaves a formatted sheet alone', () => {
+        assert.deepEqual(formatCaptionSheet(formattedSheet), []);
+    });
+
+    test('Keeps Windows line endings', () => {
+        const formatted = format(messySheet.replace(/\n/g, '\r\n'));
+        assert.equal(formatted, formattedSheet.replace(/\n/g, '\r\n'));
+    });
+
+    test('Only touches the lines of a range', () => {
+        const formatted = format(messySheet, { start: { line: 4, character: 0 }, end: { line: 5, character: 0 } }).split('\n');
+
+        assert.equal(formatted[0], 'Airmen train at Ramstein   ');
+        assert.equal(formatted[4], 'Keywords: Ramstein; Exercise;');
+        assert.equal(formatted[5], '240312-F-AB123-0001\\');
+        assert.equal(formatted[6], 'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)');
+    });
+});
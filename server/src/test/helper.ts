@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+/**
+ * Gives each test of the suite a new temporary folder with the given
+ * subfolders, removed after the test. The returned function joins paths onto
+ * the current test's folder, and returns the folder itself without arguments.
+ */
+export function useTempFolder(...subfolders: string[]): (...parts: string[]) => string {
+    let folder: string;
+
+    setup(() => {
+        folder = fs.mkdtempSync(path.join(os.tmpdir(), 'captions-'));
+        for (const subfolder of subfolders) {
+            fs.mkdirSync(path.join(folder, subfolder), { recursive: true });
+        }
+    });
+
+    teardown(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    return (...parts: string[]) => path.join(folder, ...parts);
+}
+
+export const header = ['Airmen train at Ramstein\\', 'By Staff Sgt. Jane Doe', 'Keywords: Air Force;'];
+
+export const description = 'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)';
+
+// The lines of a caption that passes every check, starting with the blank line before it
+export function caption(virin: string, fields: { image?: string, keywords?: string, title?: string, description?: string } = {}): string[] {
+    return [
+        '',
+        `![](<${fields.image ?? `photos/${virin}.jpg`}>)`,
+        `Keywords: ${fields.keywords ?? 'Ramstein;'}`,
+        fields.title ?? `${virin}\\`,
+        `${fields.description ?? description}\\`,
+    ];
+}
+
+// A sheet with the header and a caption for each VIRIN, or the caption lines given instead
+export function sheetText(...captions: (string | string[])[]): string {
+    return [
+        ...header,
+        ...captions.flatMap(lines => typeof lines === 'string' ? caption(lines) : lines),
+    ].join('\n');
+}
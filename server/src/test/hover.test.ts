@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import { Hover, MarkupContent } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { provideHover } from '../hover';
+import { defaultSchema } from '../schema';
+
+const sheet = TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, [
+    'Airmen train at Ramstein\\',
+    'By Staff Sgt. Jane Doe',
+    'Keywords: Air Force; Training;',
+    '',
+    '![](<photos/240312-F-AB123-0001.jpg>)',
+    'Keywords: Ramstein; Exercise; Germany; Europe; Airlift;',
+    '240312-F-AB123-0001\\',
+    'Capt Smith briefs Airmen at Ramstein Air Base, Germany, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+].join('\n'));
+
+function value(hover: Hover | undefined): string {
+    assert.ok(hover);
+    return (hover.contents as MarkupContent).value;
+}
+
+suite('Hover', () => {
+    test('Decodes the VIRIN in a title and in an image filename', () => {
+        const title = provideHover(sheet, { line: 6, character: 3 });
+        assert.deepEqual(title?.range, { start: { line: 6, character: 0 }, end: { line: 6, character: 19 } });
+        const lines = value(title).split('\n');
+        assert.equal(lines[0], '**VIRIN** `240312-F-AB123-0001`');
+        assert.ok(lines.includes('- Service: F (Air Force)'));
+        assert.ok(lines.includes('- Unit or photographer: AB123'));
+        assert.ok(lines.includes('- Shot on: March 12, 2024'));
+        assert.ok(lines.includes('- Sequence number: 1'));
+
+        assert.equal(value(provideHover(sheet, { line: 4, character: 15 })), value(title));
+    });
+
+    test('Counts the keywords against the limit', () => {
+        assert.match(value(provideHover(sheet, { line: 2, character: 12 })), /^\*\*Base keywords\*\* 2 of 6\n\nEvery image gets these, leaving room for 4 image keywords\.$/);
+        assert.match(value(provideHover(sheet, { line: 5, character: 12 })), /^\*\*Keywords\*\* 7 of 6 \(too many\)\n\n2 base keywords and 5 image keywords\.$/);
+        assert.match(value(provideHover(sheet, { line: 5, character: 12 }, { ...defaultSchema, maxKeywords: 8 })), /^\*\*Keywords\*\* 7 of 8\n/);
+    });
+
+    test('Explains the style rule a flagged abbreviation broke', () => {
+        const hover = provideHover(sheet, { line: 7, character: 2 });
+        assert.deepEqual(hover?.range, { start: { line: 7, character: 0 }, end: { line: 7, character: 4 } });
+        assert.match(value(hover), /^\*\*AP style:\*\* write "Capt" as "Capt\."\./);
+
+        assert.equal(provideHover(sheet, { line: 7, character: 20 }), undefined);
+    });
+});
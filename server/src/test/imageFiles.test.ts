@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { Diagnostic } from 'vscode-languageserver';
+import { detectFileType, imageFolders, validateImageFiles } from '../imageFiles';
+import { parseCaptionSheet } from '../parser';
+import { defaultSchema } from '../schema';
+import { caption, sheetText, useTempFolder } from './helper';
+
+const jpegHeader = Buffer.from([0xFF, 0xD8, 0xFF, 0xE0, 0, 16, 0x4A, 0x46, 0x49, 0x46, 0, 1, 1, 0, 0, 1]);
+const pngHeader = Buffer.from('\x89PNG\r\n\x1a\n\0\0\0\rIHDR', 'latin1');
+
+function sheetFor(...paths: string[]) {
+    return parseCaptionSheet(sheetText(...paths.map(imagePath => caption('240312-F-AB123-0001', { image: imagePath }))));
+}
+
+suite('Image files', () => {
+    const folder = useTempFolder('photos');
+    let sheetPath: string;
+
+    setup(() => {
+        sheetPath = folder('captions.md');
+        fs.writeFileSync(folder('photos', 'real.jpg'), jpegHeader);
+        fs.writeFileSync(folder('photos', 'fake.jpg'), pngHeader);
+        fs.writeFileSync(folder('photos', 'fake.png'), jpegHeader);
+    });
+
+    test('Names file types from their first bytes', () => {
+        assert.equal(detectFileType(jpegHeader), 'JPEG');
+        assert.equal(detectFileType(pngHeader), 'PNG');
+        assert.equal(detectFileType(Buffer.from('\0\0\0\x18ftypheic', 'latin1')), 'HEIC');
+        assert.equal(detectFileType(Buffer.from('\0\0\0\x18ftypisom', 'latin1')), 'MP4');
+        assert.equal(detectFileType(Buffer.from('plain text', 'latin1')), undefined);
+    });
+
+    test('Reports missing files and files whose contents do not match their extension', async () => {
+        const diagnostics: Diagnostic[] = [];
+        await validateImageFiles(sheetFor('photos/real.jpg', 'photos/fake.jpg', 'photos/gone.jpg'), sheetPath, diagnostics, 100);
+
+        assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.code, diagnostic.range.start.line]), [
+            ['image-type-mismatch', 9],
+            ['image-missing', 14],
+        ]);
+        assert.equal(diagnostics[0].message, 'Image file "photos/fake.jpg" contains PNG data, not JPEG as its extension says.');
+    });
+
+    test('Tells files that can\'t be read from missing ones', async () => {
+        fs.mkdirSync(folder('photos', 'folder.jpg'));
+        const diagnostics: Diagnostic[] = [];
+        await validateImageFiles(sheetFor('photos/folder.jpg'), sheetPath, diagnostics, 100);
+
+        assert.deepEqual(diagnostics.map(diagnostic => diagnostic.code), ['image-unreadable']);
+        assert.match(diagnostics[0].message, /^Image file "photos\/folder\.jpg" can't be read\. EISDIR/);
+    });
+
+    test('Only checks the contents of the extensions the schema allows', async () => {
+        const diagnostics: Diagnostic[] = [];
+        await validateImageFiles(sheetFor('photos/fake.png'), sheetPath, diagnostics, 100);
+        assert.deepEqual(diagnostics, []);
+
+        await validateImageFiles(sheetFor('photos/fake.png'), sheetPath, diagnostics, 100,
+            { ...defaultSchema, extensions: ['.jpg', '.PNG'] });
+        assert.deepEqual(diagnostics.map(diagnostic => diagnostic.code), ['image-type-mismatch']);
+    });
+
+    test('Lists the folders the image tags point into once', () => {
+        assert.deepEqual(
+            imageFolders(sheetFor('photos/real.jpg', 'photos/fake.jpg', 'other.jpg'), sheetPath),
+            [folder('photos'), folder()]
+        );
+    });
+});
@@ -0,0 +1,112 @@
+import * as assert from 'assert';
+import { CaptionMetadata } from '../metadata/xmp';
+import { UnsupportedFileError } from '../metadata/errors';
+import {
+    findXmpPacket,
+    parseJpeg,
+    readJpegCaptureTime,
+    readJpegMetadata,
+    serializeJpeg,
+    writeJpegMetadata
+} from '../metadata/jpeg';
+
+const app1 = 0xE1;
+const scan = Buffer.from([0xFF, 0xDA, 0, 2, 1, 2, 3, 0xFF, 0xD9]);
+
+const metadata: CaptionMetadata = {
+    title: '240312-F-AB123-0001',
+    keywords: ['Air Force', 'Training & Readiness'],
+    description: 'Airmen train at Ramstein, March 12, 2024.',
+    credit: 'U.S. Air Force photo by Staff Sgt. Jane Doe',
+};
+
+function segment(marker: number, data: Buffer): Buffer {
+    const header = Buffer.from([0xFF, marker, 0, 0]);
+    header.writeUInt16BE(data.length + 2, 2);
+    return Buffer.concat([header, data]);
+}
+
+// A little-endian Exif block with an ImageDescription and a DateTimeOriginal
+function exifSegment(): Buffer {
+    const tiff = Buffer.alloc(88);
+    tiff.write('II*\0', 0, 'latin1');
+    tiff.writeUInt32LE(8, 4);
+
+    tiff.writeUInt16LE(2, 8);
+    const entry = (at: number, tag: number, type: number, count: number, value: number) => {
+        tiff.writeUInt16LE(tag, at);
+        tiff.writeUInt16LE(type, at + 2);
+        tiff.writeUInt32LE(count, at + 4);
+        tiff.writeUInt32LE(value, at + 8);
+    };
+    entry(10, 0x010E, 2, 12, 56);
+    entry(22, 0x8769, 4, 1, 38);
+    tiff.writeUInt16LE(1, 38);
+    entry(40, 0x9003, 2, 20, 68);
+    tiff.write('Old caption\0', 56, 'latin1');
+    tiff.write('2024:03:12 14:05:09\0', 68, 'latin1');
+
+    return segment(app1, Buffer.concat([Buffer.from('Exif\0\0', 'latin1'), tiff]));
+}
+
+function jpeg(...segments: Buffer[]): Buffer {
+    return Buffer.concat([Buffer.from([0xFF, 0xD8]), ...segments, scan]);
+}
+
+suite('JPEG metadata', () => {
+    test('Reads the capture time from Exif', () => {
+        assert.deepEqual(readJpegCaptureTime(jpeg(exifSegment())), new Date(2024, 2, 12, 14, 5, 9));
+        assert.equal(readJpegCaptureTime(jpeg()), undefined);
+    });
+
+    test('Ignores Exif descriptions, which it never writes', () => {
+        assert.equal(readJpegMetadata(jpeg(exifSegment())), undefined);
+    });
+
+    test('Reads back what it writes and keeps the rest of the file', () => {
+        const original = jpeg(exifSegment());
+        const written = writeJpegMetadata(original, metadata);
+
+        assert.deepEqual(readJpegMetadata(written), metadata);
+        assert.deepEqual(readJpegCaptureTime(written), new Date(2024, 2, 12, 14, 5, 9));
+        assert.ok(written.subarray(written.length - scan.length).equals(scan));
+
+        const rewritten = writeJpegMetadata(written, { ...metadata, keywords: ['Ramstein'] });
+        assert.deepEqual(readJpegMetadata(rewritten)?.keywords, ['Ramstein']);
+        assert.equal(parseJpeg(rewritten).segments.length, parseJpeg(written).segments.length);
+    });
+
+    test('Falls back to IPTC when there is no XMP packet', () => {
+        const structure = parseJpeg(writeJpegMetadata(jpeg(), metadata));
+        const withoutXmp = serializeJpeg({
+            ...structure,
+            segments: structure.segments.filter(other => other.data.toString('latin1', 0, 4) !== 'http'),
+        });
+
+        assert.equal(findXmpPacket(parseJpeg(withoutXmp)), undefined);
+        assert.deepEqual(readJpegMetadata(withoutXmp), metadata);
+    });
+
+    test('Keeps the extended XMP of other packets', () => {
+        const guid = 'A'.repeat(32);
+        const other = 'B'.repeat(32);
+        const packet = `<x:xmpmeta><rdf:RDF><rdf:Description xmpNote:HasExtendedXMP="${guid}"/></rdf:RDF></x:xmpmeta>`;
+        const extended = (id: string) => segment(app1, Buffer.from(`http://ns.adobe.com/xmp/extension/\0${id}\0\0\0\0\0\0\0\0`, 'latin1'));
+        const original = jpeg(
+            segment(app1, Buffer.from(`http://ns.adobe.com/xap/1.0/\0${packet}`, 'utf8')),
+            extended(guid),
+            extended(other),
+        );
+
+        const written = writeJpegMetadata(original, metadata);
+        const segments = parseJpeg(written).segments.map(found => found.data.toString('latin1'));
+        assert.ok(!segments.some(data => data.includes(guid)));
+        assert.ok(segments.some(data => data.includes(other)));
+        assert.ok(!findXmpPacket(parseJpeg(written))!.includes('HasExtendedXMP'));
+    });
+
+    test('Refuses files that are not JPEGs', () => {
+        assert.throws(() => parseJpeg(Buffer.from('not a jpeg')), UnsupportedFileError);
+        assert.throws(() => parseJpeg(Buffer.from([0xFF, 0xD8, 0xFF, 0xE1, 0xFF, 0xFF])), UnsupportedFileError);
+    });
+});
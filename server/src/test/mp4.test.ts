@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { CaptionMetadata } from '../metadata/xmp';
+import { UnsupportedFileError } from '../metadata/errors';
+import { prepareMp4Metadata, readMp4Boxes, readMp4CreationTime, readMp4Metadata } from '../metadata/mp4';
+import { useTempFolder } from './helper';
+
+const metadata: CaptionMetadata = {
+    title: '240312-F-AB123-0001',
+    keywords: ['Air Force', 'Ramstein'],
+    description: 'Airmen train at Ramstein, March 12, 2024.',
+    credit: 'U.S. Air Force video by Staff Sgt. Jane Doe',
+};
+
+const xmpUuid = Buffer.from('be7acfcb97a942e89c71999491e3afac', 'hex');
+
+function box(type: string, ...contents: Buffer[]): Buffer {
+    const data = Buffer.concat(contents);
+    const header = Buffer.alloc(8);
+    header.writeUInt32BE(8 + data.length, 0);
+    header.write(type, 4, 'latin1');
+    return Buffer.concat([header, data]);
+}
+
+// A version 0 "mvhd" created on March 12, 2024 at 14:05:09 UTC
+function movie(): Buffer {
+    const mvhd = Buffer.alloc(100);
+    mvhd.writeUInt32BE(Date.UTC(2024, 2, 12, 14, 5, 9) / 1000 + 2082844800, 4);
+    return box('moov', box('mvhd', mvhd));
+}
+
+function mp4(...boxes: Buffer[]): Buffer {
+    return Buffer.concat([box('ftyp', Buffer.from('isom\0\0\0\0isom', 'latin1')), movie(), ...boxes]);
+}
+
+async function boxTypes(file: string): Promise<string[]> {
+    const handle = await fs.promises.open(file, 'r');
+    try {
+        return (await readMp4Boxes(handle, 0, (await handle.stat()).size)).map(found => found.type);
+    } finally {
+        await handle.close();
+    }
+}
+
+suite('MP4 metadata', () => {
+    const folder = useTempFolder();
+    let file: string;
+    const write = async (data: CaptionMetadata) => (await prepareMp4Metadata(file, data))();
+
+    setup(() => {
+        file = folder('clip.mp4');
+    });
+
+    test('Reads the creation time from the movie header', async () => {
+        fs.writeFileSync(file, mp4(box('mdat', Buffer.alloc(16))));
+        assert.deepEqual(await readMp4CreationTime(file), new Date(Date.UTC(2024, 2, 12, 14, 5, 9)));
+        assert.equal(await readMp4Metadata(file), undefined);
+    });
+
+    test('Appends an XMP box without moving the media data, and replaces it when written again', async () => {
+        const original = mp4(box('mdat', Buffer.alloc(16, 7)));
+        fs.writeFileSync(file, original);
+
+        await write(metadata);
+        assert.deepEqual(await readMp4Metadata(file), metadata);
+        assert.deepEqual(await boxTypes(file), ['ftyp', 'moov', 'mdat', 'uuid']);
+        assert.ok(fs.readFileSync(file).subarray(0, original.length).equals(original));
+
+        await write({ ...metadata, keywords: ['Ramstein'] });
+        assert.deepEqual((await readMp4Metadata(file))?.keywords, ['Ramstein']);
+        assert.deepEqual(await boxTypes(file), ['ftyp', 'moov', 'mdat', 'uuid']);
+    });
+
+    test('Frees an XMP box that is not at the end rather than moving what follows it', async () => {
+        fs.writeFileSync(file, mp4(box('uuid', xmpUuid, Buffer.from('<x:xmpmeta/>')), box('mdat', Buffer.alloc(16))));
+
+        await write(metadata);
+        assert.deepEqual(await boxTypes(file), ['ftyp', 'moov', 'free', 'mdat', 'uuid']);
+        assert.deepEqual(await readMp4Metadata(file), metadata);
+    });
+
+    test('Gives a last box that runs to the end of the file its size', async () => {
+        const mdat = box('mdat', Buffer.alloc(16));
+        mdat.writeUInt32BE(0, 0);
+        fs.writeFileSync(file, mp4(mdat));
+
+        await write(metadata);
+        assert.deepEqual(await boxTypes(file), ['ftyp', 'moov', 'mdat', 'uuid']);
+        assert.equal(fs.readFileSync(file).readUInt32BE(mp4().length), mdat.length);
+    });
+
+    test('Refuses files that are not MP4 videos', async () => {
+        fs.writeFileSync(file, 'not really a video');
+        await assert.rejects(prepareMp4Metadata(file, metadata), UnsupportedFileError);
+
+        fs.writeFileSync(file, box('ftyp', Buffer.from('isom')));
+        await assert.rejects(readMp4Metadata(file), UnsupportedFileError);
+    });
+
+    test('Refuses to write a file that changed since it was checked', async () => {
+        fs.writeFileSync(file, mp4(box('mdat', Buffer.alloc(16))));
+        const writeLater = await prepareMp4Metadata(file, metadata);
+        fs.appendFileSync(file, box('free', Buffer.alloc(8)));
+
+        await assert.rejects(writeLater(), /changed while writing/);
+    });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import { Range } from 'vscode-languageserver';
+import { isCompleteCaption, parseCaptionSheet } from '../parser';
+
+const sheetText = [
+    'Airmen train at Ramstein\\',
+    'By Staff Sgt. Jane Doe',
+    'Keywords: Air Force; Training;',
+    '',
+    '![](<photos/240312-F-AB123-0001.jpg>)',
+    'Keywords: Ramstein;  Exercise;',
+    '240312-F-AB123-0001\\',
+    'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+].join('\n');
+
+function toRange(sLine: number, sChar: number, eLine: number, eChar: number): Range {
+    return { start: { line: sLine, character: sChar }, end: { line: eLine, character: eChar } };
+}
+
+suite('Caption sheet parser', () => {
+    test('Parses the headline, byline and base keywords', () => {
+        const sheet = parseCaptionSheet(sheetText);
+
+        assert.equal(sheet.headline?.text, 'Airmen train at Ramstein\\');
+        assert.deepEqual(sheet.headline?.range, toRange(0, 0, 0, 25));
+        assert.equal(sheet.byline?.text, 'By Staff Sgt. Jane Doe');
+        assert.deepEqual(sheet.baseKeywords?.keywords.map(keyword => keyword.text), ['Air Force', 'Training']);
+        assert.deepEqual(sheet.baseKeywords?.keywords[1].range, toRange(2, 21, 2, 29));
+    });
+
+    test('Gives every caption field its exact range', () => {
+        const sheet = parseCaptionSheet(sheetText);
+        assert.equal(sheet.captions.length, 1);
+
+        const block = sheet.captions[0];
+        assert.ok(isCompleteCaption(block));
+        assert.ok(block.hasLeadingBlankLine);
+        assert.deepEqual(block.range, toRange(3, 0, 7, 76));
+
+        assert.equal(block.imageTag?.path.text, 'photos/240312-F-AB123-0001.jpg');
+        assert.equal(block.imageTag?.directory?.text, 'photos/');
+        assert.equal(block.imageTag?.filename.text, '240312-F-AB123-0001');
+        assert.deepEqual(block.imageTag?.filename.range, toRange(4, 12, 4, 31));
+        assert.equal(block.imageTag?.extension?.text, '.jpg');
+
+        assert.deepEqual(block.keywords?.keywords.map(keyword => keyword.text), ['Ramstein', 'Exercise']);
+        assert.deepEqual(block.keywords?.keywords[1].range, toRange(5, 21, 5, 29));
+
+        assert.equal(block.title?.virin?.text, '240312-F-AB123-0001');
+        assert.deepEqual(block.title?.virin?.range, toRange(6, 0, 6, 19));
+
+        assert.equal(block.description?.attribution?.text, '(U.S. Air Force photo by Staff Sgt. Jane Doe)');
+        assert.deepEqual(block.description?.attribution?.range, toRange(7, 30, 7, 75));
+        assert.equal(block.description?.offset, sheetText.lastIndexOf('Airmen train,'));
+    });
+
+    test('Leaves the carriage returns of CRLF sheets out of the lines', () => {
+        const crlf = sheetText.split('\n').join('\r\n');
+        const sheet = parseCaptionSheet(crlf);
+
+        assert.equal(sheet.lineBreak, '\r\n');
+        assert.equal(parseCaptionSheet(sheetText).lineBreak, '\n');
+        assert.ok(isCompleteCaption(sheet.captions[0]));
+        assert.equal(sheet.captions[0].imageTag?.path.text, 'photos/240312-F-AB123-0001.jpg');
+        assert.deepEqual(sheet.headline?.range, toRange(0, 0, 0, 25));
+        assert.equal(sheet.captions[0].description?.offset, crlf.lastIndexOf('Airmen train,'));
+    });
+
+    test('Keeps looking for a field after a line that does not fit', () => {
+        const sheet = parseCaptionSheet([
+            'Headline\\',
+            'By Jane Doe',
+            'Keywords: A;',
+            '',
+            'not an image tag',
+            '![](<a.jpg>) extra',
+        ].join('\n'));
+
+        const rejected = sheet.lines[4];
+        assert.equal(rejected.expected, 'imageTag');
+        assert.equal(rejected.accepted, false);
+        assert.equal(sheet.lines[5].expected, 'imageTag');
+        assert.equal(sheet.lines[5].accepted, true);
+        assert.equal(sheet.captions[0].imageTag?.trailing?.text, ' extra');
+        assert.equal(sheet.captions[0].imageTag?.directory, undefined);
+        assert.ok(!isCompleteCaption(sheet.captions[0]));
+    });
+
+    test('Reports unterminated keywords', () => {
+        const sheet = parseCaptionSheet('Headline\\\nBy Jane Doe\nKeywords: A; B');
+
+        assert.deepEqual(sheet.baseKeywords?.keywords.map(keyword => keyword.text), ['A']);
+        assert.equal(sheet.baseKeywords?.unterminated?.text, 'B');
+        assert.deepEqual(sheet.baseKeywords?.unterminated?.range, toRange(2, 13, 2, 14));
+    });
+
+    test('Records suppression comments without taking them as fields', () => {
+        const sheet = parseCaptionSheet([
+            'Headline\\',
+            'By Jane Doe',
+            'Keywords: A;',
+            '',
+            '<!-- captions-disable-next-line double-punctuation, date-missing -->',
+            '![](<a.jpg>)',
+        ].join('\n'));
+
+        assert.equal(sheet.directives.length, 1);
+        assert.equal(sheet.directives[0].kind, 'disable-next-line');
+        assert.deepEqual(sheet.directives[0].rules.map(rule => rule.text), ['double-punctuation', 'date-missing']);
+        assert.ok(sheet.captions[0].imageTag);
+    });
+
+    test('Drops trailing blank lines rather than starting a caption', () => {
+        const sheet = parseCaptionSheet('Headline\\\nBy Jane Doe\nKeywords: A;\n\n\n');
+
+        assert.equal(sheet.captions.length, 0);
+    });
+});
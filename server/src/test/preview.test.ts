@@ -0,0 +1,47 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { buildPreview } from '../preview';
+
+const sheetText = [
+    'Airmen train at Ramstein\\',
+    'By Staff Sgt. Jane Doe',
+    'Keywords: Air Force; Training;',
+    '',
+    '![](<photos/240312-F-AB123-0001.jpg>)',
+    'Keywords: Ramstein;',
+    '240312-F-AB123-0001\\',
+    'Airmen train at Ramstein Air Base, Germany, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+    '',
+    '![](<videos/240312-F-AB123-0002.MP4>)',
+    'Keywords: ',
+].join('\n');
+
+suite('Preview', () => {
+    test('Shows the header and a card for each caption, split into its fields', () => {
+        const sheetPath = path.resolve('sheets', 'captions.md');
+        const preview = buildPreview(sheetText, sheetPath);
+
+        assert.equal(preview.headline, 'Airmen train at Ramstein');
+        assert.equal(preview.byline, 'Staff Sgt. Jane Doe');
+        assert.deepEqual(preview.baseKeywords, ['Air Force', 'Training']);
+        assert.deepEqual(preview.captions[0], {
+            range: { start: { line: 3, character: 0 }, end: { line: 7, character: 106 } },
+            image: path.resolve('sheets', 'photos', '240312-F-AB123-0001.jpg'),
+            kind: 'photo',
+            virin: '240312-F-AB123-0001',
+            keywords: ['Ramstein'],
+            description: 'Airmen train at Ramstein Air Base, Germany, March 12, 2024.',
+            attribution: 'U.S. Air Force photo by Staff Sgt. Jane Doe',
+        });
+    });
+
+    test('Shows unfinished captions as far as they go', () => {
+        const [, video] = buildPreview(sheetText).captions;
+
+        assert.equal(video.image, 'videos/240312-F-AB123-0002.MP4');
+        assert.equal(video.kind, 'video');
+        assert.equal(video.virin, undefined);
+        assert.equal(video.description, undefined);
+        assert.deepEqual(buildPreview('Headline\\').captions, []);
+    });
+});
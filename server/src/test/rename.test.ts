@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { RenameFile, TextDocumentEdit } from 'vscode-languageserver';
+import { parseCaptionSheet } from '../parser';
+import { RenameError, RenameOptions, findRenameTarget, renameVirin } from '../rename';
+import { WorkspaceSheet } from '../workspace';
+import { sheetText, useTempFolder } from './helper';
+
+const options: RenameOptions = { canRenameFiles: true, versionOf: () => null };
+
+suite('Rename', () => {
+    const folder = useTempFolder('photos');
+    let first: WorkspaceSheet;
+    let second: WorkspaceSheet;
+
+    function workspaceSheet(name: string, text: string): WorkspaceSheet {
+        return { uri: pathToFileURL(folder(name)).toString(), text, sheet: parseCaptionSheet(text) };
+    }
+
+    setup(() => {
+        fs.writeFileSync(folder('photos', '240312-F-AB123-0001.jpg'), '');
+        first = workspaceSheet('first.md', sheetText('240312-F-AB123-0001', '240312-F-AB123-0002'));
+        second = workspaceSheet('second.md', sheetText('240312-F-AB123-0001'));
+    });
+
+    test('Finds the VIRIN of a title or the filename of an image tag under the cursor', () => {
+        assert.equal(findRenameTarget(first.sheet, { line: 6, character: 4 })?.placeholder, '240312-F-AB123-0001');
+        assert.deepEqual(findRenameTarget(first.sheet, { line: 4, character: 14 })?.range,
+            { start: { line: 4, character: 12 }, end: { line: 4, character: 31 } });
+        assert.equal(findRenameTarget(first.sheet, { line: 5, character: 4 }), undefined);
+    });
+
+    test('Renames the caption in every sheet together with its image file', () => {
+        const edit = renameVirin(first.uri, first.sheet, { line: 6, character: 4 }, '240312-F-AB123-0005', [first, second], options);
+        const changes = edit.documentChanges!;
+
+        const sheetEdits = changes.filter(TextDocumentEdit.is).map(change =>
+            [path.basename(change.textDocument.uri), change.edits.map(textEdit => textEdit.range.start.line)]);
+        assert.deepEqual(sheetEdits, [['first.md', [6, 4]], ['second.md', [6, 4]]]);
+
+        const renames = changes.filter(RenameFile.is).map(change => [path.basename(change.oldUri), path.basename(change.newUri)]);
+        assert.deepEqual(renames, [['240312-F-AB123-0001.jpg', '240312-F-AB123-0005.jpg']]);
+    });
+
+    test('Refuses names that aren\'t VIRINs, are taken or can\'t be given to the file', () => {
+        const rename = (newName: string, renameOptions = options) => () =>
+            renameVirin(first.uri, first.sheet, { line: 6, character: 4 }, newName, [first, second], renameOptions);
+
+        assert.throws(rename('not-a-virin'), RenameError);
+        assert.throws(rename('240312-F-AB123-0002'), (error: Error) =>
+            error instanceof RenameError && error.message === '240312-F-AB123-0002 is already the VIRIN of the caption in first.md, line 9.');
+        assert.throws(rename('240312-F-AB123-0005', { ...options, canRenameFiles: false }), RenameError);
+
+        fs.writeFileSync(folder('photos', '240312-F-AB123-0005.jpg'), '');
+        assert.throws(rename('240312-F-AB123-0005'), (error: Error) =>
+            error instanceof RenameError && error.message.startsWith('Can\'t rename 240312-F-AB123-0001.jpg, 240312-F-AB123-0005.jpg already exists'));
+    });
+});
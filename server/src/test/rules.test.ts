@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { applyRuleSettings, ruleIds } from '../rules';
+import { checkCaptionSheet } from '../validation';
+
+function diagnostic(code: string, severity: DiagnosticSeverity): Diagnostic {
+    return {
+        severity,
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 1 } },
+        message: code,
+        code,
+        source: 'Markdown Captions'
+    };
+}
+
+suite('Rules', () => {
+    test('Drops the rules that are off and gives the others their configured severity', () => {
+        const result = applyRuleSettings([
+            diagnostic('double-punctuation', DiagnosticSeverity.Warning),
+            diagnostic('title-backslash', DiagnosticSeverity.Warning),
+            diagnostic('image-missing', DiagnosticSeverity.Error),
+        ], { 'double-punctuation': 'off', 'title-backslash': 'error' }, 100);
+
+        assert.deepEqual(result.map(item => [item.code, item.severity]), [
+            ['title-backslash', DiagnosticSeverity.Error],
+            ['image-missing', DiagnosticSeverity.Error],
+        ]);
+    });
+
+    test('Keeps at most the maximum number of problems, counting only the ones kept', () => {
+        const result = applyRuleSettings([
+            diagnostic('double-punctuation', DiagnosticSeverity.Warning),
+            diagnostic('title-backslash', DiagnosticSeverity.Warning),
+            diagnostic('image-missing', DiagnosticSeverity.Error),
+        ], { 'double-punctuation': 'off' }, 1);
+
+        assert.deepEqual(result.map(item => item.code), ['title-backslash']);
+    });
+
+    test('Knows the ID of every rule the validator reports', () => {
+        const { diagnostics } = checkCaptionSheet(TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, [
+            'Headline',
+            'Jane Doe',
+            'Keywords: A',
+            '![](<240312-F-AB123-0001.gif>) extra',
+            'Keywords: B; C; D; E; F; G',
+            '240399-F-AB123-0001',
+            'Capt Smith briefs Airmen in Calif.., Feb 30, 2024.',
+        ].join('\n')), Infinity);
+
+        assert.ok(diagnostics.length > 5);
+        for (const { code } of diagnostics) {
+            assert.ok(ruleIds.includes(String(code)), `${code} is not a known rule`);
+        }
+    });
+});
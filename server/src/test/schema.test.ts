@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import { SchemaError, SheetSchema, defaultSchema, listOf, loadSchema, resolveSchema, schemaFileName, virinSource } from '../schema';
+import { useTempFolder } from './helper';
+
+suite('Schema', () => {
+    const folder = useTempFolder('march');
+
+    test('Applies settings and then the nearest project config file over the defaults', () => {
+        fs.writeFileSync(folder(schemaFileName), JSON.stringify({ maxKeywords: 10, extensions: ['.jpg', '.png'] }));
+        const sheetPath = folder('march', 'captions.md');
+
+        const schema = loadSchema(sheetPath, { maxKeywords: 8, warnFutureDates: true });
+        assert.equal(schema.maxKeywords, 10);
+        assert.deepEqual(schema.extensions, ['.jpg', '.png']);
+        assert.equal(schema.warnFutureDates, true);
+        assert.deepEqual(schema.services, defaultSchema.services);
+
+        assert.deepEqual(loadSchema(undefined, undefined), defaultSchema);
+    });
+
+    test('Rejects values that make no sense, naming where they came from', () => {
+        const invalid: [Partial<SheetSchema>, RegExp][] = [
+            [{ maxKeywords: 0 }, /"maxKeywords" must be a positive whole number, found 0\./],
+            [{ extensions: ['jpg'] }, /"extensions" must list at least one extension/],
+            [{ services: {} }, /"services" must map at least one service letter/],
+            [{ unitPattern: '[A-Z' }, /"unitPattern" is not a valid regular expression/],
+            [{ unitPattern: '([A-Z]{5})' }, /"unitPattern" must not capture/],
+            [{ unitPattern: '[0-9]{4}' }, /"unitExample" "AB123" does not match "unitPattern" "\[0-9\]\{4\}"\./],
+            [{ centuryPivot: 101 }, /"centuryPivot" must be a whole number from 0 to 100/],
+        ];
+        for (const [schema, message] of invalid) {
+            assert.throws(() => resolveSchema({ source: 'settings', schema }),
+                (error: Error) => error instanceof SchemaError && error.message.startsWith('Invalid caption schema in settings: ') && message.test(error.message));
+        }
+
+        fs.writeFileSync(folder(schemaFileName), '{ "maxKeywords": ');
+        assert.throws(() => loadSchema(folder('captions.md')), SchemaError);
+    });
+
+    test('Matches VIRINs with the configured service letters and unit pattern', () => {
+        const schema = resolveSchema({ source: 'settings', schema: { services: { 'F': 'Air Force', 'Z': 'Contractor' }, unitPattern: '\\d{4}', unitExample: '1234' } });
+        const pattern = new RegExp(`^${virinSource(schema)}$`);
+
+        assert.ok(pattern.test('240312-Z-1234-0001'));
+        assert.ok(!pattern.test('240312-A-1234-0001'));
+        assert.ok(!pattern.test('240312-F-AB123-0001'));
+    });
+
+    test('Lists items with a serial comma', () => {
+        assert.equal(listOf(['.jpg'], 'or'), '.jpg');
+        assert.equal(listOf(['.jpg', '.mp4'], 'or'), '.jpg or .mp4');
+        assert.equal(listOf(['A', 'F', 'X'], 'or'), 'A, F, or X');
+    });
+});
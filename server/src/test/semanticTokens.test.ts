@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { SemanticTokens } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { bundledStyleEntries } from '../dictionaries';
+import {
+    provideSemanticTokens,
+    provideSemanticTokensDelta,
+    releaseSemanticTokens,
+    semanticTokensLegend
+} from '../semanticTokens';
+
+const lines = [
+    'Airmen train at Ramstein\\',
+    'By Staff Sgt. Jane Doe',
+    'Keywords: Air Force;',
+    '',
+    '![](<photos/240312-F-AB123-0001.jpg>)',
+    'Keywords: Ramstein;',
+    '240312-F-AB123-0001\\',
+    'Tech. Sgt. John Smith, a joint terminal attack controller (JTAC), trains, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+];
+
+function document(text: string, version = 1): TextDocument {
+    return TextDocument.create('file:///captions.md', 'Markdown-Captions', version, text);
+}
+
+// Each token as "line:character text type", with "+base" for base keywords
+function decode(tokens: SemanticTokens): string[] {
+    const decoded: string[] = [];
+    let line = 0;
+    let character = 0;
+    for (let i = 0; i < tokens.data.length; i += 5) {
+        const [deltaLine, deltaCharacter, length, type, modifiers] = tokens.data.slice(i, i + 5);
+        character = deltaLine > 0 ? deltaCharacter : character + deltaCharacter;
+        line += deltaLine;
+        const text = lines[line].substring(character, character + length);
+        decoded.push(`${line}:${character} ${text} ${semanticTokensLegend.tokenTypes[type]}${modifiers ? '+base' : ''}`);
+    }
+    return decoded;
+}
+
+suite('Semantic tokens', () => {
+    teardown(() => {
+        releaseSemanticTokens('file:///captions.md');
+    });
+
+    test('Marks the header, keywords, VIRIN parts, ranks, acronyms and credit', () => {
+        assert.deepEqual(decode(provideSemanticTokens(document(lines.join('\n')), bundledStyleEntries())), [
+            '0:0 Airmen train at Ramstein headline',
+            '1:0 By  byline',
+            '1:3 Staff Sgt. rank',
+            '1:13  Jane Doe byline',
+            '2:10 Air Force captionKeyword+base',
+            '4:12 240312 virinDate',
+            '4:19 F virinService',
+            '4:21 AB123 virinUnit',
+            '4:27 0001 virinSequence',
+            '5:10 Ramstein captionKeyword',
+            '6:0 240312 virinDate',
+            '6:7 F virinService',
+            '6:9 AB123 virinUnit',
+            '6:15 0001 virinSequence',
+            '7:0 Tech. Sgt. rank',
+            '7:59 JTAC acronym',
+            '7:90 (U.S. Air Force photo by  attribution',
+            '7:115 Staff Sgt. rank',
+            '7:125  Jane Doe) attribution',
+        ]);
+    });
+
+    test('Sends only what changed since the last tokens of the document', () => {
+        const style = bundledStyleEntries();
+        const first = provideSemanticTokens(document(lines.join('\n')), style);
+
+        const changed = document(lines.join('\n').replace('Air Force;', 'Air Force; Training;'), 2);
+        const delta = provideSemanticTokensDelta(changed, first.resultId!, style);
+        assert.ok('edits' in delta);
+        assert.equal(delta.edits.length, 1);
+
+        const full = provideSemanticTokensDelta(changed, 'stale', style);
+        assert.ok('data' in full);
+    });
+});
@@ -0,0 +1,61 @@
+import * as assert from 'assert';
+import { Diagnostic } from 'vscode-languageserver';
+import { parseCaptionSheet } from '../parser';
+import { defaultSequenceOptions, sortCaptionsEdit, validateCaptionSequence } from '../sequence';
+import { sheetText } from './helper';
+
+function sequenceCodes(...virins: string[]): string[] {
+    const diagnostics: Diagnostic[] = [];
+    validateCaptionSequence(parseCaptionSheet(sheetText(...virins)), defaultSequenceOptions, diagnostics, 100);
+    return diagnostics.map(diagnostic => `${diagnostic.code} ${diagnostic.range.start.line}`);
+}
+
+suite('Caption sequence', () => {
+    test('Reports a sequence number used twice by one photographer on one day', () => {
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-ab123-0001'), [
+            'sequence-duplicate 6',
+            'sequence-duplicate 11',
+        ]);
+        // Identical VIRINs are left to the duplicate VIRIN check
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-AB123-0001'), []);
+    });
+
+    test('Leaves the same sequence number alone on another day or unit', () => {
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-CD456-0001').filter(code => code.startsWith('sequence-duplicate')), []);
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240313-F-AB123-0001').filter(code => code.startsWith('sequence-duplicate')), []);
+    });
+
+    test('Reports gaps within a day and unit', () => {
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-AB123-0004'), ['sequence-gap 11']);
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-AB123-0002'), []);
+    });
+
+    test('Sorts captions by VIRIN', () => {
+        const sheet = parseCaptionSheet(sheetText('240312-F-AB123-0002', '240312-F-AB123-0001'));
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0002', '240312-F-AB123-0001'), ['sequence-order 11']);
+
+        const edit = sortCaptionsEdit(sheet)!;
+        assert.ok(edit.newText.indexOf('240312-F-AB123-0001\\') < edit.newText.indexOf('240312-F-AB123-0002\\'));
+        assert.equal(sortCaptionsEdit(parseCaptionSheet(sheetText('240312-F-AB123-0001', '240312-F-AB123-0002'))), undefined);
+    });
+
+    test('Reports captions from another day or unit than most of the sheet', () => {
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-AB123-0002', '240313-F-AB123-0001'), ['mixed-dates 16']);
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-AB123-0002', '240312-F-CD456-0003'), ['mixed-units 16']);
+    });
+
+    test('Leaves sheets without a day or unit shared by most captions alone', () => {
+        // A shoot over several days, and a sheet of two photographers
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240313-F-AB123-0001', '240314-F-AB123-0001'), []);
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-AB123-0002', '240313-F-AB123-0001', '240313-F-AB123-0002'), []);
+        assert.deepEqual(sequenceCodes('240312-F-AB123-0001', '240312-F-CD456-0002'), []);
+    });
+
+    test('Keeps the line breaks of CRLF sheets when sorting', () => {
+        const sheet = parseCaptionSheet(sheetText('240312-F-AB123-0002', '240312-F-AB123-0001').replace(/\n/g, '\r\n'));
+        const edit = sortCaptionsEdit(sheet)!;
+        assert.ok(edit.newText.startsWith('![](<photos/240312-F-AB123-0001.jpg>)\r\nKeywords: Ramstein;\r\n'));
+        assert.ok(edit.newText.includes('\\\r\n\r\n![](<photos/240312-F-AB123-0002.jpg>)'));
+        assert.equal(edit.newText.replace(/\r\n/g, '').includes('\n'), false);
+    });
+});
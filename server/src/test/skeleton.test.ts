@@ -0,0 +1,122 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { DiagnosticSeverity } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { SkeletonError, SkeletonOptions, createSheetSkeleton, defaultSkeletonOptions, renameSkeletonFiles } from '../skeleton';
+import { defaultSchema } from '../schema';
+import { checkCaptionSheet } from '../validation';
+import { useTempFolder } from './helper';
+
+const options: SkeletonOptions = {
+    ...defaultSkeletonOptions,
+    service: 'F',
+    unit: 'AB123',
+    headline: 'Airmen train at Ramstein',
+    byline: 'Staff Sgt. Jane Doe',
+    keywords: ['Air Force', 'Training'],
+};
+
+suite('Skeleton', () => {
+    const folder = useTempFolder('photos');
+    let photos: string;
+
+    setup(() => {
+        photos = folder('photos');
+    });
+
+    // The files aren't real images, so their modification time dates them
+    function image(name: string, modified: Date) {
+        fs.writeFileSync(path.join(photos, name), '');
+        fs.utimesSync(path.join(photos, name), modified, modified);
+    }
+
+    test('Numbers the images in the order they were taken, past the VIRINs already used', async () => {
+        image('b.jpg', new Date(2024, 2, 12, 10));
+        image('a.jpg', new Date(2024, 2, 12, 9));
+        image('240312-F-AB123-0002.jpg', new Date(2024, 2, 14));
+        image('clip.mp4', new Date(2024, 2, 13, 8));
+        image('notes.txt', new Date(2024, 2, 12));
+
+        const skeleton = await createSheetSkeleton(photos, folder('captions.md'), options);
+        assert.deepEqual(skeleton.files.map(file => [path.basename(file.file), path.basename(file.renamed), file.source]), [
+            ['a.jpg', '240312-F-AB123-0001.jpg', 'modified'],
+            ['240312-F-AB123-0002.jpg', '240312-F-AB123-0002.jpg', 'filename'],
+            ['b.jpg', '240312-F-AB123-0003.jpg', 'modified'],
+            ['clip.mp4', '240313-F-AB123-0004.mp4', 'modified'],
+        ]);
+        assert.equal(skeleton.text, [
+            'Airmen train at Ramstein\\',
+            'By Staff Sgt. Jane Doe',
+            'Keywords: Air Force; Training;',
+            '',
+            '![](<photos/240312-F-AB123-0001.jpg>)',
+            'Keywords: ',
+            '240312-F-AB123-0001\\',
+            'Describe the photo, March 12, 2024. (Photo by Staff Sgt. Jane Doe)\\',
+            '',
+            '![](<photos/240312-F-AB123-0002.jpg>)',
+            'Keywords: ',
+            '240312-F-AB123-0002\\',
+            'Describe the photo, March 12, 2024. (Photo by Staff Sgt. Jane Doe)\\',
+            '',
+            '![](<photos/240312-F-AB123-0003.jpg>)',
+            'Keywords: ',
+            '240312-F-AB123-0003\\',
+            'Describe the photo, March 12, 2024. (Photo by Staff Sgt. Jane Doe)\\',
+            '',
+            '![](<photos/240313-F-AB123-0004.mp4>)',
+            'Keywords: ',
+            '240313-F-AB123-0004\\',
+            'Describe the video, March 13, 2024. (Video by Staff Sgt. Jane Doe)\\',
+            '',
+        ].join('\n'));
+    });
+
+    test('Links images next to the sheet with a folder in the path', async () => {
+        image('a.jpg', new Date(2024, 2, 12));
+
+        const skeleton = await createSheetSkeleton(photos, path.join(photos, 'captions.md'), { ...options, start: 7 });
+        assert.ok(skeleton.text.includes('![](<./240312-F-AB123-0007.jpg>)\nKeywords: \n240312-F-AB123-0007\\\n'));
+    });
+
+    test('Starts a sheet without errors once the images are named after their VIRINs', async () => {
+        image('a.jpg', new Date(2024, 2, 12, 9));
+        image('240312-F-AB123-0002.jpg', new Date(2024, 2, 12, 10));
+        const sheetPath = folder('captions.md');
+
+        const skeleton = await createSheetSkeleton(photos, sheetPath, options);
+        const renamed = await renameSkeletonFiles(skeleton);
+        assert.deepEqual(renamed.map(file => path.basename(file.file)), ['a.jpg']);
+        assert.deepEqual(fs.readdirSync(photos).sort(), ['240312-F-AB123-0001.jpg', '240312-F-AB123-0002.jpg']);
+
+        const document = TextDocument.create(pathToFileURL(sheetPath).toString(), 'Markdown-Captions', 1, skeleton.text);
+        const result = checkCaptionSheet(document, 100);
+        assert.deepEqual(result.diagnostics.filter(diagnostic => diagnostic.severity === DiagnosticSeverity.Error), []);
+        assert.deepEqual(result.captions.map(caption => caption.virin), ['240312-F-AB123-0001', '240312-F-AB123-0002']);
+    });
+
+    test('Rejects images whose VIRIN filename is already taken', async () => {
+        image('a.jpg', new Date(2024, 2, 12));
+        fs.mkdirSync(path.join(photos, '240312-F-AB123-0001.jpg'));
+
+        await assert.rejects(createSheetSkeleton(photos, folder('captions.md'), options),
+            (error: Error) => error instanceof SkeletonError && error.message === `Can't name a.jpg after its VIRIN, 240312-F-AB123-0001.jpg already exists in ${photos}.`);
+    });
+
+    test('Rejects options the schema doesn\'t allow and folders without images', async () => {
+        image('notes.txt', new Date(2024, 2, 12));
+        const sheetPath = folder('captions.md');
+
+        await assert.rejects(createSheetSkeleton(photos, sheetPath, { ...options, service: 'Q' }),
+            (error: Error) => error instanceof SkeletonError && error.message === 'Expected the service letter to be A, F, G, M, N, S, or X, found "Q".');
+        await assert.rejects(createSheetSkeleton(photos, sheetPath, { ...options, unit: 'ab' }), SkeletonError);
+        await assert.rejects(createSheetSkeleton(photos, sheetPath, { ...options, start: 0 }), SkeletonError);
+        await assert.rejects(createSheetSkeleton(photos, sheetPath, options),
+            (error: Error) => error instanceof SkeletonError && error.message === `${photos} has no .jpg or .mp4 files.`);
+
+        const skeleton = await createSheetSkeleton(photos, sheetPath, options, { ...defaultSchema, extensions: ['.txt'] });
+        assert.deepEqual(skeleton.files.map(file => path.basename(file.file)), ['notes.txt']);
+    });
+});
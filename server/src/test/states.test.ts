@@ -0,0 +1,35 @@
+import * as assert from 'assert';
+import { findStateProblems } from '../states';
+
+function problems(text: string) {
+    return findStateProblems(text).map(problem => [problem.text, problem.replacement]);
+}
+
+suite('States', () => {
+    test('Abbreviates full names and postal codes after a city', () => {
+        assert.deepEqual(problems('Airmen land at Travis Air Force Base, California, March 12, 2024.'), [['California', 'Calif.']]);
+        assert.deepEqual(problems('Airmen land in Dover, DE, March 12, 2024.'), [['DE', 'Del.']]);
+
+        const [problem] = findStateProblems('Airmen land in Dover, DE, March 12, 2024.');
+        assert.equal(problem.start, 22);
+        assert.equal(problem.end, 24);
+        assert.equal(problem.message, 'Use the AP abbreviation "Del." instead of the postal code "DE".');
+    });
+
+    test('Spells out abbreviations that don\'t follow a city', () => {
+        assert.deepEqual(problems('Guardsmen from Calif. deploy.'), [['Calif.', 'California']]);
+        assert.deepEqual(problems('Guardsmen deploy from Sacramento, Calif., March 12, 2024.'), []);
+    });
+
+    test('Spells out the states AP never abbreviates', () => {
+        assert.deepEqual(problems('Airmen train in Anchorage, AK, March 12, 2024.'), [['AK', 'Alaska']]);
+        assert.deepEqual(problems('Airmen train in Anchorage, Alaska, March 12, 2024.'), []);
+    });
+
+    test('Leaves names that only start with a state alone', () => {
+        assert.deepEqual(problems('Soldiers of the Washington National Guard train in Yakima, Wash.'), []);
+        assert.deepEqual(problems('Sailors return to Norfolk, Virginia Beach and Portsmouth.'), []);
+        assert.deepEqual(problems('Airmen fly over Charleston, West Virginia, March 12, 2024.'), [['West Virginia', 'W.Va.']]);
+        assert.deepEqual(problems('The OH-58 lands.'), []);
+    });
+});
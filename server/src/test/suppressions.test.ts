@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { Diagnostic, DiagnosticSeverity } from 'vscode-languageserver';
+import { parseCaptionSheet } from '../parser';
+import { applySuppressions } from '../suppressions';
+
+const lines = [
+    'Headline\\',                                                // 0
+    'By Jane Doe',                                               // 1
+    'Keywords: A;',                                              // 2
+    '',                                                          // 3
+    '![](<photos/240312-F-AB123-0001.jpg>)',                     // 4
+    'Keywords: B;',                                              // 5
+    '240312-F-AB123-0001\\',                                     // 6
+    '<!-- captions-disable-next-line abbreviation-style -->',    // 7
+    '<!-- captions-disable double-punctuation, state-style -->', // 8
+    'Capt Smith briefs Airmen.., March 12, 2024.\\',             // 9
+    '<!-- captions-enable -->',                                  // 10
+    '',                                                          // 11
+    '![](<photos/240312-F-AB123-0002.jpg>)',                     // 12
+    'Keywords: B;',                                              // 13
+    '240312-F-AB123-0002\\',                                     // 14
+    'Capt Smith briefs Airmen.., March 12, 2024.\\',             // 15
+];
+
+function diagnostic(code: string, line: number): Diagnostic {
+    return {
+        severity: DiagnosticSeverity.Warning,
+        range: { start: { line, character: 0 }, end: { line, character: 4 } },
+        message: code,
+        code,
+        source: 'Markdown Captions'
+    };
+}
+
+function summary(diagnostics: Diagnostic[]) {
+    return diagnostics.map(item => [item.code, item.range.start.line, item.message]);
+}
+
+suite('Suppressions', () => {
+    test('Turns rules off for the next line and up to the enabling comment', () => {
+        const sheet = parseCaptionSheet(lines.join('\n'));
+        const result = applySuppressions(sheet, [
+            diagnostic('abbreviation-style', 9),
+            diagnostic('double-punctuation', 9),
+            diagnostic('abbreviation-style', 15),
+            diagnostic('double-punctuation', 15),
+        ]);
+
+        assert.deepEqual(summary(result), [
+            ['abbreviation-style', 15, 'abbreviation-style'],
+            ['double-punctuation', 15, 'double-punctuation'],
+            ['unused-suppression', 8, '"state-style" is suppressed here but isn\'t reported.'],
+        ]);
+        assert.deepEqual(result[2].range, { start: { line: 8, character: 42 }, end: { line: 8, character: 53 } });
+    });
+
+    test('Turns every rule off for the whole sheet', () => {
+        const sheet = parseCaptionSheet(['<!-- captions-disable-file -->', ...lines.slice(0, 7)].join('\n'));
+        assert.deepEqual(applySuppressions(sheet, [diagnostic('title-backslash', 7)]), []);
+    });
+
+    test('Reports unknown rules, comments that suppress nothing and stray enabling comments', () => {
+        const sheet = parseCaptionSheet([
+            ...lines.slice(0, 7),
+            '<!-- captions-disable-next-line no-such-rule -->',
+            '<!-- captions-disable-next-line -->',
+            'Airmen train, March 12, 2024.\\',
+            '<!-- captions-enable -->',
+        ].join('\n'));
+
+        assert.deepEqual(summary(applySuppressions(sheet, [])), [
+            ['unused-suppression', 7, 'Unknown rule "no-such-rule".'],
+            ['unused-suppression', 8, 'Nothing is reported where this comment suppresses problems.'],
+            ['unused-suppression', 10, 'Found "captions-enable" without an earlier "captions-disable" for the same rules.'],
+        ]);
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { DocumentSymbol, Range } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parseCaptionSheet } from '../parser';
+import { provideDocumentSymbols, provideWorkspaceSymbols } from '../symbols';
+
+const sheetText = [
+    'Airmen train at Ramstein\\',
+    'By Staff Sgt. Jane Doe',
+    'Keywords: Air Force;',
+    '',
+    '![](<photos/240312-F-AB123-0001.jpg>)',
+    'Keywords: Ramstein;',
+    '240312-F-AB123-0001\\',
+    'Airmen load a C-130J Super Hercules at Ramstein Air Base, Germany, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+].join('\n');
+
+function contains(outer: Range, inner: Range): boolean {
+    const before = (a: Range['start'], b: Range['start']) => a.line < b.line || (a.line === b.line && a.character <= b.character);
+    return before(outer.start, inner.start) && before(inner.end, outer.end);
+}
+
+function overlaps(a: Range, b: Range): boolean {
+    const before = (x: Range['start'], y: Range['start']) => x.line < y.line || (x.line === y.line && x.character < y.character);
+    return before(a.start, b.end) && before(b.start, a.end);
+}
+
+suite('Symbols', () => {
+    test('Nests the byline and the captions under the headline without overlapping', () => {
+        const [headline, ...others] = provideDocumentSymbols(TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, sheetText));
+        assert.deepEqual(others, []);
+        assert.equal(headline.name, 'Airmen train at Ramstein');
+
+        const children = headline.children as DocumentSymbol[];
+        assert.deepEqual(children.map(child => [child.name, child.detail]), [
+            ['By Staff Sgt. Jane Doe', 'Byline'],
+            ['240312-F-AB123-0001', 'Airmen load a C-130J Super Hercules at Ramstein…'],
+        ]);
+        for (const child of children) {
+            assert.ok(contains(headline.range, child.range));
+            assert.ok(contains(child.range, child.selectionRange));
+        }
+        assert.ok(!overlaps(children[0].range, children[1].range));
+    });
+
+    test('Finds captions by any part of their VIRIN', () => {
+        const sheets = [{ uri: 'file:///captions.md', text: sheetText, sheet: parseCaptionSheet(sheetText) }];
+
+        const [symbol] = provideWorkspaceSymbols(sheets, 'ab123-0001');
+        assert.equal(symbol.name, '240312-F-AB123-0001');
+        assert.equal(symbol.containerName, 'Airmen train at Ramstein');
+        assert.deepEqual(provideWorkspaceSymbols(sheets, '0002'), []);
+    });
+});
@@ -0,0 +1,95 @@
+import * as assert from 'assert';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { checkCaptionSheet } from '../validation';
+
+function check(...lines: string[]) {
+    return checkCaptionSheet(TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, lines.join('\n')), 100);
+}
+
+function at(codes: string[], result: ReturnType<typeof check>): string[] {
+    return result.diagnostics
+        .filter(diagnostic => codes.includes(String(diagnostic.code)))
+        .map(diagnostic => `${diagnostic.code} ${diagnostic.range.start.line}:${diagnostic.range.start.character}-${diagnostic.range.end.line}:${diagnostic.range.end.character}`);
+}
+
+const header = ['Airmen  train with Capt Smith\\', 'By Staff Sgt. Jane Doe', 'Keywords: Air Force;'];
+
+suite('Validation', () => {
+    test('Places diagnostics on the caption they are about when captions repeat text', () => {
+        const result = check(
+            ...header,
+            '',
+            '![](<photos/240312-F-AB123-0001.jpg>)',
+            'Keywords: Ramstein;',
+            '240312-F-AB123-0001\\',
+            'Airmen  train with Capt Smith, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+            '',
+            '![](<photos/240312-F-AB123-0002.jpg>)',
+            'Keywords: Ramstein;',
+            '240312-F-AB123-0002\\',
+            'Airmen  train with Capt Smith, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+        );
+
+        assert.deepEqual(at(['double-punctuation', 'abbreviation-style'], result), [
+            'double-punctuation 7:6-7:8',
+            'abbreviation-style 7:19-7:23',
+            'double-punctuation 12:6-12:8',
+            'abbreviation-style 12:19-12:23',
+        ]);
+        assert.deepEqual(result.captions.map(caption => caption.virin), ['240312-F-AB123-0001', '240312-F-AB123-0002']);
+    });
+
+    test('Checks sheets saved with CRLF line endings like any other', () => {
+        const lines = [
+            ...header,
+            '',
+            '![](<photos/240312-F-AB123-0001.jpg>)',
+            'Keywords: Ramstein;',
+            '240312-F-AB123-0001\\',
+            'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)',
+        ];
+        const crlf = checkCaptionSheet(TextDocument.create('file:///captions.md', 'Markdown-Captions', 1, lines.join('\r\n')), 100);
+
+        assert.deepEqual(crlf.diagnostics, check(...lines).diagnostics);
+        assert.deepEqual(crlf.captions.map(caption => caption.virin), ['240312-F-AB123-0001']);
+    });
+
+    test('Places image tag problems on the part of the tag at fault', () => {
+        const result = check(
+            ...header,
+            '',
+            '![](<photos/240312-F-AB123-0001.png>)',
+            'Keywords: Ramstein;',
+            '240312-F-AB123-0001\\',
+            'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+            '',
+            '![](<photos/240312-F-AB123-0002.jpg>) extra',
+            'Keywords: Ramstein;',
+            '240312-F-AB123-0002\\',
+            'Airmen train, March 12, 2024. (U.S. Air Force photo by Staff Sgt. Jane Doe)\\',
+        );
+
+        assert.deepEqual(at(['image-extension', 'image-tag-trailing-text'], result), [
+            'image-extension 4:31-4:35',
+            'image-tag-trailing-text 9:38-9:43',
+        ]);
+    });
+
+    test('Hints at ranks of another branch than the VIRIN service', () => {
+        const caption = (description: string) => check(
+            ...header,
+            '',
+            '![](<photos/240312-A-AB123-0001.jpg>)',
+            'Keywords: Ramstein;',
+            '240312-A-AB123-0001\\',
+            `${description}, March 12, 2024. (U.S. Navy photo by Petty Officer 2nd Class Jane Doe)\\`,
+        ).diagnostics.filter(diagnostic => diagnostic.code === 'rank-service');
+
+        const [hint] = caption('Petty Officer 2nd Class John Smith briefs Soldiers');
+        assert.equal(hint.message, '"Petty Officer 2nd Class" is a rank of the Navy or Coast Guard, but the VIRIN service is A (Army). Name the service before it if the person is from another branch.');
+        assert.deepEqual(hint.range, { start: { line: 7, character: 0 }, end: { line: 7, character: 23 } });
+
+        assert.deepEqual(caption('Navy Petty Officer 2nd Class John Smith briefs Soldiers'), []);
+        assert.deepEqual(caption('Staff Sgt. John Smith briefs Soldiers'), []);
+    });
+});
@@ -0,0 +1,54 @@
+import * as assert from 'assert';
+import { Diagnostic } from 'vscode-languageserver';
+import { parseCaptionSheet } from '../parser';
+import { VirinIndex, validateDuplicateVirins } from '../virinIndex';
+import { sheetText } from './helper';
+
+function sheetWith(...virins: string[]) {
+    return parseCaptionSheet(sheetText(...virins));
+}
+
+const first = 'file:///sheets/first.md';
+const second = 'file:///sheets/second.md';
+
+suite('VIRIN index', () => {
+    test('Reports a VIRIN used twice in one sheet', () => {
+        const sheet = sheetWith('240312-F-AB123-0001', '240312-F-AB123-0002', '240312-F-AB123-0001');
+        const diagnostics: Diagnostic[] = [];
+        validateDuplicateVirins(first, sheet, new VirinIndex(), diagnostics, 100, false);
+
+        assert.deepEqual(diagnostics.map(diagnostic => [diagnostic.range.start.line, diagnostic.message]), [
+            [6, 'Duplicate VIRIN "240312-F-AB123-0001". Also used at line 17.'],
+            [16, 'Duplicate VIRIN "240312-F-AB123-0001". Also used at line 7.'],
+        ]);
+    });
+
+    test('Reports a VIRIN used in another sheet of the index as related information', () => {
+        const index = new VirinIndex();
+        index.update(second, sheetWith('240312-F-AB123-0001'));
+        const sheet = sheetWith('240312-F-AB123-0001', '240312-F-AB123-0002');
+        index.update(first, sheet);
+
+        const diagnostics: Diagnostic[] = [];
+        validateDuplicateVirins(first, sheet, index, diagnostics, 100, true);
+        assert.equal(diagnostics.length, 1);
+        assert.equal(diagnostics[0].message, 'Duplicate VIRIN "240312-F-AB123-0001".');
+        assert.deepEqual(diagnostics[0].relatedInformation?.map(information => information.location.uri), [second]);
+
+        const withoutRelated: Diagnostic[] = [];
+        validateDuplicateVirins(first, sheet, index, withoutRelated, 100, false);
+        assert.equal(withoutRelated[0].message, 'Duplicate VIRIN "240312-F-AB123-0001". Also used at second.md, line 7.');
+
+        index.remove(second);
+        const afterRemoval: Diagnostic[] = [];
+        validateDuplicateVirins(first, sheet, index, afterRemoval, 100, true);
+        assert.deepEqual(afterRemoval, []);
+    });
+
+    test('Tells whether an update changed the VIRINs of a sheet', () => {
+        const index = new VirinIndex();
+        assert.equal(index.update(first, sheetWith('240312-F-AB123-0001')), true);
+        assert.equal(index.update(first, sheetWith('240312-F-AB123-0001')), false);
+        assert.equal(index.update(first, sheetWith('240312-F-AB123-0002')), true);
+    });
+});
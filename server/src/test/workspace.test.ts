@@ -0,0 +1,62 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { parseCaptionSheet } from '../parser';
+import { findCaptionSheets, isCaptionSheet, loadWorkspaceSheets, readWorkspaceSheet } from '../workspace';
+import { useTempFolder } from './helper';
+
+suite('Workspace', () => {
+    const folder = useTempFolder('march', '.git', 'node_modules');
+
+    setup(() => {
+        for (const file of ['one.md', 'march/two.MARKDOWN', 'march/notes.txt', '.git/three.md', 'node_modules/four.md']) {
+            fs.writeFileSync(folder(file), 'Headline\\\nBy Jane Doe\nKeywords: A;\n');
+        }
+    });
+
+    test('Finds the files that may be caption sheets in the workspace folders, skipping hidden folders and packages', async () => {
+        const files = await findCaptionSheets([pathToFileURL(folder()).toString(), 'untitled:Untitled-1']);
+        assert.deepEqual(files.sort(), [
+            folder('march', 'two.MARKDOWN'),
+            folder('one.md'),
+        ]);
+    });
+
+    test('Reads sheets from disk and picks up changes', async () => {
+        const file = folder('one.md');
+        const sheet = await readWorkspaceSheet(file);
+        assert.equal(sheet?.uri, pathToFileURL(file).toString());
+        assert.equal(sheet?.sheet.headline?.text, 'Headline\\');
+
+        fs.writeFileSync(file, 'Changed\\\nBy Jane Doe\nKeywords: A;\n');
+        const later = new Date(Date.now() + 10000);
+        fs.utimesSync(file, later, later);
+        assert.equal((await readWorkspaceSheet(file))?.sheet.headline?.text, 'Changed\\');
+
+        assert.equal(await readWorkspaceSheet(folder('missing.md')), undefined);
+    });
+
+    test('Tells caption sheets from other Markdown files by their header', async () => {
+        assert.ok(isCaptionSheet(parseCaptionSheet('Headline\\\nBy Jane Doe\nKeywords: A;\n')));
+        assert.ok(isCaptionSheet(parseCaptionSheet('\nHeadline\n\nby Jane Doe\nKeywords:\n')));
+        assert.ok(!isCaptionSheet(parseCaptionSheet('# Project\n\nSome notes.\n\nKeywords: A;\n')));
+        assert.ok(!isCaptionSheet(parseCaptionSheet('Headline\\\nBy Jane Doe\n')));
+
+        const readme = folder('README.md');
+        fs.writeFileSync(readme, '# Project\n\nThe captions of the March shoot.\n');
+        assert.equal(await readWorkspaceSheet(readme), undefined);
+        const open = TextDocument.create(pathToFileURL(folder('one.md')).toString(), 'Markdown-Captions', 1, '# Notes\n');
+        const sheets = await loadWorkspaceSheets([readme, folder('one.md'), folder('march', 'two.MARKDOWN')], [open]);
+        assert.deepEqual(sheets.map(sheet => path.basename(sheet.uri)), ['two.MARKDOWN']);
+    });
+
+    test('Prefers the text of open documents over the files on disk', async () => {
+        const file = folder('one.md');
+        const open = TextDocument.create(pathToFileURL(file).toString(), 'Markdown-Captions', 1, 'Unsaved\\\nBy Jane Doe\nKeywords: A;\n');
+
+        const sheets = await loadWorkspaceSheets([file, folder('march', 'two.MARKDOWN')], [open]);
+        assert.deepEqual(sheets.map(sheet => sheet.sheet.headline?.text), ['Unsaved\\', 'Headline\\']);
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { CaptionMetadata, buildXmpPacket, parseXmpPacket } from '../metadata/xmp';
+import { buildIptcData, parseIptcDataSets, readIptcMetadata } from '../metadata/iptc';
+
+const metadata: CaptionMetadata = {
+    title: '240312-F-AB123-0001',
+    keywords: ['Air Force', 'Training & <Readiness>'],
+    description: 'Airmen "train" at Ramstein, March 12, 2024.',
+    credit: 'U.S. Air Force photo by Staff Sgt. Jane Doe',
+};
+
+suite('XMP and IPTC', () => {
+    test('Reads back the XMP packet it builds, escaping what needs it', () => {
+        const packet = buildXmpPacket(metadata);
+
+        assert.ok(packet.includes('Training &amp; &lt;Readiness&gt;'));
+        assert.deepEqual(parseXmpPacket(packet), metadata);
+    });
+
+    test('Replaces only the caption fields of an existing packet', () => {
+        const existing = buildXmpPacket(metadata).replace(
+            '</rdf:RDF>',
+            '<rdf:Description rdf:about="" xmlns:xmp="http://ns.adobe.com/xap/1.0/" xmp:CreatorTool="Camera"/>\n </rdf:RDF>'
+        );
+        const packet = buildXmpPacket({ ...metadata, keywords: ['Ramstein'], credit: undefined }, existing);
+
+        assert.ok(packet.includes('xmp:CreatorTool="Camera"'));
+        assert.deepEqual(parseXmpPacket(packet), { title: metadata.title, keywords: ['Ramstein'], description: metadata.description });
+        assert.equal(packet.match(/<dc:title>/g)?.length, 1);
+    });
+
+    test('Reads simple values and attributes other tools write', () => {
+        assert.deepEqual(
+            parseXmpPacket('<rdf:Description dc:title="A &amp; B"><dc:subject><rdf:Bag/></dc:subject></rdf:Description>'),
+            { title: 'A & B', keywords: [] }
+        );
+    });
+
+    test('Reads back the IPTC block it builds and keeps data sets it does not own', () => {
+        const withByline = Buffer.concat([
+            buildIptcData(metadata),
+            Buffer.from([0x1C, 2, 80, 0, 8]), Buffer.from('Jane Doe', 'utf8'),
+        ]);
+        const rebuilt = buildIptcData({ ...metadata, title: '240312-F-AB123-0002' }, withByline);
+
+        assert.deepEqual(readIptcMetadata(rebuilt), { ...metadata, title: '240312-F-AB123-0002' });
+        assert.ok(parseIptcDataSets(rebuilt).some(dataSet => dataSet.dataSet === 80 && dataSet.data.toString() === 'Jane Doe'));
+    });
+
+    test('Converts the Latin-1 text it keeps from a block without a character set to UTF-8', () => {
+        const latin1 = Buffer.concat([
+            Buffer.from([0x1C, 2, 80, 0, 9]), Buffer.from('Jos\xe9 Pe\xf1a', 'latin1'),
+            Buffer.from([0x1C, 2, 125, 0, 2]), Buffer.from([0xE9, 0xF1]),
+        ]);
+        const rebuilt = parseIptcDataSets(buildIptcData(metadata, latin1));
+
+        const byline = rebuilt.find(dataSet => dataSet.dataSet === 80)!;
+        assert.equal(byline.data.toString('utf8'), 'José Peña');
+        assert.deepEqual(rebuilt.find(dataSet => dataSet.dataSet === 125)!.data, Buffer.from([0xE9, 0xF1]));
+
+        // Rebuilding a block that's already UTF-8 leaves the text alone
+        const again = parseIptcDataSets(buildIptcData(metadata, buildIptcData(metadata, latin1)));
+        assert.equal(again.find(dataSet => dataSet.dataSet === 80)!.data.toString('utf8'), 'José Peña');
+    });
+
+    test('Reads IPTC without a character set as Latin-1', () => {
+        const latin1 = Buffer.concat([Buffer.from([0x1C, 2, 5, 0, 4]), Buffer.from('Caf\xe9', 'latin1')]);
+        assert.deepEqual(readIptcMetadata(latin1), { title: 'Café' });
+    });
+});
@@ -0,0 +1,1159 @@
+import {
+    Command,
+    Diagnostic,
+    DiagnosticSeverity,
+    Range,
+    TextEdit
+} from 'vscode-languageserver';
+import {
+    Position,
+    TextDocument
+} from 'vscode-languageserver-textdocument';
+import {
+    CaptionBlock,
+    CaptionSheet,
+    SheetLine,
+    isBlankLine,
+    isCompleteCaption,
+    parseCaptionSheet
+} from './parser';
+import {
+    SheetSchema,
+    defaultSchema,
+    extensionList,
+    extensionSource,
+    listOf,
+    serviceHint,
+    virinFormat,
+    virinSource
+} from './schema';
+import { StyleEntry, bundledStyleEntries, findOtherServiceMatches, findStyleMatches } from './dictionaries';
+import { parseVirin } from './virin';
+import { findStateProblems } from './states';
+import {
+    DateMention,
+    compareDates,
+    findCaptionDates,
+    findMonthProblems,
+    formatCaptionDate,
+    isRealDate,
+    parseVirinDate,
+    today,
+    weekdayNames,
+    weekdayOf
+} from './dates';
+
+type PositionAt = (offset: number) => Position;
+type Keywords = string[];
+
+// A fix the code action provider can offer for a diagnostic
+export interface CaptionFix {
+    title: string;
+    edits: TextEdit[];
+    safe: boolean;      // Whether "fix all" may apply it without the user reviewing it
+    command?: Command;  // Run after the edits, for fixes that change files other than the sheet
+}
+
+// What the validator stores in `Diagnostic.data`
+export interface CaptionDiagnosticData {
+    fixes: CaptionFix[];
+}
+
+function replaceFix(title: string, range: Range, newText: string, safe: boolean): CaptionFix {
+    return { title, edits: [TextEdit.replace(range, newText)], safe };
+}
+
+function fixData(...fixes: CaptionFix[]): CaptionDiagnosticData {
+    return { fixes };
+}
+
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// The text before a term ends with one of the services - "Navy ", "U.S. Marine "
+function namedServicePattern(names: string[]): RegExp {
+    const alternatives = names.map(name => escapeRegExp(name).replace(/s$/, 's?'));
+    return new RegExp(`\\b(?:${alternatives.join('|')})\\s+$`);
+}
+
+// The start and end of the spaces at the end of a line
+function trailingSpaces(text: string): [number, number] {
+    return [text.trimEnd().length, text.length];
+}
+
+// The date a caption should use for a VIRIN's "yymmdd" - "March 12, 2024", or the digits when they aren't a date
+export function expectedCaptionDate(yymmdd: string, centuryPivot: number = defaultSchema.centuryPivot): string {
+    const date = parseVirinDate(yymmdd, centuryPivot);
+    return date ? formatCaptionDate(date) : yymmdd;
+}
+
+class CaptionBuilder {
+    block: CaptionBlock;
+    schema: SheetSchema;
+    style: StyleEntry[];
+    index: number;
+    lines: string[];
+    imageTag?: string;
+    keywords?: Keywords;
+    title?: string;
+    virin?: string;
+    description?: string;
+
+    constructor(block: CaptionBlock, schema: SheetSchema, style: StyleEntry[]) {
+        this.block = block;
+        this.schema = schema;
+        this.style = style;
+        this.index = block.index;
+        this.lines = block.lines.map(line => line.text);
+        this.imageTag = block.imageTag?.text;
+        this.keywords = block.keywords?.keywords.map(keyword => keyword.text);
+        this.title = block.title?.text;
+        this.description = block.description?.text;
+    }
+
+    isEmpty(): boolean {
+        return !this.imageTag &&
+            !this.keywords &&
+            !this.title &&
+            !this.description;
+    }
+
+    firstMissingField(): string {
+        if (!this.imageTag) { return 'image tag'; }
+        if (!this.keywords) { return 'keywords'; }
+        if (!this.title) { return 'image title'; }
+        if (!this.description) { return 'description'; }
+        return '';
+    }
+
+    imageTagIsValid(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ): boolean {
+        if (diagnostics.length >= maxNumberOfProblems) { return true; }
+
+        const tagOffset = this.block.imageTag!.offset;
+        const imageTag = this.imageTag || '';
+        const virin = virinSource(this.schema);
+        const extension = extensionSource(this.schema);
+
+        const correctFilenamePattern =
+            new RegExp(`^(!\\[\\]\\(\\<.+\\/)(${virin})(${extension})\\>\\)\\s*$`, 'g');
+        let match = correctFilenamePattern.exec(imageTag);
+        if (match) { return true; }
+
+        const extraCrapOnTheEndPattern =
+            new RegExp(`^(!\\[\\]\\(\\<.+\\/)(${virin})(${extension})(\\>\\)\\s*)(.+)$`, 'g');
+        match = extraCrapOnTheEndPattern.exec(imageTag);
+        if (match) {
+            const trailingStart = tagOffset + match[1].length + match[2].length + match[3].length + match[4].length;
+            const range = {
+                start: positionAt(trailingStart),
+                end: positionAt(trailingStart + match[5].length)
+            };
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range,
+                message: `Found unexpected characters after image title "${match[5]}".`,
+                code: 'image-tag-trailing-text',
+                source: 'Markdown Captions',
+                data: fixData(replaceFix(`Remove "${match[5]}"`, range, '', false))
+            });
+            return false;
+        }
+
+        const incorrectExtensionPattern =
+            new RegExp(`^(!\\[\\]\\(\\<.+\\/)(${virin})(.+)\\>\\)\\s*$`, 'g');
+        match = incorrectExtensionPattern.exec(imageTag);
+        if (match) {
+            const extensionStart = tagOffset + match[1].length + match[2].length;
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: {
+                    start: positionAt(extensionStart),
+                    end: positionAt(extensionStart + match[3].length)
+                },
+                message: `Expected image tag file extension to be ${extensionList(this.schema)}, found "${match[3]}".\nUsage of files with other extensions may result in unexpected outcomes.`,
+                code: 'image-extension',
+                source: 'Markdown Captions'
+            });
+            return false;
+        }
+
+        const incorrectFilenamePattern = /^(!\[\]\(\<.+\/)(.+)(\..+)\>\)\s*$/g;
+        match = incorrectFilenamePattern.exec(imageTag);
+        if (match) {
+            const filenameStart = tagOffset + match[1].length;
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range: {
+                    start: positionAt(filenameStart),
+                    end: positionAt(filenameStart + match[2].length)
+                },
+                message: `Expected filename to be of the format "${virinFormat(this.schema)}", found "${match[2]}". ${serviceHint(this.schema)}`,
+                code: 'filename-format',
+                source: 'Markdown Captions'
+            });
+            return false;
+        }
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: {
+                start: positionAt(tagOffset),
+                end: positionAt(tagOffset + imageTag.length)
+            },
+            message: `Unexpected error validating image tag.`,
+            code: 'image-tag-invalid',
+            source: 'Markdown Captions'
+        });
+        return false;
+    }
+
+    keywordsAreValid(
+        baseKeywordsLength: number,
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ): boolean {
+        if (diagnostics.length >= maxNumberOfProblems) { return true; }
+
+        const keywords = this.keywords || [];
+
+        const maxKeywords = this.schema.maxKeywords;
+        if (keywords.length == 0 || baseKeywordsLength + keywords.length <= maxKeywords) {
+            return true;
+        }
+
+        // From the first keyword to the ";" after the last one
+        const list = this.block.keywords!;
+        const lastKeyword = list.keywords[list.keywords.length - 1];
+        const lastKeywordEnd = lastKeyword.offset + lastKeyword.text.length;
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: {
+                start: positionAt(list.keywords[0].offset),
+                end: positionAt(list.offset + list.text.indexOf(';', lastKeywordEnd - list.offset) + 1)
+            },
+            message: `A maximum of ${maxKeywords} total keywords is allowed. Found ${baseKeywordsLength} base keywords and ${keywords.length} image-specific keyword${keywords.length == 1 ? "" : "s"}.`,
+            code: 'keyword-limit',
+            source: 'Markdown Captions'
+        });
+        return false;
+    }
+
+    titleIsValid(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ): boolean {
+        if (diagnostics.length >= maxNumberOfProblems) { return true; }
+
+        const titleOffset = this.block.title!.offset;
+        const title = this.title || '';
+        const virin = virinSource(this.schema);
+
+        const titlePattern = new RegExp(`^(${virin})\\\\\\s*$`, 'g');
+        let match = titlePattern.exec(title);
+        if (match) {
+            this.virin = match[1];
+            return true;
+        }
+
+        const missingBackslashPattern = new RegExp(`^(${virin})((?<!\\\\)\\s*)$`, 'g');
+        match = missingBackslashPattern.exec(title);
+        if (match) {
+            const spacesStart = titleOffset + match[1].length;
+            const range = {
+                start: positionAt(spacesStart),
+                end: positionAt(spacesStart + match[2].length)
+            };
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: 'The title should end in a backslash for pandoc and markdown preview to render propper spacing.',
+                code: 'title-backslash',
+                source: 'Markdown Captions',
+                data: fixData(replaceFix('Add a trailing backslash', range, '\\', true))
+            });
+            return false;
+        }
+
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: {
+                start: positionAt(titleOffset),
+                end: positionAt(titleOffset + title.length)
+            },
+            message: `Expected image title resembling "${virinFormat(this.schema)}\\", found "${title}". ${serviceHint(this.schema)}`,
+            code: 'title-format',
+            source: 'Markdown Captions'
+        });
+        return false;
+    }
+
+    build(
+        baseKeywordsLength: number,
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ): Caption | null {
+        if (
+            !this.imageTag ||
+            !this.keywords ||
+            !this.title ||
+            !this.description
+        ) {
+            return null;
+        }
+
+        const fullText = this.lines.join('\n');
+        if (
+            !this.imageTagIsValid(diagnostics, maxNumberOfProblems, positionAt) ||
+            !this.keywordsAreValid(baseKeywordsLength, diagnostics, maxNumberOfProblems, positionAt) ||
+            !this.titleIsValid(diagnostics, maxNumberOfProblems, positionAt)
+        ) {
+            return null;
+        }
+
+        if (!this.virin) { return null; }
+
+        return new Caption(
+            this.block,
+            this.index,
+            fullText,
+            this.imageTag,
+            this.keywords,
+            this.title,
+            this.virin,
+            this.description,
+            this.schema,
+            this.style,
+        );
+    }
+}
+
+export class Caption {
+    block: CaptionBlock;    // The parsed lines the caption was built from
+    index: number;          // The index of the first line of the caption
+    fullText: string;        // Full text of the caption split by line
+    imageTag: string;       // The image tag line - "![](<path/to/image.jpg>)"
+    keywords: Keywords;     // The keywords array - ["X", "Y", "Z"]
+    title: string;          // The title line - "yymmdd-A-AB123-0000\"
+    virin: string;          // The VIRIN - "yymmdd-A-AB123-0000"
+    description: string;    // The description - "X person does Y on Z date."
+    schema: SheetSchema;    // What the caption was checked against
+    style: StyleEntry[];    // The style dictionary entries the description is checked against
+
+    constructor(
+        block: CaptionBlock,
+        index: number,
+        fullText: string,
+        imageTag: string,
+        keywords: Keywords,
+        title: string,
+        virin: string,
+        description: string,
+        schema: SheetSchema,
+        style: StyleEntry[]
+    ) {
+        this.block = block;
+        this.index = index;
+        this.fullText = fullText;
+        this.imageTag = imageTag;
+        this.keywords = keywords;
+        this.title = title;
+        this.virin = virin;
+        this.description = description;
+        this.schema = schema;
+        this.style = style;
+    }
+
+    validateFilenameMatchesVirin(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        const imageTag = this.block.imageTag!;
+
+        const filenamePattern = new RegExp(
+            `^(!\\[\\]\\(\\<.+\\/)(${virinSource(this.schema)})(${extensionSource(this.schema)})\\>\\)\\s*$`, 'g');
+        const filenameMatch = filenamePattern.exec(this.imageTag);
+
+        if (!filenameMatch) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range: {
+                    start: positionAt(imageTag.offset),
+                    end: positionAt(imageTag.offset + this.imageTag.length)
+                },
+                message: `Unexpected error validating image tag.`,
+                code: 'image-tag-invalid',
+                source: 'Markdown Captions'
+            });
+            return;
+        }
+
+        const filename = filenameMatch[2];
+        if (filename === this.virin) { return; }
+
+        const filenameRange = imageTag.filename.range;
+        // The VIRIN starts the title
+        const titleOffset = this.block.title!.offset;
+        const titleRange = {
+            start: positionAt(titleOffset),
+            end: positionAt(titleOffset + this.virin.length)
+        };
+        // Either side may be the one that's wrong, so neither fix is safe to apply blindly
+        const useTitle = replaceFix(`Change the filename to "${this.virin}"`, filenameRange, this.virin, false);
+        const useFilename = replaceFix(`Change the title to "${filename}"`, titleRange, filename, false);
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: filenameRange,
+            message: `This filename does not match the title of this image.\nFilename: ${filename}\nTitle:    ${this.virin}`,
+            code: 'filename-title-mismatch',
+            source: 'Markdown Captions',
+            data: fixData(useTitle, useFilename)
+        });
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: titleRange,
+            message: `This image title does not match the filename.\nFilename: ${filename}\nTitle:    ${this.virin}`,
+            code: 'filename-title-mismatch',
+            source: 'Markdown Captions',
+            data: fixData(useFilename, useTitle)
+        });
+    }
+
+    validateFilenameDateMatchesCaptionDate(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        const titleOffset = this.block.title!.offset;
+
+        const titleDatePattern = /(\d{6})/i;
+        const titleDateMatch = this.title.match(titleDatePattern);
+
+        if (!titleDateMatch) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range: {
+                    start: positionAt(titleOffset),
+                    end: positionAt(titleOffset + this.title.length)
+                },
+                message: `Unexpected error parsing date from image title.`,
+                code: 'title-date-invalid',
+                source: 'Markdown Captions'
+            });
+            return;
+        }
+
+        const titleDateStart = titleOffset + titleDateMatch.index!;
+        const titleDateRange = {
+            start: positionAt(titleDateStart),
+            end: positionAt(titleDateStart + titleDateMatch[1].length)
+        };
+        const titleDate = parseVirinDate(titleDateMatch[1], this.schema.centuryPivot);
+        if (!titleDate) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Error,
+                range: titleDateRange,
+                message: `"${titleDateMatch[1]}" is not a date. A VIRIN starts with the day the image was shot as "yymmdd".`,
+                code: 'title-date-invalid',
+                source: 'Markdown Captions'
+            });
+            return;
+        }
+        if (this.schema.warnFutureDates && compareDates(titleDate, today()) > 0) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: titleDateRange,
+                message: `${formatCaptionDate(titleDate)} is in the future. Check the date at the start of the VIRIN.`,
+                code: 'date-future',
+                source: 'Markdown Captions'
+            });
+            if (diagnostics.length >= maxNumberOfProblems) { return; }
+        }
+
+        const descriptionOffset = this.block.description!.offset;
+        const dates = findCaptionDates(this.description).filter(date => date.hasYear);
+        if (dates.length === 0) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: {
+                    start: positionAt(descriptionOffset),
+                    end: positionAt(descriptionOffset + this.description.length)
+                },
+                message: `Cound not find date in caption. Expected date resembling "Jan. 1, 2000".`,
+                code: 'date-missing',
+                source: 'Markdown Captions'
+            });
+            return;
+        }
+
+        // Any of the dates may be the day the image was shot, the others being what the caption is about
+        const expectedDate = formatCaptionDate(titleDate);
+        const isShootDate = (date: DateMention) => date.to
+            ? compareDates(date.from, titleDate) <= 0 && compareDates(titleDate, date.to) <= 0
+            : date.text === expectedDate;
+        if (dates.some(isShootDate)) { return; }
+
+        const date = dates[0];
+        const range = {
+            start: positionAt(descriptionOffset + date.start),
+            end: positionAt(descriptionOffset + date.end)
+        };
+        if (date.to && dates.length === 1) {
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: `The date in the filename, ${expectedDate}, is not within the dates in the caption, ${date.text}.`,
+                code: 'date-mismatch',
+                source: 'Markdown Captions'
+            });
+            return;
+        }
+
+        const found = dates.length === 1
+            ? `Found:    ${date.text}`
+            : `Found:    ${dates.map(date => date.text).join('; ')}`;
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range,
+            message: `The date in the filename does not match the date in the caption or is not formatted correctly.\nExpected: ${expectedDate}\n${found}`,
+            code: 'date-mismatch',
+            source: 'Markdown Captions',
+            data: fixData(replaceFix(`Change the date to "${expectedDate}"`, range, expectedDate, false))
+        });
+    }
+
+    validateWeekdaysMatchDates(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        const descriptionOffset = this.block.description!.offset;
+
+        for (const date of findCaptionDates(this.description)) {
+            if (diagnostics.length >= maxNumberOfProblems) { return; }
+            if (!date.weekday || !date.hasYear || !isRealDate(date.from)) { continue; }
+
+            const actual = weekdayOf(date.from);
+            if (date.weekday.index === actual) { continue; }
+
+            const weekday = weekdayNames[actual];
+
+            const range = {
+                start: positionAt(descriptionOffset + date.weekday.start),
+                end: positionAt(descriptionOffset + date.weekday.end)
+            };
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: `${formatCaptionDate(date.from)} is a ${weekday}, not a ${weekdayNames[date.weekday.index]}.`,
+                code: 'date-weekday',
+                source: 'Markdown Captions',
+                data: fixData(replaceFix(`Change to "${weekday}"`, range, weekday, false))
+            });
+        }
+    }
+
+    validateMonthsFollowAPStyle(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        const descriptionOffset = this.block.description!.offset;
+
+        for (const problem of findMonthProblems(this.description)) {
+            if (diagnostics.length >= maxNumberOfProblems) { return; }
+            const range = {
+                start: positionAt(descriptionOffset + problem.start),
+                end: positionAt(descriptionOffset + problem.end)
+            };
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: problem.message,
+                code: 'month-style',
+                source: 'Markdown Captions',
+                data: fixData(replaceFix(`Change to "${problem.replacement}"`, range, problem.replacement, true))
+            });
+        }
+    }
+
+    validateDescriptionEndsWithABackslash(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        const descriptionOffset = this.block.description!.offset;
+
+        const backslashPattern = /\\$/g;
+        let match = backslashPattern.exec(this.description);
+        if (match) { return; }
+
+        const [spacesStart, spacesEnd] = trailingSpaces(this.description);
+        const trailingRange = {
+            start: positionAt(descriptionOffset + spacesStart),
+            end: positionAt(descriptionOffset + spacesEnd)
+        };
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: {
+                start: positionAt(descriptionOffset + this.description.length),
+                end: positionAt(descriptionOffset + this.description.length + 1)
+            },
+            message: "The description should end in a backslash for pandoc to render propper spacing.",
+            code: 'description-backslash',
+            source: 'Markdown Captions',
+            data: fixData(replaceFix('Add a trailing backslash', trailingRange, '\\', true))
+        });
+    }
+
+    validateDescriptionEndsWithAttribution(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        const descriptionOffset = this.block.description!.offset;
+
+        const attributionPattern = /(\(.*(?:[Pp]hoto|[Vv]ideo).*\)\\)$/g;
+        let match = attributionPattern.exec(this.description);
+        if (match) { return; }
+
+        // The end of the description, where the attribution should be
+        const underlineStart = Math.max(0, this.description.length - 15);
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: {
+                start: positionAt(descriptionOffset + underlineStart),
+                end: positionAt(descriptionOffset + this.description.length)
+            },
+            message: "The caption is missing attribution. Expected ending resembling (Photo by John Smith)\.",
+            code: 'attribution-missing',
+            source: 'Markdown Captions'
+        });
+    }
+
+    validateNoDoublePunctuation(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        const descriptionOffset = this.block.description!.offset;
+        let match: RegExpExecArray | null;
+        // Using a character class caused this to falsely identify numbers as punctuation
+        const punctuationPattern = /(?:\.,|,\.|([ -/:-@[-`{-~])\1{1,})/g;
+
+        while (match = punctuationPattern.exec(this.description)) {
+            const range = {
+                start: positionAt(descriptionOffset + match.index),
+                end: positionAt(descriptionOffset + match.index + match[0].length)
+            };
+            // Only doubled spaces are certainly a typo, "..." may well be intended
+            const replacement = match[0][0];
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: `Found multiple consecutive punctuation characters "${match[0]}"`,
+                code: 'double-punctuation',
+                source: 'Markdown Captions',
+                data: fixData(replaceFix(`Replace with "${replacement}"`, range, replacement, replacement === ' '))
+            });
+        }
+    }
+
+    validateAbbreviationsArePunctuatedCorrectly(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        const descriptionOffset = this.block.description!.offset;
+        const service = parseVirin(this.virin)?.service;
+
+        // A spelling more than one entry wants replaced, like a bare "Lt" in the Army, is reported once
+        const bySpan = new Map<string, { start: number, end: number, text: string, preferred: string[] }>();
+        for (const match of findStyleMatches(this.description, this.style, service)) {
+            const key = `${match.start}-${match.end}`;
+            const found = bySpan.get(key) || { start: match.start, end: match.end, text: match.text, preferred: [] };
+            if (!found.preferred.includes(match.entry.preferred)) { found.preferred.push(match.entry.preferred); }
+            bySpan.set(key, found);
+        }
+
+        for (const { start, end, text, preferred } of bySpan.values()) {
+            if (diagnostics.length >= maxNumberOfProblems) { return; }
+            const range = {
+                start: positionAt(descriptionOffset + start),
+                end: positionAt(descriptionOffset + end)
+            };
+            const quoted = preferred.map(form => `"${form}"`);
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: preferred.length === 1
+                    ? `"${text}" should be ${quoted[0]}.`
+                    : `"${text}" is ambiguous. It should be ${listOf(quoted, 'or')}.`,
+                code: 'abbreviation-style',
+                source: 'Markdown Captions',
+                data: fixData(...preferred.map(form => replaceFix(`Change to "${form}"`, range, form, false)))
+            });
+        }
+    }
+
+    validateRanksMatchService(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        const descriptionOffset = this.block.description!.offset;
+        const attribution = this.block.description!.attribution;
+        const service = parseVirin(this.virin)?.service;
+        if (!service) { return; }
+
+        for (const match of findOtherServiceMatches(this.description, this.style, service)) {
+            if (diagnostics.length >= maxNumberOfProblems) { return; }
+            // Photographers are often from another branch than the people in the picture
+            if (attribution && descriptionOffset + match.start >= attribution.offset) { continue; }
+            const names = match.entry.services!.map(letter => this.schema.services[letter] || letter);
+            // "Navy Petty Officer 2nd Class" in an Army caption is someone from another branch
+            if (namedServicePattern(names).test(this.description.substring(0, match.start))) { continue; }
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Hint,
+                range: {
+                    start: positionAt(descriptionOffset + match.start),
+                    end: positionAt(descriptionOffset + match.end)
+                },
+                message: `"${match.text}" is a rank of the ${listOf(names, 'or')}, but the VIRIN service is ${service} (${this.schema.services[service] || 'not a known service'}). Name the service before it if the person is from another branch.`,
+                code: 'rank-service',
+                source: 'Markdown Captions'
+            });
+        }
+    }
+
+    validateStateNamesFollowAPStyle(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        const descriptionOffset = this.block.description!.offset;
+
+        for (const problem of findStateProblems(this.description)) {
+            if (diagnostics.length >= maxNumberOfProblems) { return; }
+            const range = {
+                start: positionAt(descriptionOffset + problem.start),
+                end: positionAt(descriptionOffset + problem.end)
+            };
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range,
+                message: problem.message,
+                code: 'state-style',
+                source: 'Markdown Captions',
+                data: fixData(replaceFix(`Change to "${problem.replacement}"`, range, problem.replacement, false))
+            });
+        }
+    }
+
+    validateAbbreviationActuallyUsedASecondTime(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+        const descriptionOffset = this.block.description!.offset;
+        let secondIndexOfMatch: number;
+        let match: RegExpExecArray | null;
+        const punctuationPattern = /(\((?!.*?(?:[Pp]hoto|[Vv]ideo)).*?\))/g
+
+        while (match = punctuationPattern.exec(this.description)) {
+            // +2 because match[0] includes the parentheses
+            secondIndexOfMatch = this.description.indexOf(match[1], match.index + 2);
+            if (secondIndexOfMatch !== -1) { continue; }
+
+            diagnostics.push({
+                severity: DiagnosticSeverity.Warning,
+                range: {
+                    start: positionAt(descriptionOffset + match.index),
+                    end: positionAt(descriptionOffset + match.index + match[0].length)
+                },
+                message: `Abbreviation "${match[1]}" is never used a second time.`,
+                code: 'abbreviation-unused',
+                source: 'Markdown Captions'
+            });
+        }
+    }
+
+    validate(
+        diagnostics: Diagnostic[],
+        maxNumberOfProblems: number,
+        positionAt: PositionAt,
+    ) {
+        this.validateFilenameMatchesVirin(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateFilenameDateMatchesCaptionDate(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateWeekdaysMatchDates(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateMonthsFollowAPStyle(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateDescriptionEndsWithABackslash(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateDescriptionEndsWithAttribution(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateNoDoublePunctuation(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateAbbreviationsArePunctuatedCorrectly(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateRanksMatchService(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateStateNamesFollowAPStyle(diagnostics, maxNumberOfProblems, positionAt);
+        this.validateAbbreviationActuallyUsedASecondTime(diagnostics, maxNumberOfProblems, positionAt);
+    }
+};
+
+function validateImageTagLine(
+    line: SheetLine,
+    schema: SheetSchema,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+) {
+    if (diagnostics.length >= maxNumberOfProblems) { return; }
+    if (line.accepted) { return; }
+
+    diagnostics.push({
+        severity: DiagnosticSeverity.Error,
+        range: line.range,
+        message: `Expected image tag resembling "![](<path/to/image${schema.extensions[0]}>)", found "${line.text}".`,
+        code: 'image-tag-format',
+        source: 'Markdown Captions'
+    });
+}
+
+function validateKeywordsLine(
+    line: SheetLine,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    positionAt: PositionAt,
+) {
+    if (diagnostics.length >= maxNumberOfProblems) { return; }
+
+    const unfinishedKeywordsPattern = /^(Keywords:)(\s*)(.+;)(\s*)(\S+.*(?<!;))$/g;
+    const match = unfinishedKeywordsPattern.exec(line.text);
+    if (match) {
+        const matchesLength = match[1].length + match[2].length + (match[3]?.length || 0) + match[4].length;
+        const range = {
+            start: positionAt(line.offset + matchesLength),
+            end: positionAt(line.offset + line.text.length)
+        };
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range,
+            message: `All keywords must end in a ";", found "${match[5]}" but expected "${match[5]};".`,
+            code: 'keyword-semicolon',
+            source: 'Markdown Captions',
+            data: fixData(replaceFix(`Add ";" after "${match[5].trimEnd()}"`, range, `${match[5].trimEnd()};`, true))
+        });
+    }
+    if (line.accepted) { return; }
+
+    diagnostics.push({
+        severity: DiagnosticSeverity.Error,
+        range: line.range,
+        message: `Expected line resembling "Keywords: Some; keywords;", found "${line.text}".`,
+        code: 'keywords-format',
+        source: 'Markdown Captions'
+    });
+}
+
+function validateTitleLine(
+    line: SheetLine,
+    schema: SheetSchema,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+) {
+    if (diagnostics.length >= maxNumberOfProblems) { return; }
+    if (line.accepted) { return; }
+
+    diagnostics.push({
+        severity: DiagnosticSeverity.Error,
+        range: line.range,
+        message: `Expected image title resembling "${virinFormat(schema)}", found "${line.text}". ${serviceHint(schema)}`,
+        code: 'title-format',
+        source: 'Markdown Captions'
+    });
+}
+
+function validateCaptionLine(
+    line: SheetLine,
+    previousLine: SheetLine | undefined,
+    schema: SheetSchema,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    positionAt: PositionAt,
+) {
+    if (diagnostics.length >= maxNumberOfProblems) { return; }
+    if (isBlankLine(line.text)) { return; }
+
+    // A new caption starts right after the base keywords or the previous description
+    const followsPreviousBlock = !!previousLine && previousLine.accepted &&
+        (previousLine.expected === 'baseKeywords' || previousLine.expected === 'description');
+    if (followsPreviousBlock) {
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: line.range,
+            message: 'There should be at least one blank line between captions.',
+            code: 'blank-line-between-captions',
+            source: 'Markdown Captions',
+            data: fixData(replaceFix('Insert a blank line', { start: line.range.start, end: line.range.start }, '\n', true))
+        });
+    }
+
+    switch (line.expected) {
+        case 'imageTag':
+            validateImageTagLine(line, schema, diagnostics, maxNumberOfProblems);
+            break;
+        case 'keywords':
+            validateKeywordsLine(line, diagnostics, maxNumberOfProblems, positionAt);
+            break;
+        case 'title':
+            validateTitleLine(line, schema, diagnostics, maxNumberOfProblems);
+            break;
+    }
+}
+
+function validateHeadline(
+    text: string,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    priorTextLength: number,
+    positionAt: PositionAt,
+): string {
+    if (diagnostics.length >= maxNumberOfProblems) { return text; }
+
+    const headlinePattern = /^(.+)(?<!\\)$/;
+    const match = headlinePattern.exec(text);
+    if (match) {
+        const [spacesStart, spacesEnd] = trailingSpaces(text);
+        const trailingRange = {
+            start: positionAt(priorTextLength + spacesStart),
+            end: positionAt(priorTextLength + spacesEnd)
+        };
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: {
+                start: positionAt(priorTextLength),
+                end: positionAt(priorTextLength + text.length)
+            },
+            message: 'The headline should end in a backslash for pandoc to render propper spacing.',
+            code: 'headline-backslash',
+            source: 'Markdown Captions',
+            data: fixData(replaceFix('Add a trailing backslash', trailingRange, '\\', true))
+        });
+    }
+    return text;
+}
+
+function validateByline(
+    text: string,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    priorTextLength: number,
+    positionAt: PositionAt,
+): string {
+    if (diagnostics.length >= maxNumberOfProblems) { return ''; }
+
+    const bylinePattern = /^By (.+)/;
+    let match = bylinePattern.exec(text);
+    if (match) {
+        return text;
+    }
+
+    const blankLinePattern = /^\s*$/;
+    match = blankLinePattern.exec(text);
+    if (match) {
+        diagnostics.push({
+            severity: DiagnosticSeverity.Warning,
+            range: {
+                start: positionAt(priorTextLength),
+                end: positionAt(priorTextLength + text.length)
+            },
+            message: 'Expected byline to immediately follow the headline.',
+            code: 'byline-position',
+            source: 'Markdown Captions'
+        });
+        return '';
+    }
+
+    diagnostics.push({
+        severity: DiagnosticSeverity.Error,
+        range: {
+            start: positionAt(priorTextLength),
+            end: positionAt(priorTextLength + text.length)
+        },
+        message: `Expected byline, found "${text}".`,
+        code: 'byline-format',
+        source: 'Markdown Captions'
+    });
+    return text;
+}
+
+function validateBaseKeywords(
+    text: string,
+    schema: SheetSchema,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    priorTextLength: number,
+    positionAt: PositionAt,
+): Keywords | null {
+    if (diagnostics.length >= maxNumberOfProblems) { return null; }
+
+    const blankLinePattern = /^\s*$/;
+    let match = blankLinePattern.exec(text);
+    if (match) { return null; }
+
+    const unfinishedKeywordsPattern = /^(Keywords:)(\s*)(.+;)?(\s*)(\S+(?<!;))$/g;
+    match = unfinishedKeywordsPattern.exec(text);
+    if (match) {
+        const matchesLength = match[1].length + match[2].length + (match[3]?.length || 0) + match[4].length;
+        const range = {
+            start: positionAt(priorTextLength + matchesLength),
+            end: positionAt(priorTextLength + text.length)
+        };
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range,
+            message: `All keywords must end in a ";", found "${match[5]}" but expected "${match[5]};".`,
+            code: 'keyword-semicolon',
+            source: 'Markdown Captions',
+            data: fixData(replaceFix(`Add ";" after "${match[5].trimEnd()}"`, range, `${match[5].trimEnd()};`, true))
+        });
+    }
+
+    const keywordsPattern = /^(Keywords:)(\s*)(.+;)?/g;
+    match = keywordsPattern.exec(text);
+    if (!match) {
+        diagnostics.push({
+            severity: DiagnosticSeverity.Error,
+            range: {
+                start: positionAt(priorTextLength),
+                end: positionAt(priorTextLength + text.length)
+            },
+            message: `Expected keywords, found "${text}".`,
+            code: 'base-keywords-format',
+            source: 'Markdown Captions'
+        });
+        return null;
+    }
+
+    let keywords = (match[3] || '')
+        .split(';')
+        .map(k => k.trim())
+        .filter(k => k.length > 0);
+    if (keywords.length <= schema.maxKeywords) {
+        return keywords;
+    }
+
+    diagnostics.push({
+        severity: DiagnosticSeverity.Error,
+        range: {
+            start: positionAt(priorTextLength + match[1].length),
+            end: positionAt(priorTextLength + match[0].length)
+        },
+        message: `A maximum of ${schema.maxKeywords} keywords is allowed. Found ${keywords.length} keywords.`,
+        code: 'keyword-limit',
+        source: 'Markdown Captions'
+    });
+    return keywords;
+}
+
+export interface SheetCheck {
+    sheet: CaptionSheet;
+    captions: Caption[];        // Every caption that passed the structural checks
+    diagnostics: Diagnostic[];
+}
+
+/**
+ * Runs every check on a caption sheet, stopping once `maxNumberOfProblems`
+ * diagnostics have been found.
+ */
+export function checkCaptionSheet(
+    textDocument: TextDocument,
+    maxNumberOfProblems: number,
+    schema: SheetSchema = defaultSchema,
+    style: StyleEntry[] = bundledStyleEntries(),
+): SheetCheck {
+    let diagnostics: Diagnostic[] = [];
+    const sheet = parseCaptionSheet(textDocument.getText());
+
+    const positionAt: PositionAt = offset => textDocument.positionAt(offset);
+
+    let previousLine: SheetLine | undefined;
+    for (const line of sheet.lines) {
+        if (line.directive) { continue; }
+
+        switch (line.expected) {
+            case 'headline':
+                validateHeadline(line.text, diagnostics, maxNumberOfProblems, line.offset, positionAt);
+                break;
+            case 'byline':
+                validateByline(line.text, diagnostics, maxNumberOfProblems, line.offset, positionAt);
+                break;
+            case 'baseKeywords':
+                validateBaseKeywords(line.text, schema, diagnostics, maxNumberOfProblems, line.offset, positionAt);
+                break;
+            default:
+                validateCaptionLine(line, previousLine, schema, diagnostics, maxNumberOfProblems, positionAt);
+        }
+        previousLine = line;
+    }
+
+    const baseKeywordsLength = sheet.baseKeywords?.keywords.length || 0;
+    let caption: Caption | null = null;
+    let captions: Caption[] = [];
+
+    for (const block of sheet.captions) {
+        const captionBuilder = new CaptionBuilder(block, schema, style);
+        if (!isCompleteCaption(block)) {
+            let firstMissingField = captionBuilder.firstMissingField();
+            let isAre =
+                firstMissingField === 'description' ? 'is' : 'and all later fields are';
+            let message =
+                `Found incomplete caption. The ${firstMissingField} ${isAre} missing.`;
+            const lastLine = sheet.lines[sheet.lines.length - 1];
+            if (diagnostics.length < maxNumberOfProblems) {
+                diagnostics.push({
+                    severity: DiagnosticSeverity.Error,
+                    range: {
+                        start: positionAt(lastLine.offset),
+                        end: positionAt(lastLine.offset + lastLine.text.length + 1)
+                    },
+                    message,
+                    code: 'caption-incomplete',
+                    source: 'Markdown Captions'
+                });
+            }
+            continue;
+        }
+
+        caption = captionBuilder.build(baseKeywordsLength, diagnostics, maxNumberOfProblems, positionAt);
+        if (caption) {
+            captions.push(caption);
+        }
+    }
+
+    for (caption of captions) {
+        caption.validate(diagnostics, maxNumberOfProblems, positionAt);
+    }
+
+    return { sheet, captions, diagnostics };
+}
+
+export function validateCaptionSheet(
+    textDocument: TextDocument,
+    maxNumberOfProblems: number,
+    schema: SheetSchema = defaultSchema,
+    style: StyleEntry[] = bundledStyleEntries(),
+): Diagnostic[] {
+    return checkCaptionSheet(textDocument, maxNumberOfProblems, schema, style).diagnostics;
+}
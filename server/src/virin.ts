@@ -0,0 +1,19 @@
+import { virinPattern } from './parser';
+
+// The parts of a VIRIN - "yymmdd-A-AB123-0000"
+export interface Virin {
+    text: string;
+    date: string;       // "yymmdd"
+    service: string;    // The service letter - "F"
+    unit: string;       // The unit or photographer ID - "AB123"
+    sequence: number;   // The sequence number of the image that day - 1 for "0001"
+}
+
+const exactVirinPattern = new RegExp(`^${virinPattern.source}$`);
+
+export function parseVirin(text: string): Virin | undefined {
+    if (!exactVirinPattern.test(text)) { return; }
+
+    const [date, service, unit, sequence] = text.split('-');
+    return { text, date, service, unit, sequence: Number(sequence) };
+}
@@ -0,0 +1,114 @@
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import {
+    Diagnostic,
+    DiagnosticRelatedInformation,
+    DiagnosticSeverity,
+    Range
+} from 'vscode-languageserver';
+import { CaptionSheet } from './parser';
+
+export interface VirinOccurrence {
+    virin: string;
+    uri: string;        // The sheet the VIRIN is the title of a caption in
+    range: Range;       // The VIRIN in the title line
+}
+
+// Clients and Node spell file URIs differently, so files are keyed by path
+export function sheetKey(uri: string): string {
+    return uri.startsWith('file:') ? fileURLToPath(uri) : uri;
+}
+
+function sheetOccurrences(uri: string, sheet: CaptionSheet): VirinOccurrence[] {
+    return sheet.captions.flatMap(block => block.title?.virin
+        ? [{ virin: block.title.virin.text, uri, range: block.title.virin.range }]
+        : []);
+}
+
+/**
+ * The VIRINs of every caption sheet in the workspace, used to find the same
+ * VIRIN in two sheets.
+ */
+export class VirinIndex {
+    private sheets: Map<string, VirinOccurrence[]> = new Map();
+
+    /**
+     * Replaces what's known about a sheet. Returns whether its VIRINs changed,
+     * meaning other sheets may need to be checked again.
+     */
+    update(uri: string, sheet: CaptionSheet): boolean {
+        const key = sheetKey(uri);
+        const occurrences = sheetOccurrences(uri, sheet);
+        const previous = this.sheets.get(key);
+        this.sheets.set(key, occurrences);
+        return !previous ||
+            previous.map(occurrence => occurrence.virin).join() !== occurrences.map(occurrence => occurrence.virin).join();
+    }
+
+    remove(uri: string): boolean {
+        return this.sheets.delete(sheetKey(uri));
+    }
+
+    clear() {
+        this.sheets.clear();
+    }
+
+    // Where else the VIRIN appears, leaving out the given sheet
+    occurrencesOutside(uri: string, virin: string): VirinOccurrence[] {
+        const key = sheetKey(uri);
+        const result: VirinOccurrence[] = [];
+        for (const [sheet, occurrences] of this.sheets) {
+            if (sheet === key) { continue; }
+            result.push(...occurrences.filter(occurrence => occurrence.virin === virin));
+        }
+        return result;
+    }
+}
+
+function describe(occurrence: VirinOccurrence, uri: string): string {
+    const line = `line ${occurrence.range.start.line + 1}`;
+    if (sheetKey(occurrence.uri) === sheetKey(uri)) { return line; }
+    return `${path.basename(sheetKey(occurrence.uri))}, ${line}`;
+}
+
+/**
+ * Reports every VIRIN used by more than one caption, in this sheet or in any
+ * other sheet of the index. The other occurrences are given as related
+ * information when the client supports it, and in the message otherwise.
+ */
+export function validateDuplicateVirins(
+    uri: string,
+    sheet: CaptionSheet,
+    index: VirinIndex,
+    diagnostics: Diagnostic[],
+    maxNumberOfProblems: number,
+    hasRelatedInformation: boolean,
+) {
+    const occurrences = sheetOccurrences(uri, sheet);
+    for (const occurrence of occurrences) {
+        if (diagnostics.length >= maxNumberOfProblems) { return; }
+
+        const others = [
+            ...occurrences.filter(other => other !== occurrence && other.virin === occurrence.virin),
+            ...index.occurrencesOutside(uri, occurrence.virin),
+        ];
+        if (others.length === 0) { continue; }
+
+        const diagnostic: Diagnostic = {
+            severity: DiagnosticSeverity.Error,
+            range: occurrence.range,
+            message: `Duplicate VIRIN "${occurrence.virin}".`,
+            code: 'duplicate-virin',
+            source: 'Markdown Captions'
+        };
+        if (hasRelatedInformation) {
+            diagnostic.relatedInformation = others.map(other => DiagnosticRelatedInformation.create(
+                { uri: other.uri, range: other.range },
+                'Also used here'
+            ));
+        } else {
+            diagnostic.message += ` Also used at ${others.map(other => describe(other, uri)).join('; ')}.`;
+        }
+        diagnostics.push(diagnostic);
+    }
+}
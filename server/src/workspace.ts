@@ -0,0 +1,122 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { CaptionSheet, parseCaptionSheet } from './parser';
+
+// The extensions the client associates with caption sheets
+export const captionSheetExtensions = ['.md', '.mdc', '.mdown', '.markdown', '.markdn'];
+
+export interface WorkspaceSheet {
+    uri: string;
+    text: string;
+    sheet: CaptionSheet;
+}
+
+interface CachedSheet {
+    mtimeMs: number;
+    text: string;
+    sheet: CaptionSheet;
+}
+
+// Sheets read from disk, kept until the file changes
+const sheetCache: Map<string, CachedSheet> = new Map();
+
+/**
+ * Whether a Markdown file is a caption sheet rather than a README or notes,
+ * which share its extensions: a sheet starts with a headline, a "By" byline
+ * and a "Keywords:" line.
+ */
+export function isCaptionSheet(sheet: CaptionSheet): boolean {
+    return !!sheet.headline && !!sheet.byline && /^By\s/i.test(sheet.byline.text) && !!sheet.baseKeywords;
+}
+
+async function findFiles(directory: string, files: string[]) {
+    let entries: fs.Dirent[];
+    try {
+        entries = await fs.promises.readdir(directory, { withFileTypes: true });
+    } catch {
+        return;
+    }
+    for (const entry of entries) {
+        if (entry.name.startsWith('.') || entry.name === 'node_modules') { continue; }
+        const file = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            await findFiles(file, files);
+        } else if (captionSheetExtensions.includes(path.extname(entry.name).toLowerCase())) {
+            files.push(file);
+        }
+    }
+}
+
+/**
+ * Lists the files under the given workspace folder URIs with the extension of
+ * a caption sheet. Whether they are sheets is only known once they're read.
+ */
+export async function findCaptionSheets(folders: string[]): Promise<string[]> {
+    const files: string[] = [];
+    for (const folder of folders) {
+        if (!folder.startsWith('file:')) { continue; }
+        await findFiles(fileURLToPath(folder), files);
+    }
+    return files;
+}
+
+async function readSheet(file: string): Promise<CachedSheet | undefined> {
+    try {
+        const stat = await fs.promises.stat(file);
+        const cached = sheetCache.get(file);
+        if (cached && cached.mtimeMs === stat.mtimeMs) { return cached; }
+
+        const text = await fs.promises.readFile(file, 'utf8');
+        const sheet = { mtimeMs: stat.mtimeMs, text, sheet: parseCaptionSheet(text) };
+        sheetCache.set(file, sheet);
+        return sheet;
+    } catch {
+        sheetCache.delete(file);
+        return;
+    }
+}
+
+/**
+ * Reads and parses a caption sheet from disk, or returns `undefined` when it
+ * can't be read or isn't a caption sheet.
+ */
+export async function readWorkspaceSheet(file: string): Promise<WorkspaceSheet | undefined> {
+    const cached = await readSheet(file);
+    if (!cached || !isCaptionSheet(cached.sheet)) { return; }
+    return { uri: pathToFileURL(file).toString(), text: cached.text, sheet: cached.sheet };
+}
+
+/**
+ * Parses the given caption sheets, as found by `findCaptionSheets`, leaving out
+ * the files that aren't sheets. Documents open in the editor win over what's
+ * on disk.
+ */
+export async function loadWorkspaceSheets(
+    files: string[],
+    openDocuments: TextDocument[]
+): Promise<WorkspaceSheet[]> {
+    // Clients and Node spell file URIs differently, so match on the path
+    const open = new Map(openDocuments
+        .filter(document => document.uri.startsWith('file:'))
+        .map(document => [fileURLToPath(document.uri), document] as [string, TextDocument]));
+
+    const sheets: WorkspaceSheet[] = [];
+    for (const file of files) {
+        const document = open.get(file);
+        if (document) {
+            const text = document.getText();
+            const sheet = parseCaptionSheet(text);
+            if (isCaptionSheet(sheet)) {
+                sheets.push({ uri: document.uri, text, sheet });
+            }
+            continue;
+        }
+        const sheet = await readWorkspaceSheet(file);
+        if (sheet) {
+            sheets.push(sheet);
+        }
+    }
+    return sheets;
+}